@@ -600,7 +600,7 @@ function App() {
                 <article key={booking.id} className="booking-card">
                   <header>
                     <div>
-                      <h3>{booking.room?.roomNumber || booking.roomId}</h3>
+                      <h3>{booking.room?.roomNumber || booking.roomId || booking.roomType}</h3>
                       <p>
                         {booking.checkInDate.slice(0, 10)} → {booking.checkOutDate.slice(0, 10)}
                       </p>
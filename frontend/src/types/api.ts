@@ -34,20 +34,38 @@ export interface Payment {
   bookingId: string;
   amount: number;
   currency: string;
+  exchangeRate?: number;
+  amountMinor?: number;
   status: string;
   paymentMethod: string;
   transactionId?: string;
   paidAt?: string;
 }
 
+export interface BookingLineItem {
+  type: 'ROOM' | 'ADJUSTMENT' | 'DISCOUNT' | 'TAX' | 'FEE';
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+  date?: string;
+}
+
 export interface BookingRecord {
   id: string;
   guestId: string;
-  roomId: string;
+  groupId?: string;
+  occupantName?: string;
+  roomId?: string;
+  roomType?: RoomType;
   checkInDate: string;
   checkOutDate: string;
   numberOfGuests: number;
   totalPrice: number;
+  lineItems?: BookingLineItem[];
+  currency?: string;
+  exchangeRate?: number;
+  promoCode?: string;
   status: string;
   specialRequests?: string;
   createdAt: string;
@@ -63,6 +81,9 @@ export interface AvailabilityResult {
   isAvailable: boolean;
   availableFrom?: string;
   pricePerNight: number;
+  quotedTotal?: number;
+  currency?: string;
+  displayTotal?: number;
 }
 
 export interface AuthenticatedUser {
@@ -6,6 +6,9 @@ import helmet from 'helmet';
 import morgan from 'morgan';
 import { config } from './config';
 import routes from './routes';
+import { holdExpiryJob } from './jobs/holdExpiryJob';
+import { noShowJob } from './jobs/noShowJob';
+import { campaignJob } from './jobs/campaignJob';
 
 const app = express();
 
@@ -81,25 +84,69 @@ app.get('/api-info', (_req: Request, res: Response) => {
         register: 'POST /api/auth/register',
         login: 'POST /api/auth/login',
         profile: 'GET /api/auth/profile',
-        updateProfile: 'PUT /api/auth/profile'
+        updateProfile: 'PUT /api/auth/profile',
+        emailPreferences: 'PUT /api/auth/email-preferences',
+        unsubscribePage: 'GET /api/auth/unsubscribe?token=',
+        unsubscribe: 'POST /api/auth/unsubscribe?token='
       },
       rooms: {
         getAll: 'GET /api/rooms',
         getById: 'GET /api/rooms/:id',
         getRoomTypes: 'GET /api/rooms/types',
+        calendar: 'GET /api/rooms/calendar?from=&to= (Staff/Admin only)',
+        getMaintenanceBlocks: 'GET /api/rooms/maintenance-blocks?roomId= (Staff/Admin only)',
+        createMaintenanceBlock: 'POST /api/rooms/maintenance-blocks (Staff/Admin only)',
+        getMaintenanceBlock: 'GET /api/rooms/maintenance-blocks/:id (Staff/Admin only)',
+        deleteMaintenanceBlock: 'DELETE /api/rooms/maintenance-blocks/:id (Staff/Admin only)',
         create: 'POST /api/rooms (Admin only)',
         update: 'PUT /api/rooms/:id (Admin/Staff only)',
         delete: 'DELETE /api/rooms/:id (Admin only)'
       },
       bookings: {
         checkAvailability: 'GET /api/bookings/availability',
+        checkRoomTypeAvailability: 'GET /api/bookings/availability/types',
+        cancellationPolicies: 'GET /api/bookings/cancellation-policies',
+        currencies: 'GET /api/bookings/currencies',
         create: 'POST /api/bookings',
+        hold: 'POST /api/bookings/holds',
+        confirmHold: 'POST /api/bookings/holds/:id/confirm',
+        joinWaitlist: 'POST /api/bookings/waitlist',
+        getMyWaitlistEntries: 'GET /api/bookings/waitlist/my-entries',
+        getWaitlist: 'GET /api/bookings/waitlist?status= (Staff/Admin only)',
+        leaveWaitlist: 'DELETE /api/bookings/waitlist/:id',
         getMyBookings: 'GET /api/bookings/my-bookings',
+        createGroup: 'POST /api/bookings/groups',
+        getGroup: 'GET /api/bookings/groups/:id',
+        groupManifest: 'GET /api/bookings/groups/:id/manifest (Staff/Admin only)',
+        cancelGroup: 'POST /api/bookings/groups/:id/cancel',
         getAllBookings: 'GET /api/bookings (Staff/Admin only)',
         getById: 'GET /api/bookings/:id',
+        modify: 'PATCH /api/bookings/:id',
+        history: 'GET /api/bookings/:id/history',
         cancel: 'POST /api/bookings/:id/cancel',
+        assignRoom: 'POST /api/bookings/:id/assign-room (Staff/Admin only)',
+        stayExtensions: 'GET /api/bookings/:id/stay-extensions',
+        earlyCheckIn: 'PUT /api/bookings/:id/early-check-in (Staff/Admin only)',
+        lateCheckOut: 'PUT /api/bookings/:id/late-check-out (Staff/Admin only)',
         checkIn: 'POST /api/bookings/:id/check-in (Staff/Admin only)',
+        getFolio: 'GET /api/bookings/:id/folio',
+        postFolioEntry: 'POST /api/bookings/:id/folio/entries (Staff/Admin only)',
+        getInvoice: 'GET /api/bookings/:id/invoice?format=html|pdf|json',
         checkOut: 'POST /api/bookings/:id/check-out (Staff/Admin only)'
+      },
+      housekeeping: {
+        getRooms: 'GET /api/housekeeping/rooms?status= (Staff/Admin only)',
+        updateRoomStatus: 'PUT /api/housekeeping/rooms/:id/status (Staff/Admin only)',
+        getTasks: 'GET /api/housekeeping/tasks?status=&assignedTo= (Staff/Admin only)',
+        assignTask: 'PUT /api/housekeeping/tasks/:id/assign (Staff/Admin only)'
+      },
+      admin: {
+        rateRules: 'GET/POST /api/admin/rate-rules, GET/PUT/DELETE /api/admin/rate-rules/:id (Admin only)',
+        exchangeRates: 'GET /api/admin/exchange-rates, PUT/DELETE /api/admin/exchange-rates/:currency (Admin only)',
+        promoCodes: 'GET/POST /api/admin/promo-codes, GET/PUT/DELETE /api/admin/promo-codes/:id, GET /api/admin/promo-codes/:id/redemptions (Admin only)',
+        revenueReport: 'GET /api/admin/reports/revenue?from=&to= (Admin only)',
+        promoCodeReport: 'GET /api/admin/reports/promo-codes (Admin only)',
+        roomAssignment: 'POST /api/admin/room-assignment/run (Staff/Admin only)'
       }
     },
     defaultCredentials: {
@@ -148,6 +195,10 @@ app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
 const PORT = config.port;
 
 app.listen(PORT, () => {
+  holdExpiryJob.start();
+  noShowJob.start();
+  campaignJob.start();
+
   console.log('='.repeat(60));
   console.log('🏨 Hotel Booking System API');
   console.log('='.repeat(60));
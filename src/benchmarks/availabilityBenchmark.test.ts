@@ -0,0 +1,38 @@
+// benchmarks/availabilityBenchmark.test.ts
+
+import { execFileSync } from 'child_process';
+import * as path from 'path';
+import type { AvailabilityBenchmarkResult } from './availabilityBenchmark';
+
+const TARGET_MS = 10;
+
+// Jest runs tests inside a vm context, where every lookup of a global such as Math or Date is
+// many times slower than in a server process, so the benchmark is timed in a process of its own
+const runBenchmark = (): AvailabilityBenchmarkResult => {
+  const output = execFileSync(
+    process.execPath,
+    ['-r', 'ts-node/register/transpile-only', path.join(__dirname, 'availabilityBenchmark.ts')],
+    { env: { ...process.env, DB_DRIVER: 'memory' }, encoding: 'utf8', timeout: 120_000 }
+  );
+  return JSON.parse(output.trim().split('\n').pop()!);
+};
+
+describe('availability with 800 rooms and 100k bookings', () => {
+  let result: AvailabilityBenchmarkResult;
+
+  beforeAll(() => {
+    result = runBenchmark();
+  }, 120_000);
+
+  it('is measured on a date when most rooms are taken', () => {
+    expect(result.unavailableRooms).toBeGreaterThan(result.rooms / 2);
+  });
+
+  it(`searches every room in under ${TARGET_MS}ms`, () => {
+    expect(result.searchMs).toBeLessThan(TARGET_MS);
+  });
+
+  it(`checks one room in under ${TARGET_MS}ms`, () => {
+    expect(result.checkMs).toBeLessThan(TARGET_MS);
+  });
+});
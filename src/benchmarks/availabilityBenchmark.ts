@@ -0,0 +1,133 @@
+// benchmarks/availabilityBenchmark.ts
+//
+// Times availability queries for a large property: 800 rooms and 100k bookings in the
+// in-memory repository. Prints the median timings as JSON. Run with `npm run bench`.
+
+import { config } from '../config';
+import { db } from '../database';
+import { bookingService } from '../services/bookingService';
+import { Booking, BookingStatus, HousekeepingStatus, Room, RoomType } from '../types';
+import { addDays } from '../utils/dates';
+
+const ROOMS = 800;
+const BOOKINGS = 100_000;
+const WARMUP_RUNS = 50;
+const RUNS = 50;
+
+export interface AvailabilityBenchmarkResult {
+  rooms: number;
+  unavailableRooms: number;
+  searchMs: number;
+  checkMs: number;
+}
+
+const day = (offset: number): Date => {
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+  return addDays(today, offset);
+};
+
+// Deterministic pseudo-random sequence so every run books the same calendar
+const random = (() => {
+  let state = 42;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+})();
+
+// Median of timed runs once the JIT has optimized the code, as it has in a long-running server
+const medianMs = async (fn: () => Promise<unknown>): Promise<number> => {
+  for (let i = 0; i < WARMUP_RUNS; i++) {
+    await fn();
+  }
+  const samples: number[] = [];
+  for (let i = 0; i < RUNS; i++) {
+    const start = performance.now();
+    await fn();
+    samples.push(performance.now() - start);
+  }
+  return samples.sort((a, b) => a - b)[Math.floor(samples.length / 2)];
+};
+
+const fillProperty = async (): Promise<void> => {
+  while (db.getAllRooms().length === 0) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+
+  const types = Object.values(RoomType);
+  const rooms: Room[] = [];
+  for (let i = 0; i < ROOMS; i++) {
+    rooms.push(db.createRoom({
+      id: `bench-room-${i}`,
+      roomNumber: `B${i}`,
+      type: types[i % types.length],
+      description: 'Benchmark room',
+      pricePerNight: 100 + (i % 5) * 50,
+      capacity: 2,
+      amenities: [],
+      floor: 1,
+      isAvailable: true,
+      housekeepingStatus: HousekeepingStatus.CLEAN,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    }));
+  }
+
+  // Mostly back-to-back stays of one to four nights with a few empty nights now and then, so a
+  // busy date has nearly every room taken and the next free window is a few stays away
+  const bookings: Booking[] = [];
+  rooms.forEach(room => {
+    let checkIn = 1;
+    for (let i = 0; i < BOOKINGS / ROOMS; i++) {
+      const nights = 1 + Math.floor(random() * 4);
+      bookings.push({
+        id: `bench-booking-${room.id}-${i}`,
+        guestId: 'bench-guest',
+        roomId: room.id,
+        roomType: room.type,
+        checkInDate: day(checkIn),
+        checkOutDate: day(checkIn + nights),
+        numberOfGuests: 1,
+        totalPrice: room.pricePerNight * nights,
+        lineItems: [],
+        currency: config.payment.currency,
+        exchangeRate: 1,
+        status: BookingStatus.CONFIRMED,
+        cancellationPolicy: 'MODERATE',
+        createdAt: new Date(),
+        updatedAt: new Date()
+      });
+      checkIn += nights + (random() < 0.2 ? 1 + Math.floor(random() * 3) : 0);
+    }
+  });
+
+  // Written in check-in order, as the index appends rather than shifting on each insert
+  bookings
+    .sort((a, b) => a.checkInDate.getTime() - b.checkInDate.getTime())
+    .forEach(booking => db.createBooking(booking));
+};
+
+const run = async (): Promise<AvailabilityBenchmarkResult> => {
+  if (config.database.driver !== 'memory') {
+    throw new Error('The benchmark fills the database with test data; run it with DB_DRIVER=memory');
+  }
+  await fillProperty();
+
+  const query = { checkInDate: day(30).toISOString(), checkOutDate: day(32).toISOString() };
+  const rooms = await bookingService.getAvailableRooms(query);
+
+  return {
+    rooms: rooms.length,
+    unavailableRooms: rooms.filter(room => !room.isAvailable).length,
+    searchMs: await medianMs(() => bookingService.getAvailableRooms(query)),
+    checkMs: await medianMs(() => bookingService.checkRoomAvailability('bench-room-0', day(30), day(32)))
+  };
+};
+
+run()
+  .then(result => console.log(JSON.stringify(result)))
+  .catch(error => {
+    console.error('Availability benchmark failed:', error);
+    process.exitCode = 1;
+  });
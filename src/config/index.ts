@@ -1,9 +1,12 @@
 // config/index.ts
 
 import dotenv from 'dotenv';
+import { CancellationPenalty, CancellationPolicy, RoomType } from '../types';
 
 dotenv.config();
 
+const cancellationPeriodHours = parseInt(process.env.CANCELLATION_PERIOD_HOURS || '24');
+
 export const config = {
   port: process.env.PORT || 3000,
   nodeEnv: process.env.NODE_ENV || 'development',
@@ -21,19 +24,118 @@ export const config = {
       user: process.env.EMAIL_USER || 'your-email@gmail.com',
       pass: process.env.EMAIL_PASSWORD || 'your-app-password'
     },
-    from: process.env.EMAIL_FROM || 'Hotel Booking System <noreply@hotelbooking.com>'
+    from: process.env.EMAIL_FROM || 'Hotel Booking System <noreply@hotelbooking.com>',
+    // Campaign emails are only sent once a mail server has been set, rather than retried against the default
+    configured: Boolean(process.env.EMAIL_HOST)
+  },
+  
+  database: {
+    driver: (process.env.DB_DRIVER || 'memory') as 'memory' | 'sqlite',
+    sqlitePath: process.env.DB_SQLITE_PATH || './data/hotel.db'
   },
   
   payment: {
-    currency: 'USD',
-    processingFee: 0.03 // 3% processing fee
+    currency: (process.env.BASE_CURRENCY || 'USD').toUpperCase(),
+    // Optional JSON file of { "EUR": 0.92, ... } rates per unit of the base currency
+    exchangeRatesFile: process.env.EXCHANGE_RATES_FILE || '',
+    processingFee: parseFloat(process.env.PROCESSING_FEE || '0.03'), // 3% processing fee
+    gateway: (process.env.PAYMENT_GATEWAY || 'fake') as 'fake' | 'stripe',
+    stripe: {
+      apiKey: process.env.STRIPE_API_KEY || 'sk_test_123',
+      baseUrl: process.env.STRIPE_BASE_URL || 'http://localhost:12111',
+      // Stripe payment method id charged when a guest gave no method of their own, e.g. pm_card_visa against stripe-mock
+      defaultPaymentMethod: process.env.STRIPE_DEFAULT_PAYMENT_METHOD || ''
+    }
+  },
+  
+  taxes: {
+    vatPercent: parseFloat(process.env.VAT_PERCENT || '10'),
+    cityTaxPerPersonPerNight: parseFloat(process.env.CITY_TAX_PER_PERSON_PER_NIGHT || '2.5')
   },
   
   booking: {
     maxAdvanceBookingDays: 365,
     minBookingDays: 1,
     maxBookingDays: 30,
-    cancellationPeriodHours: 24
+    maxGroupRooms: 20,
+    maxCalendarDays: 92,
+    // How far either side of an unavailable search to look for free dates, and how many alternatives to offer
+    suggestionSearchDays: 14,
+    maxSuggestions: 5,
+    cancellationPeriodHours,
+    holdMinutes: parseInt(process.env.HOLD_MINUTES || '15'),
+    holdSweepIntervalSeconds: parseInt(process.env.HOLD_SWEEP_INTERVAL_SECONDS || '60'),
+    waitlistOfferMinutes: parseInt(process.env.WAITLIST_OFFER_MINUTES || '60'),
+    // Standard arrival and departure times (HH:MM, hotel local time) and what checking in
+    // before or out after them costs; a fee of 0 makes the extension free
+    checkInTime: process.env.CHECK_IN_TIME || '15:00',
+    checkOutTime: process.env.CHECK_OUT_TIME || '11:00',
+    earlyCheckInFee: parseFloat(process.env.EARLY_CHECK_IN_FEE || '0'),
+    lateCheckOutFee: parseFloat(process.env.LATE_CHECK_OUT_FEE || '0'),
+    // A confirmed guest not checked in this many hours after the standard check-in time is a no-show
+    noShowCutoffHours: parseInt(process.env.NO_SHOW_CUTOFF_HOURS || '12'),
+    noShowSweepIntervalSeconds: parseInt(process.env.NO_SHOW_SWEEP_INTERVAL_SECONDS || '900')
+  },
+  
+  invoice: {
+    // Invoice numbers are the prefix and a zero-padded sequence, e.g. INV-000042
+    prefix: process.env.INVOICE_PREFIX || 'INV',
+    hotelName: process.env.HOTEL_NAME || 'Hotel Booking System',
+    hotelAddress: process.env.HOTEL_ADDRESS || '',
+    taxId: process.env.HOTEL_TAX_ID || ''
+  },
+  
+  campaigns: {
+    // Where links in emails point: this API for unsubscribing, and the guest feedback form
+    publicUrl: process.env.PUBLIC_URL || `http://localhost:${process.env.PORT || 3000}`,
+    feedbackUrl: process.env.FEEDBACK_URL || 'https://hotelbooking.com/feedback',
+    preArrivalDays: parseInt(process.env.PRE_ARRIVAL_REMINDER_DAYS || '3'),
+    // Only guests who left this recently are thanked, so older stays are never emailed
+    postStayDays: parseInt(process.env.POST_STAY_EMAIL_DAYS || '7'),
+    // How long a hold sits unpaid before the guest is reminded about it
+    abandonedHoldMinutes: parseInt(process.env.ABANDONED_HOLD_REMINDER_MINUTES || '5'),
+    sweepIntervalSeconds: parseInt(process.env.CAMPAIGN_SWEEP_INTERVAL_SECONDS || '300')
+  },
+  
+  housekeeping: {
+    // Refuse check-in to a room that is not clean instead of checking in with a warning
+    blockCheckInUntilClean: process.env.BLOCK_CHECK_IN_UNTIL_CLEAN === 'true'
+  },
+  
+  cancellation: {
+    policies: [
+      {
+        code: 'FLEXIBLE',
+        description: `Free cancellation until ${cancellationPeriodHours} hours before check-in, then the first night is charged`,
+        refundable: true,
+        freeCancellationHours: cancellationPeriodHours,
+        lateCancellationPenalty: CancellationPenalty.FIRST_NIGHT
+      },
+      {
+        code: 'MODERATE',
+        description: 'Free cancellation until 5 days before check-in, then the first night is charged',
+        refundable: true,
+        freeCancellationHours: 120,
+        lateCancellationPenalty: CancellationPenalty.FIRST_NIGHT
+      },
+      {
+        code: 'NON_REFUNDABLE',
+        description: 'No refund on cancellation',
+        refundable: false,
+        freeCancellationHours: 0,
+        lateCancellationPenalty: CancellationPenalty.FULL_STAY
+      }
+    ] as CancellationPolicy[],
+    // Kept from a no-show on a refundable rate; non-refundable rates keep the whole stay
+    noShowPenalty: (process.env.NO_SHOW_PENALTY || CancellationPenalty.FIRST_NIGHT) as CancellationPenalty,
+    // Policy applied when the guest does not book a specific rate
+    roomTypeDefaults: {
+      [RoomType.SINGLE]: 'FLEXIBLE',
+      [RoomType.DOUBLE]: 'FLEXIBLE',
+      [RoomType.SUITE]: 'MODERATE',
+      [RoomType.DELUXE]: 'MODERATE',
+      [RoomType.PRESIDENTIAL]: 'MODERATE'
+    } as Record<RoomType, string>
   }
 };
 
@@ -53,10 +155,58 @@ EMAIL_USER=your-email@gmail.com
 EMAIL_PASSWORD=your-app-password
 EMAIL_FROM=Hotel Booking System <noreply@hotelbooking.com>
 
-# Database Configuration (if using a real database)
-# DB_HOST=localhost
-# DB_PORT=5432
-# DB_NAME=hotel_booking
-# DB_USER=postgres
-# DB_PASSWORD=password
+# Database Configuration (memory or sqlite)
+DB_DRIVER=memory
+DB_SQLITE_PATH=./data/hotel.db
+
+# Payment Configuration (fake or stripe; STRIPE_BASE_URL may point at stripe-mock)
+PAYMENT_GATEWAY=fake
+STRIPE_API_KEY=sk_test_123
+STRIPE_BASE_URL=http://localhost:12111
+STRIPE_DEFAULT_PAYMENT_METHOD=
+PROCESSING_FEE=0.03
+
+# Currencies (rates maintained by admins override the rates file)
+BASE_CURRENCY=USD
+EXCHANGE_RATES_FILE=./data/exchange-rates.json
+
+# Taxes
+VAT_PERCENT=10
+CITY_TAX_PER_PERSON_PER_NIGHT=2.5
+
+# Booking holds
+HOLD_MINUTES=15
+HOLD_SWEEP_INTERVAL_SECONDS=60
+# How long a waitlisted guest has to pay for a room offered to them
+WAITLIST_OFFER_MINUTES=60
+
+# Check-in and check-out times (HH:MM) and fees for arriving early or leaving late
+CHECK_IN_TIME=15:00
+CHECK_OUT_TIME=11:00
+EARLY_CHECK_IN_FEE=30
+LATE_CHECK_OUT_FEE=30
+
+# No-shows: hours past the check-in time before an arrival is marked NO_SHOW, how often to
+# look for them, and what a refundable booking forfeits (NONE, FIRST_NIGHT or FULL_STAY)
+NO_SHOW_CUTOFF_HOURS=12
+NO_SHOW_SWEEP_INTERVAL_SECONDS=900
+NO_SHOW_PENALTY=FIRST_NIGHT
+
+# Invoices
+INVOICE_PREFIX=INV
+HOTEL_NAME=Hotel Booking System
+HOTEL_ADDRESS=1 Main Street, Springfield
+HOTEL_TAX_ID=
+
+# Email campaigns: reminder N days before arrival, thank-you within N days of departure,
+# and a reminder once a hold has gone unpaid for N minutes
+PUBLIC_URL=http://localhost:3000
+FEEDBACK_URL=https://hotelbooking.com/feedback
+PRE_ARRIVAL_REMINDER_DAYS=3
+POST_STAY_EMAIL_DAYS=7
+ABANDONED_HOLD_REMINDER_MINUTES=5
+CAMPAIGN_SWEEP_INTERVAL_SECONDS=300
+
+# Housekeeping (true refuses check-in to rooms that are not clean; false only warns)
+BLOCK_CHECK_IN_UNTIL_CLEAN=false
 */
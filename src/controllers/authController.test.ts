@@ -0,0 +1,96 @@
+// controllers/authController.test.ts
+
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../database';
+import { campaignService } from '../services/campaignService';
+import { EmailCampaign, UserRole } from '../types';
+import { unsubscribe, unsubscribePage } from './authController';
+
+interface CapturedResponse {
+  statusCode: number;
+  body: any;
+}
+
+// Run a controller against a stub request and capture what it responds with; content
+// negotiation picks JSON
+const call = async (
+  handler: (req: Request, res: Response) => Promise<void>,
+  req: Partial<Request>
+): Promise<CapturedResponse> => {
+  const captured: CapturedResponse = { statusCode: 200, body: undefined };
+  const res = {
+    status(code: number) {
+      captured.statusCode = code;
+      return this;
+    },
+    type() {
+      return this;
+    },
+    json(body: unknown) {
+      captured.body = body;
+      return this;
+    },
+    send(body: unknown) {
+      captured.body = body;
+      return this;
+    },
+    format(handlers: { json: () => void }) {
+      handlers.json();
+      return this;
+    }
+  };
+  await handler(req as Request, res as unknown as Response);
+  return captured;
+};
+
+const createGuest = (): string => {
+  const id = uuidv4();
+  db.createUser({
+    id,
+    email: `${id}@example.com`,
+    password: 'not-a-real-hash',
+    role: UserRole.GUEST,
+    firstName: 'Test',
+    lastName: 'Guest',
+    phone: '+15550000000',
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+  return id;
+};
+
+const tokenFor = (userId: string): string =>
+  new URL(campaignService.unsubscribeUrl(userId, EmailCampaign.POST_STAY)).searchParams.get('token')!;
+
+beforeEach(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('unsubscribe', () => {
+  it('only asks for confirmation when the link is opened', async () => {
+    const guestId = createGuest();
+
+    const response = await call(unsubscribePage, { query: { token: tokenFor(guestId) } });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.body).toContain('<form method="post"');
+    expect(db.getUserById(guestId)!.emailOptOuts || []).toEqual([]);
+  });
+
+  it('opts the guest out when the link is posted to, as one-click unsubscribe does', async () => {
+    const guestId = createGuest();
+
+    const response = await call(unsubscribe, {
+      query: { token: tokenFor(guestId) },
+      body: { 'List-Unsubscribe': 'One-Click' }
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(db.getUserById(guestId)!.emailOptOuts).toEqual([EmailCampaign.POST_STAY]);
+  });
+});
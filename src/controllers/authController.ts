@@ -6,7 +6,8 @@ import bcrypt from 'bcryptjs';
 import * as jwt from 'jsonwebtoken';
 import { db } from '../database';
 import { config } from '../config';
-import { User, UserRole, AuthToken } from '../types';
+import { campaignService } from '../services/campaignService';
+import { EmailCampaign, User, UserRole, AuthToken } from '../types';
 
 export const register = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -204,3 +205,112 @@ export const updateProfile = async (req: Request, res: Response): Promise<void>
     });
   }
 };
+
+export const updateEmailPreferences = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const user = campaignService.setOptOuts(req.user.userId, req.body.optOuts);
+
+    res.status(200).json({
+      success: true,
+      message: 'Email preferences updated successfully',
+      data: { emailOptOuts: user.emailOptOuts }
+    });
+  } catch (error: any) {
+    console.error('Update email preferences error:', error);
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || 'Failed to update email preferences'
+    });
+  }
+};
+
+// What each campaign's emails are called on the unsubscribe pages
+const CAMPAIGN_NAMES: Record<EmailCampaign, string> = {
+  [EmailCampaign.PRE_ARRIVAL]: 'upcoming stay reminders',
+  [EmailCampaign.POST_STAY]: 'post-stay thank-you emails',
+  [EmailCampaign.ABANDONED_HOLD]: 'unpaid booking reminders'
+};
+
+// Standalone page for guests who open the unsubscribe link from an email
+const unsubscribeHtml = (body: string): string => `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Unsubscribe</title>
+</head>
+<body style="font-family: Arial, sans-serif; max-width: 480px; margin: 40px auto;">
+  <h1>Unsubscribe</h1>
+  ${body}
+</body>
+</html>`;
+
+// Messages shown on the pages are our own; anything unexpected gets a generic one
+const unsubscribeError = (error: any): { status: number; message: string } => ({
+  status: error.statusCode || 500,
+  message: error.statusCode ? error.message : 'Failed to unsubscribe'
+});
+
+// Target of the unsubscribe link in campaign emails, so it needs no login. Opening the link only
+// asks for confirmation, so link scanners and prefetching mail clients cannot unsubscribe anyone.
+export const unsubscribePage = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token } = req.query;
+    if (typeof token !== 'string' || !token) {
+      res.status(400).type('html').send(unsubscribeHtml('<p>Unsubscribe token is required</p>'));
+      return;
+    }
+
+    const { campaign } = campaignService.readUnsubscribeLink(token);
+
+    res.status(200).type('html').send(unsubscribeHtml(`
+  <p>Stop sending you ${CAMPAIGN_NAMES[campaign]}?</p>
+  <form method="post" action="?token=${encodeURIComponent(token)}">
+    <button type="submit">Unsubscribe</button>
+  </form>`));
+  } catch (error: any) {
+    console.error('Unsubscribe page error:', error);
+    const { status, message } = unsubscribeError(error);
+    res.status(status).type('html').send(unsubscribeHtml(`<p>${message}</p>`));
+  }
+};
+
+// Submitted from the confirmation page, or by a mail client's one-click unsubscribe (RFC 8058)
+// with the token still in the link's query string
+export const unsubscribe = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const token = req.query.token || req.body.token;
+    if (typeof token !== 'string' || !token) {
+      res.status(400).json({
+        success: false,
+        message: 'Unsubscribe token is required'
+      });
+      return;
+    }
+
+    const user = campaignService.unsubscribe(token);
+
+    res.status(200).format({
+      json: () => res.json({
+        success: true,
+        message: 'You have been unsubscribed',
+        data: { emailOptOuts: user.emailOptOuts }
+      }),
+      html: () => res.send(unsubscribeHtml('<p>You have been unsubscribed</p>'))
+    });
+  } catch (error: any) {
+    console.error('Unsubscribe error:', error);
+    const { status, message } = unsubscribeError(error);
+    res.status(status).format({
+      json: () => res.json({ success: false, message }),
+      html: () => res.send(unsubscribeHtml(`<p>${message}</p>`))
+    });
+  }
+};
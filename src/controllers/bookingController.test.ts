@@ -0,0 +1,179 @@
+// controllers/bookingController.test.ts
+
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { db, lockManager, lockKeys } from '../database';
+import { emailService } from '../services/emailService';
+import { invoiceService } from '../services/invoiceService';
+import { BookingStatus, HousekeepingStatus, Room, RoomType, UserRole } from '../types';
+import { checkOutGuest, createBooking } from './bookingController';
+
+interface CapturedResponse {
+  statusCode: number;
+  body: any;
+}
+
+// Run a controller against a stub request and capture what it responds with
+const call = async (
+  handler: (req: Request, res: Response) => Promise<void>,
+  req: Partial<Request>
+): Promise<CapturedResponse> => {
+  const captured: CapturedResponse = { statusCode: 200, body: undefined };
+  const res = {
+    status(code: number) {
+      captured.statusCode = code;
+      return this;
+    },
+    json(body: unknown) {
+      captured.body = body;
+      return this;
+    }
+  };
+  await handler(req as Request, res as unknown as Response);
+  return captured;
+};
+
+const createRoom = (overrides: Partial<Room> = {}): Room =>
+  db.createRoom({
+    id: uuidv4(),
+    roomNumber: `T${Math.floor(Math.random() * 1e6)}`,
+    type: RoomType.DOUBLE,
+    description: 'Test room',
+    pricePerNight: 100,
+    capacity: 2,
+    amenities: [],
+    floor: 1,
+    isAvailable: true,
+    housekeepingStatus: HousekeepingStatus.CLEAN,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides
+  });
+
+const createGuest = (): string => {
+  const id = uuidv4();
+  db.createUser({
+    id,
+    email: `${id}@example.com`,
+    password: 'not-a-real-hash',
+    role: UserRole.GUEST,
+    firstName: 'Test',
+    lastName: 'Guest',
+    phone: '+15550000000',
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+  return id;
+};
+
+const bookRoom = (guestId: string, roomId: string, fromDay: number, toDay: number) => {
+  const day = (offset: number) => {
+    const date = new Date();
+    date.setUTCHours(0, 0, 0, 0);
+    date.setUTCDate(date.getUTCDate() + offset);
+    return date;
+  };
+  return call(createBooking, {
+    user: { userId: guestId, email: `${guestId}@example.com`, role: UserRole.GUEST },
+    body: {
+      roomId,
+      checkInDate: day(fromDay).toISOString(),
+      checkOutDate: day(toDay).toISOString(),
+      numberOfGuests: 1
+    }
+  });
+};
+
+beforeEach(() => {
+  // Rejected requests are logged by the controllers; keep the test output readable
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  jest.spyOn(emailService, 'sendBookingConfirmation').mockResolvedValue(true);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('createBooking concurrency', () => {
+  it('confirms exactly one of several overlapping requests for the same room', async () => {
+    const room = createRoom();
+    const guests = [createGuest(), createGuest(), createGuest(), createGuest()];
+
+    // Every range includes the night of day 11, so any two of them overlap
+    const responses = await Promise.all([
+      bookRoom(guests[0], room.id, 10, 12),
+      bookRoom(guests[1], room.id, 11, 13),
+      bookRoom(guests[2], room.id, 11, 12),
+      bookRoom(guests[3], room.id, 9, 14)
+    ]);
+
+    const statuses = responses.map(response => response.statusCode);
+    expect(statuses.filter(status => status === 201)).toHaveLength(1);
+    expect(statuses.filter(status => status === 409)).toHaveLength(3);
+
+    const held = db.getAllBookings().filter(booking => booking.roomId === room.id);
+    expect(held).toHaveLength(1);
+  });
+
+  it('confirms requests for the same room that do not overlap', async () => {
+    const room = createRoom();
+
+    const responses = await Promise.all([
+      bookRoom(createGuest(), room.id, 20, 22),
+      bookRoom(createGuest(), room.id, 22, 24)
+    ]);
+
+    expect(responses.map(response => response.statusCode)).toEqual([201, 201]);
+  });
+
+  it('responds 503 when the room lock cannot be obtained in time', async () => {
+    const room = createRoom();
+    const handle = await lockManager.acquire(lockKeys.room(room.id));
+
+    // Shorten the wait so the request gives up while the lock is still held
+    const acquire = lockManager.acquire.bind(lockManager);
+    jest.spyOn(lockManager, 'acquire').mockImplementation(resources => acquire(resources, 20));
+
+    try {
+      const response = await bookRoom(createGuest(), room.id, 30, 31);
+
+      expect(response.statusCode).toBe(503);
+      expect(response.body.success).toBe(false);
+      expect(db.getAllBookings().some(booking => booking.roomId === room.id)).toBe(false);
+    } finally {
+      lockManager.release(handle);
+    }
+  });
+});
+
+describe('createBooking availability', () => {
+  it('refuses a room that is out of order', async () => {
+    const room = createRoom({ isAvailable: false });
+
+    const response = await bookRoom(createGuest(), room.id, 40, 42);
+
+    expect(response.statusCode).toBe(409);
+    expect(db.getAllBookings().some(booking => booking.roomId === room.id)).toBe(false);
+  });
+});
+
+describe('checkOutGuest', () => {
+  it('reports the check-out as done when the invoice email cannot be produced', async () => {
+    const room = createRoom();
+    const guestId = createGuest();
+    await bookRoom(guestId, room.id, 50, 51);
+    const booking = db.getAllBookings().find(candidate => candidate.roomId === room.id)!;
+    db.updateBooking(booking.id, { status: BookingStatus.CHECKED_IN });
+    jest.spyOn(invoiceService, 'renderPdf').mockImplementation(() => {
+      throw new Error('Font not found');
+    });
+
+    const response = await call(checkOutGuest, {
+      params: { id: booking.id },
+      user: { userId: 'admin-1', email: 'admin@example.com', role: UserRole.ADMIN }
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(db.getBookingById(booking.id)!.status).toBe(BookingStatus.CHECKED_OUT);
+  });
+});
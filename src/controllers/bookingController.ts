@@ -3,8 +3,24 @@
 import { Request, Response } from 'express';
 import { db } from '../database';
 import { bookingService } from '../services/bookingService';
+import { bookingStateMachine } from '../services/bookingStateMachine';
+import { cancellationPolicyService } from '../services/cancellationPolicyService';
 import { emailService } from '../services/emailService';
-import { BookingRequest, AvailabilityQuery, Guest } from '../types';
+import { inventoryService } from '../services/inventoryService';
+import { invoiceService } from '../services/invoiceService';
+import { pricingService } from '../services/pricingService';
+import {
+  BookingRequest,
+  AvailabilityQuery,
+  Guest,
+  BookingModificationRequest,
+  Booking,
+  Folio,
+  Room,
+  GroupBookingRequest,
+  GroupPaymentMode,
+  StayExtension
+} from '../types';
 
 export const checkAvailability = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -13,25 +29,156 @@ export const checkAvailability = async (req: Request, res: Response): Promise<vo
       checkOutDate: req.query.checkOutDate as string,
       roomType: req.query.roomType as any,
       minCapacity: req.query.minCapacity ? Number(req.query.minCapacity) : undefined,
-      maxPrice: req.query.maxPrice ? Number(req.query.maxPrice) : undefined
+      maxPrice: req.query.maxPrice ? Number(req.query.maxPrice) : undefined,
+      currency: req.query.currency as string | undefined
     };
 
     const availableRooms = await bookingService.getAvailableRooms(query);
 
+    // Nothing bookable: point the guest at nearby dates and comparable rooms instead
+    const suggestions = availableRooms.some(room => room.isAvailable)
+      ? undefined
+      : await bookingService.getSuggestions(query);
+
     res.status(200).json({
       success: true,
       data: availableRooms,
-      count: availableRooms.length
+      count: availableRooms.length,
+      suggestions
     });
-  } catch (error) {
+  } catch (error: any) {
     console.error('Check availability error:', error);
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.statusCode ? error.message : 'Failed to check room availability'
+    });
+  }
+};
+
+export const checkRoomTypeAvailability = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const checkIn = new Date(req.query.checkInDate as string);
+    const checkOut = new Date(req.query.checkOutDate as string);
+
+    const availability = inventoryService.getTypeAvailability(checkIn, checkOut);
+
+    res.status(200).json({
+      success: true,
+      data: availability,
+      count: availability.length
+    });
+  } catch (error) {
+    console.error('Check room type availability error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to check room type availability'
+    });
+  }
+};
+
+export const getCancellationPolicies = async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const policies = cancellationPolicyService.getPolicies();
+
+    res.status(200).json({
+      success: true,
+      data: policies,
+      count: policies.length
+    });
+  } catch (error) {
+    console.error('Get cancellation policies error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to check room availability'
+      message: 'Failed to retrieve cancellation policies'
     });
   }
 };
 
+// Assigned room of a booking; bookings sold by room type have none until assignment
+const getAssignedRoom = (booking: Booking): Room | undefined =>
+  booking.roomId ? db.getRoomById(booking.roomId) : undefined;
+
+// Room described in emails; unassigned bookings describe their room type
+const getEmailRoom = (booking: Booking): Room | undefined =>
+  getAssignedRoom(booking) || inventoryService.getReferenceRoom(booking.roomType);
+
+// Email the final folio with the invoice attached. The guest is already checked out, so a
+// failure here is logged rather than reported as a failed check-out.
+const sendFinalFolio = async (booking: Booking, folio: Folio): Promise<void> => {
+  try {
+    const room = getEmailRoom(booking);
+    const guest = db.getUserById(booking.guestId) as Guest;
+    if (!room || !guest) return;
+
+    const invoice = invoiceService.getDocument(booking);
+    await emailService.sendFolio({
+      booking,
+      guest,
+      room,
+      folio,
+      attachments: [{
+        filename: `${invoice.invoice.number}.pdf`,
+        content: invoiceService.renderPdf(invoice),
+        contentType: 'application/pdf'
+      }]
+    });
+  } catch (error) {
+    console.error(`Final folio email error for booking ${booking.id}:`, error);
+  }
+};
+
+// Book a specific room, or a room type when no room is given
+const reserve = (guestId: string, request: BookingRequest, hold: boolean) => {
+  const {
+    roomId,
+    roomType,
+    checkInDate,
+    checkOutDate,
+    numberOfGuests,
+    specialRequests,
+    paymentMethod,
+    cancellationPolicy,
+    currency,
+    promoCode,
+    earlyCheckIn,
+    lateCheckOut
+  } = request;
+
+  const checkIn = new Date(checkInDate);
+  const checkOut = new Date(checkOutDate);
+  const options = {
+    specialRequests,
+    paymentMethod,
+    cancellationPolicy,
+    currency,
+    promoCode,
+    hold,
+    earlyCheckIn,
+    lateCheckOut
+  };
+
+  return roomId
+    ? bookingService.createBooking(guestId, roomId, checkIn, checkOut, numberOfGuests, options)
+    : bookingService.createTypeBooking(guestId, roomType!, checkIn, checkOut, numberOfGuests, options);
+};
+
+const unavailableMessage = (request: BookingRequest): string =>
+  request.roomId
+    ? 'Room is not available for the selected dates'
+    : `No ${request.roomType} rooms are available for the selected dates. You can join the waitlist for them.`;
+
+// Send the confirmation email for a paid booking
+const sendConfirmationEmail = async (bookingId: string, paymentId: string): Promise<void> => {
+  const booking = db.getBookingById(bookingId);
+  const payment = db.getPaymentById(paymentId);
+  const room = booking ? getEmailRoom(booking) : undefined;
+  const guest = booking ? db.getUserById(booking.guestId) as Guest : undefined;
+
+  if (booking && payment && room && guest) {
+    await emailService.sendBookingConfirmation({ booking, guest, room, payment });
+  }
+};
+
 export const createBooking = async (req: Request, res: Response): Promise<void> => {
   try {
     if (!req.user) {
@@ -43,25 +190,14 @@ export const createBooking = async (req: Request, res: Response): Promise<void>
     }
 
     const bookingRequest: BookingRequest = req.body;
-    const { roomId, checkInDate, checkOutDate, numberOfGuests, specialRequests } = bookingRequest;
-
-    const checkIn = new Date(checkInDate);
-    const checkOut = new Date(checkOutDate);
 
     // Create booking with concurrency control
-    const result = await bookingService.createBooking(
-      req.user.userId,
-      roomId,
-      checkIn,
-      checkOut,
-      numberOfGuests,
-      specialRequests
-    );
+    const result = await reserve(req.user.userId, bookingRequest, false);
 
     if (!result) {
       res.status(409).json({
         success: false,
-        message: 'Room is not available for the selected dates'
+        message: unavailableMessage(bookingRequest)
       });
       return;
     }
@@ -83,18 +219,9 @@ export const createBooking = async (req: Request, res: Response): Promise<void>
     // Get updated booking and payment after payment processing
     const updatedBooking = db.getBookingById(booking.id);
     const updatedPayment = db.getPaymentById(payment.id);
-    const room = db.getRoomById(roomId);
-    const guest = db.getUserById(req.user.userId) as Guest;
+    const room = updatedBooking ? getAssignedRoom(updatedBooking) : undefined;
 
-    if (updatedBooking && updatedPayment && room && guest) {
-      // Send confirmation email
-      await emailService.sendBookingConfirmation({
-        booking: updatedBooking,
-        guest,
-        room,
-        payment: updatedPayment
-      });
-    }
+    await sendConfirmationEmail(booking.id, payment.id);
 
     res.status(201).json({
       success: true,
@@ -107,13 +234,315 @@ export const createBooking = async (req: Request, res: Response): Promise<void>
     });
   } catch (error: any) {
     console.error('Create booking error:', error);
-    res.status(500).json({
+    res.status(error.statusCode || 500).json({
       success: false,
       message: error.message || 'Failed to create booking'
     });
   }
 };
 
+export const createHold = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const bookingRequest: BookingRequest = req.body;
+
+    const result = await reserve(req.user.userId, bookingRequest, true);
+
+    if (!result) {
+      res.status(409).json({
+        success: false,
+        message: unavailableMessage(bookingRequest)
+      });
+      return;
+    }
+
+    res.status(201).json({
+      success: true,
+      message: `Room held until ${result.booking.holdExpiresAt!.toISOString()}. Confirm the hold to pay.`,
+      data: {
+        booking: result.booking,
+        payment: result.payment,
+        holdExpiresAt: result.booking.holdExpiresAt
+      }
+    });
+  } catch (error: any) {
+    console.error('Create hold error:', error);
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || 'Failed to hold room'
+    });
+  }
+};
+
+export const confirmHold = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { paymentMethod } = req.body;
+
+    const booking = db.getBookingById(id);
+    if (!booking) {
+      res.status(404).json({
+        success: false,
+        message: 'Booking not found'
+      });
+      return;
+    }
+
+    // Check authorization
+    if (req.user?.role === 'GUEST' && booking.guestId !== req.user.userId) {
+      res.status(403).json({
+        success: false,
+        message: 'Access denied'
+      });
+      return;
+    }
+
+    if (paymentMethod !== undefined && (typeof paymentMethod !== 'string' || paymentMethod.trim().length === 0)) {
+      res.status(400).json({
+        success: false,
+        message: 'Payment method must be a non-empty string'
+      });
+      return;
+    }
+
+    const result = await bookingService.confirmHold(id, paymentMethod);
+
+    if (!result.success) {
+      res.status(402).json({
+        success: false,
+        message: 'Payment processing failed. The room stays held until the hold expires; please try another payment method.',
+        data: {
+          booking: result.booking,
+          payment: result.payment,
+          holdExpiresAt: result.booking.holdExpiresAt
+        }
+      });
+      return;
+    }
+
+    await sendConfirmationEmail(result.booking.id, result.payment.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Booking confirmed successfully. Confirmation email sent.',
+      data: {
+        booking: result.booking,
+        payment: result.payment
+      }
+    });
+  } catch (error: any) {
+    console.error('Confirm hold error:', error);
+    res.status(error.statusCode || 400).json({
+      success: false,
+      message: error.message || 'Failed to confirm hold'
+    });
+  }
+};
+
+export const createGroupBooking = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const request: GroupBookingRequest = req.body;
+
+    // Book every room or none
+    const result = await bookingService.createGroupBooking(
+      req.user.userId,
+      request.name.trim(),
+      request.rooms,
+      new Date(request.checkInDate),
+      new Date(request.checkOutDate),
+      {
+        paymentMode: request.paymentMode,
+        paymentMethod: request.paymentMethod,
+        cancellationPolicy: request.cancellationPolicy,
+        currency: request.currency
+      }
+    );
+
+    if (!result) {
+      res.status(409).json({
+        success: false,
+        message: 'Not every room in the group is available for the selected dates'
+      });
+      return;
+    }
+
+    const outcomes = await bookingService.processGroupPayment(result.group.id);
+    const confirmed = outcomes.filter(outcome => outcome.success);
+
+    for (const outcome of confirmed) {
+      await sendConfirmationEmail(outcome.bookingId, outcome.paymentId);
+    }
+
+    const data = {
+      group: result.group,
+      bookings: db.getBookingsByGroupId(result.group.id),
+      payments: outcomes.map(outcome => db.getPaymentById(outcome.paymentId))
+    };
+
+    if (confirmed.length === 0) {
+      res.status(402).json({
+        success: false,
+        message: 'Payment processing failed. Please try again.',
+        data
+      });
+      return;
+    }
+
+    res.status(201).json({
+      success: true,
+      message: result.group.paymentMode === GroupPaymentMode.SPLIT
+        ? `${confirmed.length} of ${outcomes.length} rooms confirmed. Confirmation emails sent.`
+        : 'Group booking confirmed successfully. Confirmation emails sent.',
+      data
+    });
+  } catch (error: any) {
+    console.error('Create group booking error:', error);
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || 'Failed to create group booking'
+    });
+  }
+};
+
+export const getGroupBooking = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const group = db.getBookingGroupById(id);
+    if (!group) {
+      res.status(404).json({
+        success: false,
+        message: 'Group not found'
+      });
+      return;
+    }
+
+    // Check authorization
+    if (req.user?.role === 'GUEST' && group.organizerId !== req.user.userId) {
+      res.status(403).json({
+        success: false,
+        message: 'Access denied'
+      });
+      return;
+    }
+
+    const bookings = db.getBookingsByGroupId(id).map(booking => ({
+      ...booking,
+      room: getAssignedRoom(booking),
+      payments: db.getPaymentsByBookingId(booking.id)
+    }));
+
+    res.status(200).json({
+      success: true,
+      data: {
+        group,
+        bookings
+      }
+    });
+  } catch (error) {
+    console.error('Get group booking error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve group booking'
+    });
+  }
+};
+
+export const getGroupManifest = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const manifest = bookingService.getGroupManifest(req.params.id);
+
+    if (!manifest) {
+      res.status(404).json({
+        success: false,
+        message: 'Group not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: manifest
+    });
+  } catch (error) {
+    console.error('Get group manifest error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve group manifest'
+    });
+  }
+};
+
+export const cancelGroupBooking = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const group = db.getBookingGroupById(id);
+    if (!group) {
+      res.status(404).json({
+        success: false,
+        message: 'Group not found'
+      });
+      return;
+    }
+
+    // Check authorization for guests
+    if (req.user?.role === 'GUEST' && group.organizerId !== req.user.userId) {
+      res.status(403).json({
+        success: false,
+        message: 'Access denied'
+      });
+      return;
+    }
+
+    const results = await bookingService.cancelGroup(id, req.user!.userId, req.body?.reason);
+
+    // Send a cancellation email for each room
+    const guest = db.getUserById(group.organizerId) as Guest;
+    for (const { booking, quote } of results) {
+      const room = getEmailRoom(booking);
+      const payment = db.getPaymentByBookingId(booking.id);
+      if (room && guest && payment) {
+        await emailService.sendBookingCancellation({ booking, guest, room, payment, refund: quote });
+      }
+    }
+
+    res.status(200).json({
+      success: true,
+      message: `${results.length} rooms cancelled successfully. Cancellation emails sent.`,
+      data: results.map(({ booking, quote, refunds }) => ({
+        booking,
+        refund: {
+          ...quote,
+          refunds
+        }
+      })),
+      count: results.length
+    });
+  } catch (error: any) {
+    console.error('Cancel group booking error:', error);
+    res.status(error.statusCode || 400).json({
+      success: false,
+      message: error.message || 'Failed to cancel group booking'
+    });
+  }
+};
+
 export const getMyBookings = async (req: Request, res: Response): Promise<void> => {
   try {
     if (!req.user) {
@@ -128,7 +557,7 @@ export const getMyBookings = async (req: Request, res: Response): Promise<void>
 
     // Enrich bookings with room and payment information
     const enrichedBookings = bookings.map(booking => {
-      const room = db.getRoomById(booking.roomId);
+      const room = getAssignedRoom(booking);
       const payment = db.getPaymentByBookingId(booking.id);
       return {
         ...booking,
@@ -173,7 +602,7 @@ export const getBookingById = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    const room = db.getRoomById(booking.roomId);
+    const room = getAssignedRoom(booking);
     const payment = db.getPaymentByBookingId(booking.id);
     const guest = db.getUserById(booking.guestId);
 
@@ -181,6 +610,7 @@ export const getBookingById = async (req: Request, res: Response): Promise<void>
       success: true,
       data: {
         ...booking,
+        priceBreakdown: pricingService.summarize(booking.lineItems || []),
         room,
         payment,
         guest: guest ? {
@@ -201,6 +631,105 @@ export const getBookingById = async (req: Request, res: Response): Promise<void>
   }
 };
 
+export const getBookingHistory = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const booking = db.getBookingById(id);
+    if (!booking) {
+      res.status(404).json({
+        success: false,
+        message: 'Booking not found'
+      });
+      return;
+    }
+
+    // Check authorization
+    if (req.user?.role === 'GUEST' && booking.guestId !== req.user.userId) {
+      res.status(403).json({
+        success: false,
+        message: 'Access denied'
+      });
+      return;
+    }
+
+    const history = bookingStateMachine.getHistory(id);
+
+    res.status(200).json({
+      success: true,
+      data: history,
+      count: history.length
+    });
+  } catch (error) {
+    console.error('Get booking history error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve booking history'
+    });
+  }
+};
+
+export const getStayExtensions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const booking = db.getBookingById(req.params.id);
+    if (!booking) {
+      res.status(404).json({
+        success: false,
+        message: 'Booking not found'
+      });
+      return;
+    }
+
+    // Check authorization
+    if (req.user?.role === 'GUEST' && booking.guestId !== req.user.userId) {
+      res.status(403).json({
+        success: false,
+        message: 'Access denied'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: bookingService.getStayExtensions(booking)
+    });
+  } catch (error) {
+    console.error('Get stay extensions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve early check-in and late check-out options'
+    });
+  }
+};
+
+// Approve or decline early check-in or late check-out
+const decideStayExtension = async (req: Request, res: Response, extension: StayExtension): Promise<void> => {
+  const label = extension === 'earlyCheckIn' ? 'Early check-in' : 'Late check-out';
+  try {
+    const approve: boolean = req.body.approve;
+
+    const booking = await bookingService.decideStayExtension(req.params.id, extension, approve);
+
+    res.status(200).json({
+      success: true,
+      message: `${label} ${approve ? 'approved' : 'declined'}`,
+      data: bookingService.getStayExtensions(booking)
+    });
+  } catch (error: any) {
+    console.error(`${label} decision error:`, error);
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || `Failed to update ${label.toLowerCase()}`
+    });
+  }
+};
+
+export const decideEarlyCheckIn = (req: Request, res: Response): Promise<void> =>
+  decideStayExtension(req, res, 'earlyCheckIn');
+
+export const decideLateCheckOut = (req: Request, res: Response): Promise<void> =>
+  decideStayExtension(req, res, 'lateCheckOut');
+
 export const getAllBookings = async (req: Request, res: Response): Promise<void> => {
   try {
     const { status, roomId, fromDate, toDate } = req.query;
@@ -225,7 +754,7 @@ export const getAllBookings = async (req: Request, res: Response): Promise<void>
 
     // Enrich bookings
     const enrichedBookings = bookings.map(booking => {
-      const room = db.getRoomById(booking.roomId);
+      const room = getAssignedRoom(booking);
       const payment = db.getPaymentByBookingId(booking.id);
       const guest = db.getUserById(booking.guestId);
       return {
@@ -256,6 +785,73 @@ export const getAllBookings = async (req: Request, res: Response): Promise<void>
   }
 };
 
+export const modifyBooking = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const booking = db.getBookingById(id);
+    if (!booking) {
+      res.status(404).json({
+        success: false,
+        message: 'Booking not found'
+      });
+      return;
+    }
+
+    // Check authorization for guests
+    if (req.user?.role === 'GUEST' && booking.guestId !== req.user.userId) {
+      res.status(403).json({
+        success: false,
+        message: 'Access denied'
+      });
+      return;
+    }
+
+    const modification: BookingModificationRequest = req.body;
+
+    const result = await bookingService.modifyBooking(id, {
+      roomId: modification.roomId,
+      checkInDate: modification.checkInDate ? new Date(modification.checkInDate) : undefined,
+      checkOutDate: modification.checkOutDate ? new Date(modification.checkOutDate) : undefined,
+      numberOfGuests: modification.numberOfGuests
+    });
+
+    // Send modification email
+    const room = getEmailRoom(result.booking);
+    const guest = db.getUserById(result.booking.guestId) as Guest;
+    const payment = result.payment || db.getPaymentByBookingId(id);
+
+    if (room && guest && payment) {
+      await emailService.sendBookingModification({
+        booking: result.booking,
+        previousBooking: result.previousBooking,
+        guest,
+        room,
+        payment,
+        priceDifference: result.priceDifference
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Booking modified successfully. Confirmation email sent.',
+      data: {
+        booking: result.booking,
+        room,
+        priceDifference: result.priceDifference,
+        payment: result.payment,
+        refunds: result.refunds
+      }
+    });
+  } catch (error: any) {
+    console.error('Modify booking error:', error);
+    res.status(error.statusCode || 400).json({
+      success: false,
+      message: error.message || 'Failed to modify booking'
+    });
+  }
+};
+
 export const cancelBooking = async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
@@ -278,29 +874,41 @@ export const cancelBooking = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    await bookingService.cancelBooking(id);
+    const { booking: cancelledBooking, quote, refunds } = await bookingService.cancelBooking(
+      id,
+      req.user!.userId,
+      req.body?.reason
+    );
 
     // Send cancellation email
-    const room = db.getRoomById(booking.roomId);
+    const room = getEmailRoom(booking);
     const guest = db.getUserById(booking.guestId) as Guest;
     const payment = db.getPaymentByBookingId(booking.id);
 
     if (room && guest && payment) {
       await emailService.sendBookingCancellation({
-        booking,
+        booking: cancelledBooking,
         guest,
         room,
-        payment
+        payment,
+        refund: quote
       });
     }
 
     res.status(200).json({
       success: true,
-      message: 'Booking cancelled successfully. Cancellation email sent.'
+      message: 'Booking cancelled successfully. Cancellation email sent.',
+      data: {
+        booking: cancelledBooking,
+        refund: {
+          ...quote,
+          refunds
+        }
+      }
     });
   } catch (error: any) {
     console.error('Cancel booking error:', error);
-    res.status(400).json({
+    res.status(error.statusCode || 400).json({
       success: false,
       message: error.message || 'Failed to cancel booking'
     });
@@ -311,15 +919,17 @@ export const checkInGuest = async (req: Request, res: Response): Promise<void> =
   try {
     const { id } = req.params;
 
-    await bookingService.checkIn(id);
+    const { booking, warning } = await bookingService.checkIn(id, req.user!.userId);
 
     res.status(200).json({
       success: true,
-      message: 'Guest checked in successfully'
+      message: 'Guest checked in successfully',
+      data: booking,
+      warning
     });
   } catch (error: any) {
     console.error('Check-in error:', error);
-    res.status(400).json({
+    res.status(error.statusCode || 400).json({
       success: false,
       message: error.message || 'Failed to check in guest'
     });
@@ -330,17 +940,56 @@ export const checkOutGuest = async (req: Request, res: Response): Promise<void>
   try {
     const { id } = req.params;
 
-    await bookingService.checkOut(id);
+    const { booking, folio, payment, refunds } = await bookingService.checkOut(id, req.user!.userId);
+    await sendFinalFolio(booking, folio);
 
     res.status(200).json({
       success: true,
-      message: 'Guest checked out successfully'
+      message: 'Guest checked out successfully. Final folio sent.',
+      data: {
+        booking,
+        folio,
+        payment,
+        refunds
+      }
     });
   } catch (error: any) {
     console.error('Check-out error:', error);
-    res.status(400).json({
+    res.status(error.statusCode || 400).json({
       success: false,
       message: error.message || 'Failed to check out guest'
     });
   }
 };
+
+export const assignRoom = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { roomId } = req.body;
+
+    if (roomId !== undefined && (typeof roomId !== 'string' || !roomId)) {
+      res.status(400).json({
+        success: false,
+        message: 'roomId must be a room ID'
+      });
+      return;
+    }
+
+    const booking = await bookingService.assignRoom(id, roomId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Room assigned successfully',
+      data: {
+        booking,
+        room: getAssignedRoom(booking)
+      }
+    });
+  } catch (error: any) {
+    console.error('Assign room error:', error);
+    res.status(error.statusCode || 400).json({
+      success: false,
+      message: error.message || 'Failed to assign room'
+    });
+  }
+};
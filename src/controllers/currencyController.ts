@@ -0,0 +1,96 @@
+// controllers/currencyController.ts
+
+import { Request, Response } from 'express';
+import { db } from '../database';
+import { currencyService } from '../services/currencyService';
+
+export const getCurrencies = async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const rates = currencyService.getRates();
+    const currencies = currencyService.getSupportedCurrencies().map(currency => ({
+      currency,
+      rate: rates[currency]
+    }));
+
+    res.status(200).json({
+      success: true,
+      data: {
+        baseCurrency: currencyService.getBaseCurrency(),
+        currencies
+      },
+      count: currencies.length
+    });
+  } catch (error) {
+    console.error('Get currencies error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve currencies'
+    });
+  }
+};
+
+export const getExchangeRates = async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const rates = db.getAllExchangeRates().sort((a, b) => a.currency.localeCompare(b.currency));
+
+    res.status(200).json({
+      success: true,
+      data: rates,
+      count: rates.length
+    });
+  } catch (error) {
+    console.error('Get exchange rates error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve exchange rates'
+    });
+  }
+};
+
+export const setExchangeRate = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { currency } = req.params;
+    const { rate } = req.body;
+
+    const exchangeRate = currencyService.setRate(currency, rate);
+
+    res.status(200).json({
+      success: true,
+      message: 'Exchange rate saved successfully',
+      data: exchangeRate
+    });
+  } catch (error) {
+    console.error('Set exchange rate error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to save exchange rate'
+    });
+  }
+};
+
+export const deleteExchangeRate = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { currency } = req.params;
+
+    const deleted = currencyService.deleteRate(currency);
+
+    if (!deleted) {
+      res.status(404).json({
+        success: false,
+        message: 'Exchange rate not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Exchange rate deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete exchange rate error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete exchange rate'
+    });
+  }
+};
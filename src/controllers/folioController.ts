@@ -0,0 +1,68 @@
+// controllers/folioController.ts
+
+import { Request, Response } from 'express';
+import { db } from '../database';
+import { folioService } from '../services/folioService';
+import { FolioEntryRequest, FolioEntryType } from '../types';
+
+export const getFolio = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const booking = db.getBookingById(req.params.id);
+    if (!booking) {
+      res.status(404).json({
+        success: false,
+        message: 'Booking not found'
+      });
+      return;
+    }
+
+    // Check authorization for guests
+    if (req.user?.role === 'GUEST' && booking.guestId !== req.user.userId) {
+      res.status(403).json({
+        success: false,
+        message: 'Access denied'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: folioService.getFolio(booking)
+    });
+  } catch (error) {
+    console.error('Get folio error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve folio'
+    });
+  }
+};
+
+export const postFolioEntry = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { type, description, amount }: FolioEntryRequest = req.body;
+
+    const entry = await folioService.postEntry(
+      req.params.id,
+      type,
+      description.trim(),
+      amount,
+      req.user!.userId
+    );
+
+    res.status(201).json({
+      success: true,
+      message: `${type === FolioEntryType.CREDIT ? 'Credit' : 'Charge'} posted to folio`,
+      data: {
+        entry,
+        folio: folioService.getFolio(db.getBookingById(req.params.id)!)
+      }
+    });
+  } catch (error: any) {
+    console.error('Post folio entry error:', error);
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || 'Failed to post folio entry'
+    });
+  }
+};
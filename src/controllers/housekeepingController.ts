@@ -0,0 +1,82 @@
+// controllers/housekeepingController.ts
+
+import { Request, Response } from 'express';
+import { housekeepingService } from '../services/housekeepingService';
+import { HousekeepingStatus, HousekeepingTaskStatus } from '../types';
+
+export const getHousekeepingRooms = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const rooms = housekeepingService.getRooms(req.query.status as HousekeepingStatus | undefined);
+
+    res.status(200).json({
+      success: true,
+      data: rooms,
+      count: rooms.length
+    });
+  } catch (error) {
+    console.error('Get housekeeping rooms error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve rooms'
+    });
+  }
+};
+
+export const updateRoomStatus = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { status }: { status: HousekeepingStatus } = req.body;
+
+    const room = housekeepingService.updateRoomStatus(req.params.id, status, req.user!.userId);
+
+    res.status(200).json({
+      success: true,
+      message: `Room ${room.roomNumber} marked ${status}`,
+      data: room
+    });
+  } catch (error: any) {
+    console.error('Update housekeeping status error:', error);
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || 'Failed to update housekeeping status'
+    });
+  }
+};
+
+export const getTasks = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const tasks = housekeepingService.getTasks({
+      status: req.query.status as HousekeepingTaskStatus | undefined,
+      assignedTo: req.query.assignedTo as string | undefined
+    });
+
+    res.status(200).json({
+      success: true,
+      data: tasks,
+      count: tasks.length
+    });
+  } catch (error) {
+    console.error('Get housekeeping tasks error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve housekeeping tasks'
+    });
+  }
+};
+
+export const assignTask = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const task = housekeepingService.assignTask(req.params.id, req.body.staffId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Housekeeping task assigned',
+      data: task
+    });
+  } catch (error: any) {
+    console.error('Assign housekeeping task error:', error);
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || 'Failed to assign housekeeping task'
+    });
+  }
+};
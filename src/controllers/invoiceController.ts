@@ -0,0 +1,60 @@
+// controllers/invoiceController.ts
+
+import { Request, Response } from 'express';
+import { db } from '../database';
+import { invoiceService } from '../services/invoiceService';
+
+const INVOICE_FORMATS = ['html', 'pdf', 'json'];
+
+export const getInvoice = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const format = (req.query.format as string | undefined) || 'html';
+    if (!INVOICE_FORMATS.includes(format)) {
+      res.status(400).json({
+        success: false,
+        message: `Invalid format. Must be one of: ${INVOICE_FORMATS.join(', ')}`
+      });
+      return;
+    }
+
+    const booking = db.getBookingById(req.params.id);
+    if (!booking) {
+      res.status(404).json({
+        success: false,
+        message: 'Booking not found'
+      });
+      return;
+    }
+
+    // Check authorization for guests
+    if (req.user?.role === 'GUEST' && booking.guestId !== req.user.userId) {
+      res.status(403).json({
+        success: false,
+        message: 'Access denied'
+      });
+      return;
+    }
+
+    const document = invoiceService.getDocument(booking);
+
+    if (format === 'json') {
+      res.status(200).json({
+        success: true,
+        data: document
+      });
+    } else if (format === 'pdf') {
+      res.status(200)
+        .type('application/pdf')
+        .setHeader('Content-Disposition', `inline; filename="${document.invoice.number}.pdf"`)
+        .send(invoiceService.renderPdf(document));
+    } else {
+      res.status(200).type('html').send(invoiceService.renderHtml(document));
+    }
+  } catch (error: any) {
+    console.error('Get invoice error:', error);
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || 'Failed to generate invoice'
+    });
+  }
+};
@@ -0,0 +1,91 @@
+// controllers/maintenanceController.ts
+
+import { Request, Response } from 'express';
+import { maintenanceService } from '../services/maintenanceService';
+import { MaintenanceBlockRequest } from '../types';
+
+export const createMaintenanceBlock = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { roomId, startDate, endDate, reason }: MaintenanceBlockRequest = req.body;
+
+    const block = await maintenanceService.createBlock(
+      roomId,
+      new Date(startDate),
+      new Date(endDate),
+      reason.trim(),
+      req.user!.userId
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Maintenance block created',
+      data: block
+    });
+  } catch (error: any) {
+    console.error('Create maintenance block error:', error);
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || 'Failed to create maintenance block'
+    });
+  }
+};
+
+export const getMaintenanceBlocks = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const blocks = maintenanceService.getBlocks(req.query.roomId as string | undefined);
+
+    res.status(200).json({
+      success: true,
+      data: blocks,
+      count: blocks.length
+    });
+  } catch (error) {
+    console.error('Get maintenance blocks error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve maintenance blocks'
+    });
+  }
+};
+
+export const getMaintenanceBlock = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const details = maintenanceService.getBlock(req.params.id);
+    if (!details) {
+      res.status(404).json({
+        success: false,
+        message: 'Maintenance block not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: details
+    });
+  } catch (error) {
+    console.error('Get maintenance block error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve maintenance block'
+    });
+  }
+};
+
+export const deleteMaintenanceBlock = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const block = await maintenanceService.removeBlock(req.params.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Maintenance block removed',
+      data: block
+    });
+  } catch (error: any) {
+    console.error('Delete maintenance block error:', error);
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || 'Failed to remove maintenance block'
+    });
+  }
+};
@@ -0,0 +1,240 @@
+// controllers/promoCodeController.ts
+
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../database';
+import { promoService } from '../services/promoService';
+import { PromoCode } from '../types';
+
+// Normalize the code and convert date strings from the request body into Date objects
+const parsePromoCode = (body: any): Partial<PromoCode> => {
+  const promoCode = { ...body };
+  if (typeof body.code === 'string') {
+    promoCode.code = promoService.normalizeCode(body.code);
+  }
+  if (body.validFrom !== undefined) {
+    promoCode.validFrom = body.validFrom ? new Date(body.validFrom) : undefined;
+  }
+  if (body.validUntil !== undefined) {
+    promoCode.validUntil = body.validUntil ? new Date(body.validUntil) : undefined;
+  }
+  return promoCode;
+};
+
+export const getAllPromoCodes = async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const promoCodes = db.getAllPromoCodes().sort((a, b) => a.code.localeCompare(b.code));
+
+    res.status(200).json({
+      success: true,
+      data: promoCodes,
+      count: promoCodes.length
+    });
+  } catch (error) {
+    console.error('Get promo codes error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve promo codes'
+    });
+  }
+};
+
+export const getPromoCodeById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const promoCode = db.getPromoCodeById(id);
+    if (!promoCode) {
+      res.status(404).json({
+        success: false,
+        message: 'Promo code not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...promoCode,
+        activeRedemptions: promoService.countActiveRedemptions(promoCode)
+      }
+    });
+  } catch (error) {
+    console.error('Get promo code error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve promo code'
+    });
+  }
+};
+
+export const createPromoCode = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const {
+      code,
+      description,
+      discountType,
+      discountValue,
+      roomTypes,
+      validFrom,
+      validUntil,
+      maxRedemptions,
+      maxRedemptionsPerGuest,
+      isActive
+    } = parsePromoCode(req.body);
+
+    if (db.getPromoCodeByCode(code!)) {
+      res.status(409).json({
+        success: false,
+        message: 'Promo code already exists'
+      });
+      return;
+    }
+
+    const newPromoCode: PromoCode = {
+      id: uuidv4(),
+      code: code!,
+      description,
+      discountType: discountType!,
+      discountValue: discountValue!,
+      roomTypes,
+      validFrom,
+      validUntil,
+      maxRedemptions,
+      maxRedemptionsPerGuest,
+      isActive: isActive ?? true,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    db.createPromoCode(newPromoCode);
+
+    res.status(201).json({
+      success: true,
+      message: 'Promo code created successfully',
+      data: newPromoCode
+    });
+  } catch (error) {
+    console.error('Create promo code error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create promo code'
+    });
+  }
+};
+
+export const updatePromoCode = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const updates = parsePromoCode(req.body);
+
+    // Don't allow updating promo code ID or creation date
+    delete updates.id;
+    delete updates.createdAt;
+
+    const existing = updates.code ? db.getPromoCodeByCode(updates.code) : undefined;
+    if (existing && existing.id !== id) {
+      res.status(409).json({
+        success: false,
+        message: 'Promo code already exists'
+      });
+      return;
+    }
+
+    const updatedPromoCode = db.updatePromoCode(id, updates);
+
+    if (!updatedPromoCode) {
+      res.status(404).json({
+        success: false,
+        message: 'Promo code not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Promo code updated successfully',
+      data: updatedPromoCode
+    });
+  } catch (error) {
+    console.error('Update promo code error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update promo code'
+    });
+  }
+};
+
+export const deletePromoCode = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const promoCode = db.getPromoCodeById(id);
+    if (!promoCode) {
+      res.status(404).json({
+        success: false,
+        message: 'Promo code not found'
+      });
+      return;
+    }
+
+    // Redeemed codes are kept for reporting; deactivate them instead
+    if (db.getPromoRedemptionsByPromoCodeId(id).length > 0) {
+      res.status(409).json({
+        success: false,
+        message: 'Cannot delete a promo code that has been redeemed. Deactivate it instead.'
+      });
+      return;
+    }
+
+    db.deletePromoCode(id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Promo code deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete promo code error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete promo code'
+    });
+  }
+};
+
+export const getPromoCodeRedemptions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!db.getPromoCodeById(id)) {
+      res.status(404).json({
+        success: false,
+        message: 'Promo code not found'
+      });
+      return;
+    }
+
+    const redemptions = db.getPromoRedemptionsByPromoCodeId(id)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+      .map(redemption => {
+        const booking = db.getBookingById(redemption.bookingId);
+        return {
+          ...redemption,
+          bookingStatus: booking?.status,
+          bookingTotal: booking?.totalPrice
+        };
+      });
+
+    res.status(200).json({
+      success: true,
+      data: redemptions,
+      count: redemptions.length
+    });
+  } catch (error) {
+    console.error('Get promo code redemptions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve promo code redemptions'
+    });
+  }
+};
@@ -0,0 +1,173 @@
+// controllers/rateRuleController.ts
+
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../database';
+import { RateRule } from '../types';
+
+// Convert date strings from the request body into Date objects
+const parseRuleDates = (body: any): Partial<RateRule> => {
+  const rule = { ...body };
+  if (body.startDate !== undefined) {
+    rule.startDate = body.startDate ? new Date(body.startDate) : undefined;
+  }
+  if (body.endDate !== undefined) {
+    rule.endDate = body.endDate ? new Date(body.endDate) : undefined;
+  }
+  return rule;
+};
+
+export const getAllRateRules = async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const rules = db.getAllRateRules().sort((a, b) => a.priority - b.priority);
+
+    res.status(200).json({
+      success: true,
+      data: rules,
+      count: rules.length
+    });
+  } catch (error) {
+    console.error('Get rate rules error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve rate rules'
+    });
+  }
+};
+
+export const getRateRuleById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const rule = db.getRateRuleById(id);
+    if (!rule) {
+      res.status(404).json({
+        success: false,
+        message: 'Rate rule not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: rule
+    });
+  } catch (error) {
+    console.error('Get rate rule error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve rate rule'
+    });
+  }
+};
+
+export const createRateRule = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const {
+      name,
+      type,
+      adjustmentType,
+      adjustmentValue,
+      roomTypes,
+      startDate,
+      endDate,
+      daysOfWeek,
+      minNights,
+      minOccupancyPercent,
+      priority,
+      isActive
+    } = parseRuleDates(req.body);
+
+    const newRule: RateRule = {
+      id: uuidv4(),
+      name: name!,
+      type: type!,
+      adjustmentType: adjustmentType!,
+      adjustmentValue: adjustmentValue!,
+      roomTypes,
+      startDate,
+      endDate,
+      daysOfWeek,
+      minNights,
+      minOccupancyPercent,
+      priority: priority ?? 100,
+      isActive: isActive ?? true,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    db.createRateRule(newRule);
+
+    res.status(201).json({
+      success: true,
+      message: 'Rate rule created successfully',
+      data: newRule
+    });
+  } catch (error) {
+    console.error('Create rate rule error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create rate rule'
+    });
+  }
+};
+
+export const updateRateRule = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const updates = parseRuleDates(req.body);
+
+    // Don't allow updating rule ID or creation date
+    delete updates.id;
+    delete updates.createdAt;
+
+    const updatedRule = db.updateRateRule(id, updates);
+
+    if (!updatedRule) {
+      res.status(404).json({
+        success: false,
+        message: 'Rate rule not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Rate rule updated successfully',
+      data: updatedRule
+    });
+  } catch (error) {
+    console.error('Update rate rule error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update rate rule'
+    });
+  }
+};
+
+export const deleteRateRule = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const deleted = db.deleteRateRule(id);
+
+    if (!deleted) {
+      res.status(404).json({
+        success: false,
+        message: 'Rate rule not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Rate rule deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete rate rule error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete rate rule'
+    });
+  }
+};
@@ -0,0 +1,50 @@
+// controllers/reportController.ts
+
+import { Request, Response } from 'express';
+import { reportService } from '../services/reportService';
+
+export const getRevenueReport = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const from = req.query.from ? new Date(req.query.from as string) : undefined;
+    const to = req.query.to ? new Date(req.query.to as string) : undefined;
+
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      res.status(400).json({
+        success: false,
+        message: 'from and to must be valid dates'
+      });
+      return;
+    }
+
+    const report = reportService.getRevenueReport(from, to);
+
+    res.status(200).json({
+      success: true,
+      data: report
+    });
+  } catch (error) {
+    console.error('Get revenue report error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to generate revenue report'
+    });
+  }
+};
+
+export const getPromoCodeReport = async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const report = reportService.getPromoCodeReport();
+
+    res.status(200).json({
+      success: true,
+      data: report,
+      count: report.length
+    });
+  } catch (error) {
+    console.error('Get promo code report error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to generate promo code report'
+    });
+  }
+};
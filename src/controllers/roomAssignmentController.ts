@@ -0,0 +1,33 @@
+// controllers/roomAssignmentController.ts
+
+import { Request, Response } from 'express';
+import { roomAssignmentService } from '../services/roomAssignmentService';
+
+export const runRoomAssignment = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const date = req.body.date ? new Date(req.body.date) : new Date();
+
+    if (isNaN(date.getTime())) {
+      res.status(400).json({
+        success: false,
+        message: 'date must be a valid date'
+      });
+      return;
+    }
+
+    const run = await roomAssignmentService.run(date);
+    const arrivals = run.assignments.length + run.unassigned.length;
+
+    res.status(200).json({
+      success: true,
+      message: `Assigned rooms to ${run.assignments.length} of ${arrivals} arriving bookings`,
+      data: run
+    });
+  } catch (error: any) {
+    console.error('Run room assignment error:', error);
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || 'Failed to run room assignment'
+    });
+  }
+};
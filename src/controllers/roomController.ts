@@ -3,7 +3,9 @@
 import { Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { db } from '../database';
-import { Room, RoomType } from '../types';
+import { bookingStateMachine } from '../services/bookingStateMachine';
+import { calendarService } from '../services/calendarService';
+import { HousekeepingStatus, Room, RoomType } from '../types';
 
 export const getAllRooms = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -39,6 +41,27 @@ export const getAllRooms = async (req: Request, res: Response): Promise<void> =>
   }
 };
 
+export const getRoomCalendar = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const from = new Date(req.query.from as string);
+    const to = new Date(req.query.to as string);
+
+    const calendar = calendarService.getCalendar(from, to);
+
+    res.status(200).json({
+      success: true,
+      data: calendar,
+      count: calendar.rooms.length
+    });
+  } catch (error) {
+    console.error('Get room calendar error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve room calendar'
+    });
+  }
+};
+
 export const getRoomById = async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
@@ -89,6 +112,7 @@ export const createRoom = async (req: Request, res: Response): Promise<void> =>
       amenities: amenities || [],
       floor,
       isAvailable: true,
+      housekeepingStatus: HousekeepingStatus.CLEAN,
       images: images || [],
       createdAt: new Date(),
       updatedAt: new Date()
@@ -118,6 +142,8 @@ export const updateRoom = async (req: Request, res: Response): Promise<void> =>
     // Don't allow updating room ID or creation date
     delete updates.id;
     delete updates.createdAt;
+    // Housekeeping status moves through the housekeeping routes so its tasks stay in step
+    delete updates.housekeepingStatus;
 
     const updatedRoom = db.updateRoom(id, updates);
 
@@ -149,8 +175,8 @@ export const deleteRoom = async (req: Request, res: Response): Promise<void> =>
 
     // Check if room has active bookings
     const roomBookings = db.getBookingsByRoomId(id);
-    const hasActiveBookings = roomBookings.some(booking => 
-      booking.status !== 'CANCELLED' && booking.status !== 'CHECKED_OUT'
+    const hasActiveBookings = roomBookings.some(booking =>
+      !bookingStateMachine.isTerminal(booking.status)
     );
 
     if (hasActiveBookings) {
@@ -0,0 +1,132 @@
+// controllers/waitlistController.ts
+
+import { Request, Response } from 'express';
+import { db } from '../database';
+import { waitlistService } from '../services/waitlistService';
+import { WaitlistRequest, WaitlistStatus } from '../types';
+
+export const joinWaitlist = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const { roomType, checkInDate, checkOutDate, numberOfGuests }: WaitlistRequest = req.body;
+
+    const entry = waitlistService.join(
+      req.user.userId,
+      roomType,
+      new Date(checkInDate),
+      new Date(checkOutDate),
+      numberOfGuests
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Added to the waitlist. We will email you if a room becomes available.',
+      data: entry
+    });
+  } catch (error: any) {
+    console.error('Join waitlist error:', error);
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || 'Failed to join waitlist'
+    });
+  }
+};
+
+export const getMyWaitlistEntries = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const entries = waitlistService.getGuestEntries(req.user.userId);
+
+    res.status(200).json({
+      success: true,
+      data: entries,
+      count: entries.length
+    });
+  } catch (error) {
+    console.error('Get waitlist entries error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve waitlist entries'
+    });
+  }
+};
+
+export const getWaitlist = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const status = req.query.status as WaitlistStatus | undefined;
+
+    if (status && !Object.values(WaitlistStatus).includes(status)) {
+      res.status(400).json({
+        success: false,
+        message: `Invalid status. Must be one of: ${Object.values(WaitlistStatus).join(', ')}`
+      });
+      return;
+    }
+
+    const entries = waitlistService.getEntries(status);
+
+    res.status(200).json({
+      success: true,
+      data: entries,
+      count: entries.length
+    });
+  } catch (error) {
+    console.error('Get waitlist error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve waitlist'
+    });
+  }
+};
+
+export const leaveWaitlist = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const entry = db.getWaitlistEntryById(id);
+    if (!entry) {
+      res.status(404).json({
+        success: false,
+        message: 'Waitlist entry not found'
+      });
+      return;
+    }
+
+    // Check authorization for guests
+    if (req.user?.role === 'GUEST' && entry.guestId !== req.user.userId) {
+      res.status(403).json({
+        success: false,
+        message: 'Access denied'
+      });
+      return;
+    }
+
+    const updated = waitlistService.leave(id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Removed from the waitlist',
+      data: updated
+    });
+  } catch (error: any) {
+    console.error('Leave waitlist error:', error);
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || 'Failed to leave waitlist'
+    });
+  }
+};
@@ -0,0 +1,145 @@
+// database/availabilityIndex.ts
+
+import { Booking, RoomType } from '../types';
+import { DAY_MS } from '../utils/dates';
+import { IntervalIndex } from '../utils/intervalIndex';
+import { HotelRepository } from './repository';
+
+interface IndexedStay {
+  booking: Booking;
+  start: number;
+}
+
+// In-memory interval index of every booking's stay, by assigned room and, for bookings sold
+// by type and not yet given a room, by room type. Availability checks query it instead of
+// filtering all bookings. Bookings of every status are indexed; callers decide which still
+// take up inventory.
+export class AvailabilityIndex {
+  private stays = new Map<string, IndexedStay>();
+  private all = new IntervalIndex<Booking>();
+  private byRoom = new Map<string, IntervalIndex<Booking>>();
+  private unassignedByType = new Map<RoomType, IntervalIndex<Booking>>();
+
+  get size(): number {
+    return this.stays.size;
+  }
+
+  rebuild(bookings: Booking[]): void {
+    this.stays.clear();
+    this.all = new IntervalIndex<Booking>();
+    this.byRoom.clear();
+    this.unassignedByType.clear();
+
+    // Loading in check-in order appends to each index instead of shifting it on every insert
+    [...bookings]
+      .sort((a, b) => new Date(a.checkInDate).getTime() - new Date(b.checkInDate).getTime())
+      .forEach(booking => this.put(booking));
+  }
+
+  /**
+   * Add a booking, replacing what was indexed for it before
+   */
+  put(booking: Booking): void {
+    this.remove(booking.id);
+
+    const start = new Date(booking.checkInDate).getTime();
+    const end = new Date(booking.checkOutDate).getTime();
+    this.stays.set(booking.id, { booking, start });
+    this.all.insert(start, end, booking);
+    this.indexFor(booking, true)!.insert(start, end, booking);
+  }
+
+  remove(bookingId: string): void {
+    const stay = this.stays.get(bookingId);
+    if (!stay) return;
+
+    this.stays.delete(bookingId);
+    this.all.remove(stay.start, stay.booking);
+    this.indexFor(stay.booking)?.remove(stay.start, stay.booking);
+  }
+
+  /**
+   * Bookings of any room whose stay overlaps a date range
+   */
+  getStays(checkInDate: Date, checkOutDate: Date): Booking[] {
+    return this.lookup(this.all, checkInDate, checkOutDate);
+  }
+
+  getRoomStays(roomId: string, checkInDate: Date, checkOutDate: Date): Booking[] {
+    return this.lookup(this.byRoom.get(roomId), checkInDate, checkOutDate);
+  }
+
+  /**
+   * Earliest check-in at or after a date from which no matching booking holds the room for the given nights
+   */
+  findRoomGap(roomId: string, fromDate: Date, nights: number, predicate: (booking: Booking) => boolean): Date {
+    const from = new Date(fromDate).getTime();
+    const index = this.byRoom.get(roomId);
+    return new Date(index ? index.findGap(from, nights * DAY_MS, predicate) : from);
+  }
+
+  /**
+   * Bookings sold as a room type, with no room assigned yet, whose stay overlaps a date range
+   */
+  getUnassignedStays(roomType: RoomType, checkInDate: Date, checkOutDate: Date): Booking[] {
+    return this.lookup(this.unassignedByType.get(roomType), checkInDate, checkOutDate);
+  }
+
+  private lookup(index: IntervalIndex<Booking> | undefined, checkInDate: Date, checkOutDate: Date): Booking[] {
+    if (!index) return [];
+    return index.query(new Date(checkInDate).getTime(), new Date(checkOutDate).getTime())
+      .map(interval => interval.value);
+  }
+
+  private indexFor(booking: Booking, create: boolean = false): IntervalIndex<Booking> | undefined {
+    const indexes: Map<string, IntervalIndex<Booking>> = booking.roomId ? this.byRoom : this.unassignedByType;
+    const key = booking.roomId || booking.roomType;
+    if (!indexes.has(key) && create) {
+      indexes.set(key, new IntervalIndex<Booking>());
+    }
+    return indexes.get(key);
+  }
+}
+
+/**
+ * Keep an index in step with every booking written through a repository. A transaction that
+ * throws may have been rolled back, so the index is rebuilt from storage before rethrowing.
+ */
+export const indexBookingWrites = (repository: HotelRepository, index: AvailabilityIndex): HotelRepository => {
+  const transaction = repository.transaction.bind(repository);
+  const createBooking = repository.createBooking.bind(repository);
+  const updateBooking = repository.updateBooking.bind(repository);
+  const deleteBooking = repository.deleteBooking.bind(repository);
+
+  repository.transaction = <T>(fn: () => T): T => {
+    try {
+      return transaction(fn);
+    } catch (error) {
+      index.rebuild(repository.getAllBookings());
+      throw error;
+    }
+  };
+
+  repository.createBooking = (booking: Booking): Booking => {
+    const created = createBooking(booking);
+    index.put(created);
+    return created;
+  };
+
+  repository.updateBooking = (id: string, updates: Partial<Booking>): Booking | undefined => {
+    const updated = updateBooking(id, updates);
+    if (updated) {
+      index.put(updated);
+    }
+    return updated;
+  };
+
+  repository.deleteBooking = (id: string): boolean => {
+    const deleted = deleteBooking(id);
+    index.remove(id);
+    return deleted;
+  };
+
+  index.rebuild(repository.getAllBookings());
+  return repository;
+};
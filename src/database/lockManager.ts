@@ -0,0 +1,115 @@
+// database/lockManager.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import { LockTimeoutError } from '../errors';
+
+export interface LockHandle {
+  token: string;
+  resources: string[];
+}
+
+interface Waiter {
+  token: string;
+  grant: () => void;
+}
+
+// Lock keys for the resources that booking and payment mutations contend on
+export const lockKeys = {
+  room: (roomId: string) => `room:${roomId}`,
+  booking: (bookingId: string) => `booking:${bookingId}`,
+  roomType: (roomType: string) => `room-type:${roomType}`,
+  promoCode: (code: string) => `promo:${code}`,
+  group: (groupId: string) => `group:${groupId}`,
+  waitlist: (roomType: string) => `waitlist:${roomType}`
+};
+
+// In-process lock manager with FIFO hand-off and ownership tokens.
+// Multi-resource requests are acquired in sorted key order so two callers can never deadlock.
+class LockManager {
+  private owners: Map<string, string> = new Map();
+  private waiters: Map<string, Waiter[]> = new Map();
+
+  async acquire(resources: string | string[], timeout: number = 5000): Promise<LockHandle> {
+    const keys = Array.from(new Set(Array.isArray(resources) ? resources : [resources])).sort();
+    const handle: LockHandle = { token: uuidv4(), resources: [] };
+    const deadline = Date.now() + timeout;
+
+    try {
+      for (const key of keys) {
+        await this.acquireOne(key, handle.token, deadline - Date.now());
+        handle.resources.push(key);
+      }
+    } catch (error) {
+      this.release(handle);
+      if (error instanceof LockTimeoutError) {
+        throw new LockTimeoutError(keys);
+      }
+      throw error;
+    }
+
+    return handle;
+  }
+
+  release(handle: LockHandle): void {
+    for (const key of [...handle.resources].reverse()) {
+      if (this.owners.get(key) !== handle.token) {
+        throw new Error(`Lock on ${key} is not held by token ${handle.token}`);
+      }
+
+      const next = this.waiters.get(key)?.shift();
+      if (next) {
+        // Hand ownership straight to the oldest waiter so no newcomer can jump the queue
+        this.owners.set(key, next.token);
+        next.grant();
+      } else {
+        this.owners.delete(key);
+        this.waiters.delete(key);
+      }
+    }
+    handle.resources = [];
+  }
+
+  async withLock<T>(resources: string | string[], fn: () => Promise<T>, timeout?: number): Promise<T> {
+    const handle = await this.acquire(resources, timeout);
+    try {
+      return await fn();
+    } finally {
+      this.release(handle);
+    }
+  }
+
+  isLocked(resource: string): boolean {
+    return this.owners.has(resource);
+  }
+
+  private acquireOne(key: string, token: string, timeout: number): Promise<void> {
+    if (!this.owners.has(key)) {
+      this.owners.set(key, token);
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const queue = this.waiters.get(key) || [];
+      const waiter: Waiter = {
+        token,
+        grant: () => {
+          clearTimeout(timer);
+          resolve();
+        }
+      };
+
+      const timer = setTimeout(() => {
+        const index = queue.indexOf(waiter);
+        if (index !== -1) {
+          queue.splice(index, 1);
+        }
+        reject(new LockTimeoutError([key]));
+      }, Math.max(timeout, 0));
+
+      queue.push(waiter);
+      this.waiters.set(key, queue);
+    });
+  }
+}
+
+export const lockManager = new LockManager();
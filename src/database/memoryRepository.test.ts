@@ -0,0 +1,63 @@
+// database/memoryRepository.test.ts
+
+import { User, UserRole } from '../types';
+import { InMemoryRepository } from './memoryRepository';
+
+const user = (id: string): User => ({
+  id,
+  email: `${id}@example.com`,
+  password: 'not-a-real-hash',
+  role: UserRole.GUEST,
+  firstName: 'Test',
+  lastName: 'Guest',
+  phone: '+15550000000',
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+describe('transaction', () => {
+  it('undoes every write made before the callback threw', () => {
+    const repository = new InMemoryRepository();
+    repository.createUser(user('kept'));
+    repository.createUser(user('removed'));
+
+    expect(() => repository.transaction(() => {
+      repository.createUser(user('created'));
+      repository.updateUser('kept', { firstName: 'Changed' });
+      repository.deleteUser('removed');
+      throw new Error('rolled back');
+    })).toThrow('rolled back');
+
+    expect(repository.getUserById('created')).toBeUndefined();
+    expect(repository.getUserById('kept')?.firstName).toBe('Test');
+    expect(repository.getUserById('removed')).toBeDefined();
+  });
+
+  it('undoes only the inner writes when a nested transaction throws', () => {
+    const repository = new InMemoryRepository();
+
+    repository.transaction(() => {
+      repository.createUser(user('outer'));
+      expect(() => repository.transaction(() => {
+        repository.createUser(user('inner'));
+        throw new Error('rolled back');
+      })).toThrow('rolled back');
+    });
+
+    expect(repository.getUserById('outer')).toBeDefined();
+    expect(repository.getUserById('inner')).toBeUndefined();
+  });
+
+  it('lets an outer transaction undo the writes of a nested one that committed', () => {
+    const repository = new InMemoryRepository();
+
+    expect(() => repository.transaction(() => {
+      repository.transaction(() => {
+        repository.createUser(user('inner'));
+      });
+      throw new Error('rolled back');
+    })).toThrow('rolled back');
+
+    expect(repository.getUserById('inner')).toBeUndefined();
+  });
+});
@@ -0,0 +1,483 @@
+// database/memoryRepository.ts
+
+import {
+  User,
+  Room,
+  Booking,
+  BookingStatusChange,
+  Payment,
+  Refund,
+  RateRule,
+  ExchangeRate,
+  PromoCode,
+  PromoRedemption,
+  BookingGroup,
+  WaitlistEntry,
+  MaintenanceBlock,
+  HousekeepingTask,
+  FolioEntry,
+  Invoice,
+  CampaignEmail
+} from '../types';
+import { HotelRepository } from './repository';
+
+type UndoStep = () => void;
+
+// The undo log of the innermost open transaction, shared by every map of a repository
+interface Journal {
+  undo?: UndoStep[];
+}
+
+// Map that records how to reverse each write made while a transaction is open
+class UndoableMap<K, V> extends Map<K, V> {
+  constructor(private readonly journal: Journal) {
+    super();
+  }
+
+  set(key: K, value: V): this {
+    this.record(key);
+    return super.set(key, value);
+  }
+
+  delete(key: K): boolean {
+    this.record(key);
+    return super.delete(key);
+  }
+
+  private record(key: K): void {
+    if (!this.journal.undo) return;
+    if (super.has(key)) {
+      const previous = super.get(key) as V;
+      this.journal.undo.push(() => { super.set(key, previous); });
+    } else {
+      this.journal.undo.push(() => { super.delete(key); });
+    }
+  }
+}
+
+// Volatile Map-backed store; all data is lost on restart
+export class InMemoryRepository implements HotelRepository {
+  private journal: Journal = {};
+  private users: Map<string, User> = new UndoableMap(this.journal);
+  private rooms: Map<string, Room> = new UndoableMap(this.journal);
+  private bookings: Map<string, Booking> = new UndoableMap(this.journal);
+  private payments: Map<string, Payment> = new UndoableMap(this.journal);
+  private bookingHistory: Map<string, BookingStatusChange> = new UndoableMap(this.journal);
+  private refunds: Map<string, Refund> = new UndoableMap(this.journal);
+  private rateRules: Map<string, RateRule> = new UndoableMap(this.journal);
+  private exchangeRates: Map<string, ExchangeRate> = new UndoableMap(this.journal);
+  private promoCodes: Map<string, PromoCode> = new UndoableMap(this.journal);
+  private promoRedemptions: Map<string, PromoRedemption> = new UndoableMap(this.journal);
+  private bookingGroups: Map<string, BookingGroup> = new UndoableMap(this.journal);
+  private waitlistEntries: Map<string, WaitlistEntry> = new UndoableMap(this.journal);
+  private maintenanceBlocks: Map<string, MaintenanceBlock> = new UndoableMap(this.journal);
+  private housekeepingTasks: Map<string, HousekeepingTask> = new UndoableMap(this.journal);
+  private folioEntries: Map<string, FolioEntry> = new UndoableMap(this.journal);
+  private invoices: Map<string, Invoice> = new UndoableMap(this.journal);
+  private campaignEmails: Map<string, CampaignEmail> = new UndoableMap(this.journal);
+
+  // Writes are undone in reverse if fn throws; a nested transaction only undoes its own writes
+  transaction<T>(fn: () => T): T {
+    const outer = this.journal.undo;
+    const undo: UndoStep[] = [];
+    this.journal.undo = undo;
+    try {
+      const result = fn();
+      outer?.push(...undo);
+      return result;
+    } catch (error) {
+      undo.reverse().forEach(step => step());
+      throw error;
+    } finally {
+      this.journal.undo = outer;
+    }
+  }
+
+  // User operations
+  getAllUsers(): User[] {
+    return Array.from(this.users.values());
+  }
+
+  getUserById(id: string): User | undefined {
+    return this.users.get(id);
+  }
+
+  getUserByEmail(email: string): User | undefined {
+    return Array.from(this.users.values()).find(user => user.email === email);
+  }
+
+  createUser(user: User): User {
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  updateUser(id: string, updates: Partial<User>): User | undefined {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    
+    const updatedUser = { ...user, ...updates, updatedAt: new Date() };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  deleteUser(id: string): boolean {
+    return this.users.delete(id);
+  }
+
+  // Room operations
+  getAllRooms(): Room[] {
+    return Array.from(this.rooms.values());
+  }
+
+  getRoomById(id: string): Room | undefined {
+    return this.rooms.get(id);
+  }
+
+  createRoom(room: Room): Room {
+    this.rooms.set(room.id, room);
+    return room;
+  }
+
+  updateRoom(id: string, updates: Partial<Room>): Room | undefined {
+    const room = this.rooms.get(id);
+    if (!room) return undefined;
+    
+    const updatedRoom = { ...room, ...updates, updatedAt: new Date() };
+    this.rooms.set(id, updatedRoom);
+    return updatedRoom;
+  }
+
+  deleteRoom(id: string): boolean {
+    return this.rooms.delete(id);
+  }
+
+  // Booking operations
+  getAllBookings(): Booking[] {
+    return Array.from(this.bookings.values());
+  }
+
+  getBookingById(id: string): Booking | undefined {
+    return this.bookings.get(id);
+  }
+
+  getBookingsByGuestId(guestId: string): Booking[] {
+    return Array.from(this.bookings.values()).filter(booking => booking.guestId === guestId);
+  }
+
+  getBookingsByRoomId(roomId: string): Booking[] {
+    return Array.from(this.bookings.values()).filter(booking => booking.roomId === roomId);
+  }
+
+  getBookingsByGroupId(groupId: string): Booking[] {
+    return Array.from(this.bookings.values()).filter(booking => booking.groupId === groupId);
+  }
+
+  createBooking(booking: Booking): Booking {
+    this.bookings.set(booking.id, booking);
+    return booking;
+  }
+
+  updateBooking(id: string, updates: Partial<Booking>): Booking | undefined {
+    const booking = this.bookings.get(id);
+    if (!booking) return undefined;
+    
+    const updatedBooking = { ...booking, ...updates, updatedAt: new Date() };
+    this.bookings.set(id, updatedBooking);
+    return updatedBooking;
+  }
+
+  deleteBooking(id: string): boolean {
+    return this.bookings.delete(id);
+  }
+
+  // Booking status history operations
+  getBookingHistory(bookingId: string): BookingStatusChange[] {
+    return Array.from(this.bookingHistory.values())
+      .filter(change => change.bookingId === bookingId)
+      .sort((a, b) => a.changedAt.getTime() - b.changedAt.getTime());
+  }
+
+  createBookingStatusChange(change: BookingStatusChange): BookingStatusChange {
+    this.bookingHistory.set(change.id, change);
+    return change;
+  }
+
+  // Payment operations
+  getAllPayments(): Payment[] {
+    return Array.from(this.payments.values());
+  }
+
+  getPaymentById(id: string): Payment | undefined {
+    return this.payments.get(id);
+  }
+
+  getPaymentByBookingId(bookingId: string): Payment | undefined {
+    return Array.from(this.payments.values()).find(payment => payment.bookingId === bookingId);
+  }
+
+  getPaymentsByBookingId(bookingId: string): Payment[] {
+    return Array.from(this.payments.values())
+      .filter(payment => payment.bookingId === bookingId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  createPayment(payment: Payment): Payment {
+    this.payments.set(payment.id, payment);
+    return payment;
+  }
+
+  updatePayment(id: string, updates: Partial<Payment>): Payment | undefined {
+    const payment = this.payments.get(id);
+    if (!payment) return undefined;
+    
+    const updatedPayment = { ...payment, ...updates, updatedAt: new Date() };
+    this.payments.set(id, updatedPayment);
+    return updatedPayment;
+  }
+
+  // Refund operations
+  getRefundsByPaymentId(paymentId: string): Refund[] {
+    return Array.from(this.refunds.values()).filter(refund => refund.paymentId === paymentId);
+  }
+
+  createRefund(refund: Refund): Refund {
+    this.refunds.set(refund.id, refund);
+    return refund;
+  }
+
+  // Rate rule operations
+  getAllRateRules(): RateRule[] {
+    return Array.from(this.rateRules.values());
+  }
+
+  getRateRuleById(id: string): RateRule | undefined {
+    return this.rateRules.get(id);
+  }
+
+  createRateRule(rule: RateRule): RateRule {
+    this.rateRules.set(rule.id, rule);
+    return rule;
+  }
+
+  updateRateRule(id: string, updates: Partial<RateRule>): RateRule | undefined {
+    const rule = this.rateRules.get(id);
+    if (!rule) return undefined;
+
+    const updatedRule = { ...rule, ...updates, updatedAt: new Date() };
+    this.rateRules.set(id, updatedRule);
+    return updatedRule;
+  }
+
+  deleteRateRule(id: string): boolean {
+    return this.rateRules.delete(id);
+  }
+
+  // Exchange rate operations
+  getAllExchangeRates(): ExchangeRate[] {
+    return Array.from(this.exchangeRates.values());
+  }
+
+  getExchangeRateByCurrency(currency: string): ExchangeRate | undefined {
+    return Array.from(this.exchangeRates.values()).find(rate => rate.currency === currency);
+  }
+
+  createExchangeRate(rate: ExchangeRate): ExchangeRate {
+    this.exchangeRates.set(rate.id, rate);
+    return rate;
+  }
+
+  updateExchangeRate(id: string, updates: Partial<ExchangeRate>): ExchangeRate | undefined {
+    const rate = this.exchangeRates.get(id);
+    if (!rate) return undefined;
+
+    const updatedRate = { ...rate, ...updates, updatedAt: new Date() };
+    this.exchangeRates.set(id, updatedRate);
+    return updatedRate;
+  }
+
+  deleteExchangeRate(id: string): boolean {
+    return this.exchangeRates.delete(id);
+  }
+
+  // Promo code operations
+  getAllPromoCodes(): PromoCode[] {
+    return Array.from(this.promoCodes.values());
+  }
+
+  getPromoCodeById(id: string): PromoCode | undefined {
+    return this.promoCodes.get(id);
+  }
+
+  getPromoCodeByCode(code: string): PromoCode | undefined {
+    return Array.from(this.promoCodes.values()).find(promoCode => promoCode.code === code);
+  }
+
+  createPromoCode(promoCode: PromoCode): PromoCode {
+    this.promoCodes.set(promoCode.id, promoCode);
+    return promoCode;
+  }
+
+  updatePromoCode(id: string, updates: Partial<PromoCode>): PromoCode | undefined {
+    const promoCode = this.promoCodes.get(id);
+    if (!promoCode) return undefined;
+
+    const updatedPromoCode = { ...promoCode, ...updates, updatedAt: new Date() };
+    this.promoCodes.set(id, updatedPromoCode);
+    return updatedPromoCode;
+  }
+
+  deletePromoCode(id: string): boolean {
+    return this.promoCodes.delete(id);
+  }
+
+  // Promo redemption operations
+  getPromoRedemptionsByPromoCodeId(promoCodeId: string): PromoRedemption[] {
+    return Array.from(this.promoRedemptions.values()).filter(redemption => redemption.promoCodeId === promoCodeId);
+  }
+
+  getPromoRedemptionByBookingId(bookingId: string): PromoRedemption | undefined {
+    return Array.from(this.promoRedemptions.values()).find(redemption => redemption.bookingId === bookingId);
+  }
+
+  createPromoRedemption(redemption: PromoRedemption): PromoRedemption {
+    this.promoRedemptions.set(redemption.id, redemption);
+    return redemption;
+  }
+
+  updatePromoRedemption(id: string, updates: Partial<PromoRedemption>): PromoRedemption | undefined {
+    const redemption = this.promoRedemptions.get(id);
+    if (!redemption) return undefined;
+
+    const updatedRedemption = { ...redemption, ...updates, updatedAt: new Date() };
+    this.promoRedemptions.set(id, updatedRedemption);
+    return updatedRedemption;
+  }
+
+  // Booking group operations
+  getBookingGroupById(id: string): BookingGroup | undefined {
+    return this.bookingGroups.get(id);
+  }
+
+  createBookingGroup(group: BookingGroup): BookingGroup {
+    this.bookingGroups.set(group.id, group);
+    return group;
+  }
+
+  // Waitlist operations
+  getAllWaitlistEntries(): WaitlistEntry[] {
+    return Array.from(this.waitlistEntries.values());
+  }
+
+  getWaitlistEntryById(id: string): WaitlistEntry | undefined {
+    return this.waitlistEntries.get(id);
+  }
+
+  getWaitlistEntriesByGuestId(guestId: string): WaitlistEntry[] {
+    return Array.from(this.waitlistEntries.values()).filter(entry => entry.guestId === guestId);
+  }
+
+  getWaitlistEntryByBookingId(bookingId: string): WaitlistEntry | undefined {
+    return Array.from(this.waitlistEntries.values()).find(entry => entry.bookingId === bookingId);
+  }
+
+  createWaitlistEntry(entry: WaitlistEntry): WaitlistEntry {
+    this.waitlistEntries.set(entry.id, entry);
+    return entry;
+  }
+
+  updateWaitlistEntry(id: string, updates: Partial<WaitlistEntry>): WaitlistEntry | undefined {
+    const entry = this.waitlistEntries.get(id);
+    if (!entry) return undefined;
+
+    const updatedEntry = { ...entry, ...updates, updatedAt: new Date() };
+    this.waitlistEntries.set(id, updatedEntry);
+    return updatedEntry;
+  }
+
+  // Maintenance block operations
+  getAllMaintenanceBlocks(): MaintenanceBlock[] {
+    return Array.from(this.maintenanceBlocks.values());
+  }
+
+  getMaintenanceBlockById(id: string): MaintenanceBlock | undefined {
+    return this.maintenanceBlocks.get(id);
+  }
+
+  getMaintenanceBlocksByRoomId(roomId: string): MaintenanceBlock[] {
+    return Array.from(this.maintenanceBlocks.values()).filter(block => block.roomId === roomId);
+  }
+
+  createMaintenanceBlock(block: MaintenanceBlock): MaintenanceBlock {
+    this.maintenanceBlocks.set(block.id, block);
+    return block;
+  }
+
+  deleteMaintenanceBlock(id: string): boolean {
+    return this.maintenanceBlocks.delete(id);
+  }
+
+  // Housekeeping task operations
+  getAllHousekeepingTasks(): HousekeepingTask[] {
+    return Array.from(this.housekeepingTasks.values());
+  }
+
+  getHousekeepingTaskById(id: string): HousekeepingTask | undefined {
+    return this.housekeepingTasks.get(id);
+  }
+
+  getHousekeepingTasksByRoomId(roomId: string): HousekeepingTask[] {
+    return Array.from(this.housekeepingTasks.values()).filter(task => task.roomId === roomId);
+  }
+
+  createHousekeepingTask(task: HousekeepingTask): HousekeepingTask {
+    this.housekeepingTasks.set(task.id, task);
+    return task;
+  }
+
+  updateHousekeepingTask(id: string, updates: Partial<HousekeepingTask>): HousekeepingTask | undefined {
+    const task = this.housekeepingTasks.get(id);
+    if (!task) return undefined;
+
+    const updatedTask = { ...task, ...updates, updatedAt: new Date() };
+    this.housekeepingTasks.set(id, updatedTask);
+    return updatedTask;
+  }
+
+  // Folio operations
+  getFolioEntriesByBookingId(bookingId: string): FolioEntry[] {
+    return Array.from(this.folioEntries.values()).filter(entry => entry.bookingId === bookingId);
+  }
+
+  createFolioEntry(entry: FolioEntry): FolioEntry {
+    this.folioEntries.set(entry.id, entry);
+    return entry;
+  }
+
+  // Invoice operations
+  getAllInvoices(): Invoice[] {
+    return Array.from(this.invoices.values());
+  }
+
+  getInvoiceByBookingId(bookingId: string): Invoice | undefined {
+    return Array.from(this.invoices.values()).find(invoice => invoice.bookingId === bookingId);
+  }
+
+  createInvoice(invoice: Invoice): Invoice {
+    this.invoices.set(invoice.id, invoice);
+    return invoice;
+  }
+
+  // Campaign email operations
+  getCampaignEmailsByBookingId(bookingId: string): CampaignEmail[] {
+    return Array.from(this.campaignEmails.values()).filter(email => email.bookingId === bookingId);
+  }
+
+  createCampaignEmail(email: CampaignEmail): CampaignEmail {
+    this.campaignEmails.set(email.id, email);
+    return email;
+  }
+
+  deleteCampaignEmail(id: string): boolean {
+    return this.campaignEmails.delete(id);
+  }
+}
@@ -0,0 +1,449 @@
+// database/migrations.ts
+
+import BetterSqlite3 from 'better-sqlite3';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+}
+
+// Ordered schema history. Never edit an applied migration; append a new one instead.
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up: `
+      CREATE TABLE users (
+        id TEXT PRIMARY KEY,
+        email TEXT NOT NULL UNIQUE,
+        password TEXT NOT NULL,
+        role TEXT NOT NULL,
+        firstName TEXT NOT NULL,
+        lastName TEXT NOT NULL,
+        phone TEXT NOT NULL,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL
+      );
+
+      CREATE TABLE rooms (
+        id TEXT PRIMARY KEY,
+        roomNumber TEXT NOT NULL UNIQUE,
+        type TEXT NOT NULL,
+        description TEXT NOT NULL,
+        pricePerNight REAL NOT NULL,
+        capacity INTEGER NOT NULL,
+        amenities TEXT NOT NULL,
+        floor INTEGER NOT NULL,
+        isAvailable INTEGER NOT NULL,
+        images TEXT,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL
+      );
+
+      CREATE TABLE bookings (
+        id TEXT PRIMARY KEY,
+        guestId TEXT NOT NULL,
+        roomId TEXT NOT NULL,
+        checkInDate TEXT NOT NULL,
+        checkOutDate TEXT NOT NULL,
+        numberOfGuests INTEGER NOT NULL,
+        totalPrice REAL NOT NULL,
+        status TEXT NOT NULL,
+        specialRequests TEXT,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL
+      );
+      CREATE INDEX idx_bookings_guestId ON bookings (guestId);
+      CREATE INDEX idx_bookings_roomId ON bookings (roomId);
+
+      CREATE TABLE payments (
+        id TEXT PRIMARY KEY,
+        bookingId TEXT NOT NULL,
+        amount REAL NOT NULL,
+        currency TEXT NOT NULL,
+        status TEXT NOT NULL,
+        paymentMethod TEXT NOT NULL,
+        transactionId TEXT,
+        paidAt TEXT,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL
+      );
+      CREATE INDEX idx_payments_bookingId ON payments (bookingId);
+    `
+  },
+  {
+    version: 2,
+    name: 'booking_status_history',
+    up: `
+      CREATE TABLE booking_status_history (
+        id TEXT PRIMARY KEY,
+        bookingId TEXT NOT NULL,
+        fromStatus TEXT,
+        toStatus TEXT NOT NULL,
+        changedBy TEXT NOT NULL,
+        reason TEXT,
+        changedAt TEXT NOT NULL
+      );
+      CREATE INDEX idx_booking_status_history_bookingId ON booking_status_history (bookingId);
+    `
+  },
+  {
+    version: 3,
+    name: 'payment_gateway_references',
+    up: `
+      ALTER TABLE payments ADD COLUMN gateway TEXT;
+      ALTER TABLE payments ADD COLUMN authorizationId TEXT;
+      ALTER TABLE payments ADD COLUMN failureReason TEXT;
+    `
+  },
+  {
+    version: 4,
+    name: 'cancellation_policies_and_refunds',
+    up: `
+      ALTER TABLE bookings ADD COLUMN cancellationPolicy TEXT NOT NULL DEFAULT 'FLEXIBLE';
+
+      CREATE TABLE refunds (
+        id TEXT PRIMARY KEY,
+        paymentId TEXT NOT NULL,
+        bookingId TEXT NOT NULL,
+        amount REAL NOT NULL,
+        status TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        gatewayReference TEXT,
+        failureReason TEXT,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL
+      );
+      CREATE INDEX idx_refunds_paymentId ON refunds (paymentId);
+    `
+  },
+  {
+    version: 5,
+    name: 'payment_descriptions',
+    up: `
+      ALTER TABLE payments ADD COLUMN description TEXT;
+    `
+  },
+  {
+    version: 6,
+    name: 'rate_rules',
+    up: `
+      CREATE TABLE rate_rules (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        type TEXT NOT NULL,
+        adjustmentType TEXT NOT NULL,
+        adjustmentValue REAL NOT NULL,
+        roomTypes TEXT,
+        startDate TEXT,
+        endDate TEXT,
+        daysOfWeek TEXT,
+        minNights INTEGER,
+        minOccupancyPercent REAL,
+        priority INTEGER NOT NULL,
+        isActive INTEGER NOT NULL,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL
+      );
+    `
+  },
+  {
+    version: 7,
+    name: 'booking_line_items',
+    up: `
+      ALTER TABLE bookings ADD COLUMN lineItems TEXT NOT NULL DEFAULT '[]';
+    `
+  },
+  {
+    version: 8,
+    name: 'multi_currency',
+    up: `
+      CREATE TABLE exchange_rates (
+        id TEXT PRIMARY KEY,
+        currency TEXT NOT NULL UNIQUE,
+        rate REAL NOT NULL,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL
+      );
+
+      ALTER TABLE bookings ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD';
+      ALTER TABLE bookings ADD COLUMN exchangeRate REAL NOT NULL DEFAULT 1;
+
+      ALTER TABLE payments ADD COLUMN exchangeRate REAL NOT NULL DEFAULT 1;
+      ALTER TABLE payments ADD COLUMN amountMinor INTEGER NOT NULL DEFAULT 0;
+      UPDATE payments SET amountMinor = CAST(ROUND(amount * 100) AS INTEGER);
+
+      ALTER TABLE refunds ADD COLUMN amountMinor INTEGER NOT NULL DEFAULT 0;
+      UPDATE refunds SET amountMinor = CAST(ROUND(amount * 100) AS INTEGER);
+    `
+  },
+  {
+    version: 9,
+    name: 'promo_codes',
+    up: `
+      CREATE TABLE promo_codes (
+        id TEXT PRIMARY KEY,
+        code TEXT NOT NULL UNIQUE,
+        description TEXT,
+        discountType TEXT NOT NULL,
+        discountValue REAL NOT NULL,
+        roomTypes TEXT,
+        validFrom TEXT,
+        validUntil TEXT,
+        maxRedemptions INTEGER,
+        maxRedemptionsPerGuest INTEGER,
+        isActive INTEGER NOT NULL,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL
+      );
+
+      CREATE TABLE promo_redemptions (
+        id TEXT PRIMARY KEY,
+        promoCodeId TEXT NOT NULL,
+        bookingId TEXT NOT NULL UNIQUE,
+        guestId TEXT NOT NULL,
+        discountAmount REAL NOT NULL,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL
+      );
+
+      CREATE INDEX idx_promo_redemptions_promoCodeId ON promo_redemptions (promoCodeId);
+
+      ALTER TABLE bookings ADD COLUMN promoCode TEXT;
+    `
+  },
+  {
+    version: 10,
+    name: 'booking_holds',
+    up: `
+      ALTER TABLE bookings ADD COLUMN holdExpiresAt TEXT;
+
+      CREATE INDEX idx_bookings_status ON bookings (status);
+    `
+  },
+  {
+    version: 11,
+    name: 'room_type_bookings',
+    // SQLite cannot drop NOT NULL from a column, so the bookings table is rebuilt
+    up: `
+      CREATE TABLE bookings_new (
+        id TEXT PRIMARY KEY,
+        guestId TEXT NOT NULL,
+        roomId TEXT,
+        roomType TEXT NOT NULL,
+        checkInDate TEXT NOT NULL,
+        checkOutDate TEXT NOT NULL,
+        numberOfGuests INTEGER NOT NULL,
+        totalPrice REAL NOT NULL,
+        lineItems TEXT NOT NULL DEFAULT '[]',
+        currency TEXT NOT NULL DEFAULT 'USD',
+        exchangeRate REAL NOT NULL DEFAULT 1,
+        promoCode TEXT,
+        holdExpiresAt TEXT,
+        status TEXT NOT NULL,
+        cancellationPolicy TEXT NOT NULL DEFAULT 'FLEXIBLE',
+        specialRequests TEXT,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL
+      );
+
+      INSERT INTO bookings_new (
+        id, guestId, roomId, roomType, checkInDate, checkOutDate, numberOfGuests, totalPrice, lineItems,
+        currency, exchangeRate, promoCode, holdExpiresAt, status, cancellationPolicy, specialRequests,
+        createdAt, updatedAt
+      )
+      SELECT
+        b.id, b.guestId, b.roomId, COALESCE(r.type, 'SINGLE'), b.checkInDate, b.checkOutDate, b.numberOfGuests,
+        b.totalPrice, b.lineItems, b.currency, b.exchangeRate, b.promoCode, b.holdExpiresAt, b.status,
+        b.cancellationPolicy, b.specialRequests, b.createdAt, b.updatedAt
+      FROM bookings b
+      -- Bookings whose room has since been deleted get a placeholder type
+      LEFT JOIN rooms r ON r.id = b.roomId;
+
+      DROP TABLE bookings;
+      ALTER TABLE bookings_new RENAME TO bookings;
+
+      CREATE INDEX idx_bookings_guestId ON bookings (guestId);
+      CREATE INDEX idx_bookings_roomId ON bookings (roomId);
+      CREATE INDEX idx_bookings_roomType ON bookings (roomType);
+      CREATE INDEX idx_bookings_status ON bookings (status);
+    `
+  },
+  {
+    version: 12,
+    name: 'room_auto_assignment',
+    up: `
+      ALTER TABLE bookings ADD COLUMN roomAutoAssigned INTEGER;
+    `
+  },
+  {
+    version: 13,
+    name: 'group_bookings',
+    up: `
+      CREATE TABLE booking_groups (
+        id TEXT PRIMARY KEY,
+        organizerId TEXT NOT NULL,
+        name TEXT NOT NULL,
+        paymentMode TEXT NOT NULL,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL
+      );
+
+      ALTER TABLE bookings ADD COLUMN groupId TEXT;
+      ALTER TABLE bookings ADD COLUMN occupantName TEXT;
+
+      CREATE INDEX idx_bookings_groupId ON bookings (groupId);
+    `
+  },
+  {
+    version: 14,
+    name: 'waitlist',
+    up: `
+      CREATE TABLE waitlist_entries (
+        id TEXT PRIMARY KEY,
+        guestId TEXT NOT NULL,
+        roomType TEXT NOT NULL,
+        checkInDate TEXT NOT NULL,
+        checkOutDate TEXT NOT NULL,
+        numberOfGuests INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        bookingId TEXT,
+        offerExpiresAt TEXT,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL
+      );
+
+      CREATE INDEX idx_waitlist_entries_guestId ON waitlist_entries (guestId);
+      CREATE INDEX idx_waitlist_entries_bookingId ON waitlist_entries (bookingId);
+    `
+  },
+  {
+    version: 15,
+    name: 'maintenance_blocks',
+    up: `
+      CREATE TABLE maintenance_blocks (
+        id TEXT PRIMARY KEY,
+        roomId TEXT NOT NULL,
+        startDate TEXT NOT NULL,
+        endDate TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        createdBy TEXT NOT NULL,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL
+      );
+
+      CREATE INDEX idx_maintenance_blocks_roomId ON maintenance_blocks (roomId);
+    `
+  },
+  {
+    version: 16,
+    name: 'housekeeping',
+    up: `
+      ALTER TABLE rooms ADD COLUMN housekeepingStatus TEXT NOT NULL DEFAULT 'CLEAN';
+
+      CREATE TABLE housekeeping_tasks (
+        id TEXT PRIMARY KEY,
+        roomId TEXT NOT NULL,
+        bookingId TEXT,
+        status TEXT NOT NULL,
+        assignedTo TEXT,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL,
+        completedAt TEXT
+      );
+
+      CREATE INDEX idx_housekeeping_tasks_roomId ON housekeeping_tasks (roomId);
+    `
+  },
+  {
+    version: 17,
+    name: 'folio_entries',
+    up: `
+      CREATE TABLE folio_entries (
+        id TEXT PRIMARY KEY,
+        bookingId TEXT NOT NULL,
+        type TEXT NOT NULL,
+        description TEXT NOT NULL,
+        amount REAL NOT NULL,
+        postedBy TEXT NOT NULL,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL
+      );
+
+      CREATE INDEX idx_folio_entries_bookingId ON folio_entries (bookingId);
+    `
+  },
+  {
+    version: 18,
+    name: 'invoices',
+    up: `
+      CREATE TABLE invoices (
+        id TEXT PRIMARY KEY,
+        bookingId TEXT NOT NULL UNIQUE,
+        sequence INTEGER NOT NULL UNIQUE,
+        number TEXT NOT NULL UNIQUE,
+        issuedAt TEXT NOT NULL,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL
+      );
+    `
+  },
+  {
+    version: 19,
+    name: 'stay_extensions',
+    up: `
+      ALTER TABLE bookings ADD COLUMN earlyCheckIn TEXT;
+      ALTER TABLE bookings ADD COLUMN lateCheckOut TEXT;
+    `
+  },
+  {
+    version: 20,
+    name: 'email_campaigns',
+    up: `
+      ALTER TABLE users ADD COLUMN emailOptOuts TEXT;
+
+      CREATE TABLE campaign_emails (
+        id TEXT PRIMARY KEY,
+        campaign TEXT NOT NULL,
+        bookingId TEXT NOT NULL,
+        guestId TEXT NOT NULL,
+        sentAt TEXT NOT NULL,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL,
+        UNIQUE (campaign, bookingId)
+      );
+    `
+  }
+];
+
+// Apply every migration newer than the recorded schema version, each in its own transaction
+export const runMigrations = (connection: BetterSqlite3.Database): void => {
+  connection.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      appliedAt TEXT NOT NULL
+    )
+  `);
+
+  const row = connection
+    .prepare('SELECT MAX(version) AS version FROM schema_migrations')
+    .get() as { version: number | null };
+  const currentVersion = row.version ?? 0;
+
+  const record = connection.prepare(
+    'INSERT INTO schema_migrations (version, name, appliedAt) VALUES (?, ?, ?)'
+  );
+
+  migrations
+    .filter(migration => migration.version > currentVersion)
+    .sort((a, b) => a.version - b.version)
+    .forEach(migration => {
+      connection.transaction(() => {
+        connection.exec(migration.up);
+        record.run(migration.version, migration.name, new Date().toISOString());
+      })();
+      console.log(`Applied database migration ${migration.version}: ${migration.name}`);
+    });
+};
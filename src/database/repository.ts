@@ -0,0 +1,136 @@
+// database/repository.ts
+
+import {
+  User,
+  Room,
+  Booking,
+  BookingStatusChange,
+  Payment,
+  Refund,
+  RateRule,
+  ExchangeRate,
+  PromoCode,
+  PromoRedemption,
+  BookingGroup,
+  WaitlistEntry,
+  MaintenanceBlock,
+  HousekeepingTask,
+  FolioEntry,
+  Invoice,
+  CampaignEmail
+} from '../types';
+
+// Storage contract shared by every database backend
+export interface HotelRepository {
+  // Run several writes atomically; nothing fn wrote is kept if it throws
+  transaction<T>(fn: () => T): T;
+
+  // User operations
+  getAllUsers(): User[];
+  getUserById(id: string): User | undefined;
+  getUserByEmail(email: string): User | undefined;
+  createUser(user: User): User;
+  updateUser(id: string, updates: Partial<User>): User | undefined;
+  deleteUser(id: string): boolean;
+
+  // Room operations
+  getAllRooms(): Room[];
+  getRoomById(id: string): Room | undefined;
+  createRoom(room: Room): Room;
+  updateRoom(id: string, updates: Partial<Room>): Room | undefined;
+  deleteRoom(id: string): boolean;
+
+  // Booking operations
+  getAllBookings(): Booking[];
+  getBookingById(id: string): Booking | undefined;
+  getBookingsByGuestId(guestId: string): Booking[];
+  getBookingsByRoomId(roomId: string): Booking[];
+  getBookingsByGroupId(groupId: string): Booking[];
+  createBooking(booking: Booking): Booking;
+  updateBooking(id: string, updates: Partial<Booking>): Booking | undefined;
+  deleteBooking(id: string): boolean;
+
+  // Booking status history operations
+  getBookingHistory(bookingId: string): BookingStatusChange[];
+  createBookingStatusChange(change: BookingStatusChange): BookingStatusChange;
+
+  // Payment operations
+  getAllPayments(): Payment[];
+  getPaymentById(id: string): Payment | undefined;
+  getPaymentByBookingId(bookingId: string): Payment | undefined;
+  getPaymentsByBookingId(bookingId: string): Payment[];
+  createPayment(payment: Payment): Payment;
+  updatePayment(id: string, updates: Partial<Payment>): Payment | undefined;
+
+  // Refund operations
+  getRefundsByPaymentId(paymentId: string): Refund[];
+  createRefund(refund: Refund): Refund;
+
+  // Rate rule operations
+  getAllRateRules(): RateRule[];
+  getRateRuleById(id: string): RateRule | undefined;
+  createRateRule(rule: RateRule): RateRule;
+  updateRateRule(id: string, updates: Partial<RateRule>): RateRule | undefined;
+  deleteRateRule(id: string): boolean;
+
+  // Exchange rate operations
+  getAllExchangeRates(): ExchangeRate[];
+  getExchangeRateByCurrency(currency: string): ExchangeRate | undefined;
+  createExchangeRate(rate: ExchangeRate): ExchangeRate;
+  updateExchangeRate(id: string, updates: Partial<ExchangeRate>): ExchangeRate | undefined;
+  deleteExchangeRate(id: string): boolean;
+
+  // Promo code operations
+  getAllPromoCodes(): PromoCode[];
+  getPromoCodeById(id: string): PromoCode | undefined;
+  getPromoCodeByCode(code: string): PromoCode | undefined;
+  createPromoCode(promoCode: PromoCode): PromoCode;
+  updatePromoCode(id: string, updates: Partial<PromoCode>): PromoCode | undefined;
+  deletePromoCode(id: string): boolean;
+
+  // Promo redemption operations
+  getPromoRedemptionsByPromoCodeId(promoCodeId: string): PromoRedemption[];
+  getPromoRedemptionByBookingId(bookingId: string): PromoRedemption | undefined;
+  createPromoRedemption(redemption: PromoRedemption): PromoRedemption;
+  updatePromoRedemption(id: string, updates: Partial<PromoRedemption>): PromoRedemption | undefined;
+
+  // Booking group operations
+  getBookingGroupById(id: string): BookingGroup | undefined;
+  createBookingGroup(group: BookingGroup): BookingGroup;
+
+  // Waitlist operations
+  getAllWaitlistEntries(): WaitlistEntry[];
+  getWaitlistEntryById(id: string): WaitlistEntry | undefined;
+  getWaitlistEntriesByGuestId(guestId: string): WaitlistEntry[];
+  getWaitlistEntryByBookingId(bookingId: string): WaitlistEntry | undefined;
+  createWaitlistEntry(entry: WaitlistEntry): WaitlistEntry;
+  updateWaitlistEntry(id: string, updates: Partial<WaitlistEntry>): WaitlistEntry | undefined;
+
+  // Maintenance block operations
+  getAllMaintenanceBlocks(): MaintenanceBlock[];
+  getMaintenanceBlockById(id: string): MaintenanceBlock | undefined;
+  getMaintenanceBlocksByRoomId(roomId: string): MaintenanceBlock[];
+  createMaintenanceBlock(block: MaintenanceBlock): MaintenanceBlock;
+  deleteMaintenanceBlock(id: string): boolean;
+
+  // Housekeeping task operations
+  getAllHousekeepingTasks(): HousekeepingTask[];
+  getHousekeepingTaskById(id: string): HousekeepingTask | undefined;
+  getHousekeepingTasksByRoomId(roomId: string): HousekeepingTask[];
+  createHousekeepingTask(task: HousekeepingTask): HousekeepingTask;
+  updateHousekeepingTask(id: string, updates: Partial<HousekeepingTask>): HousekeepingTask | undefined;
+
+  // Folio operations
+  getFolioEntriesByBookingId(bookingId: string): FolioEntry[];
+  createFolioEntry(entry: FolioEntry): FolioEntry;
+
+  // Invoice operations
+  getAllInvoices(): Invoice[];
+  getInvoiceByBookingId(bookingId: string): Invoice | undefined;
+  createInvoice(invoice: Invoice): Invoice;
+
+  // Campaign email operations
+  getCampaignEmailsByBookingId(bookingId: string): CampaignEmail[];
+  createCampaignEmail(email: CampaignEmail): CampaignEmail;
+  deleteCampaignEmail(id: string): boolean;
+}
@@ -0,0 +1,56 @@
+// database/roomTypeIndex.test.ts
+
+import { HousekeepingStatus, Room, RoomType } from '../types';
+import { InMemoryRepository } from './memoryRepository';
+import { indexRoomWrites, RoomTypeIndex } from './roomTypeIndex';
+
+const room = (id: string, type: RoomType): Room => ({
+  id,
+  roomNumber: id,
+  type,
+  description: 'Test room',
+  pricePerNight: 100,
+  capacity: 2,
+  amenities: [],
+  floor: 1,
+  isAvailable: true,
+  housekeepingStatus: HousekeepingStatus.CLEAN,
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+const ids = (rooms: readonly Room[]) => rooms.map(({ id }) => id).sort();
+
+describe('indexRoomWrites', () => {
+  it('keeps rooms grouped by type as rooms are created, changed and deleted', () => {
+    const index = new RoomTypeIndex();
+    const repository = indexRoomWrites(new InMemoryRepository(), index);
+
+    repository.createRoom(room('a', RoomType.SINGLE));
+    repository.createRoom(room('b', RoomType.SINGLE));
+    repository.createRoom(room('c', RoomType.SUITE));
+    expect(ids(index.getRooms(RoomType.SINGLE))).toEqual(['a', 'b']);
+
+    repository.updateRoom('b', { type: RoomType.SUITE });
+    expect(ids(index.getRooms(RoomType.SINGLE))).toEqual(['a']);
+    expect(ids(index.getRooms(RoomType.SUITE))).toEqual(['b', 'c']);
+
+    repository.deleteRoom('c');
+    expect(ids(index.getRooms(RoomType.SUITE))).toEqual(['b']);
+    expect(index.getRooms(RoomType.DELUXE)).toEqual([]);
+  });
+
+  it('regroups from storage when a transaction throws', () => {
+    const index = new RoomTypeIndex();
+    const repository = indexRoomWrites(new InMemoryRepository(), index);
+    repository.createRoom(room('a', RoomType.SINGLE));
+
+    // Simulate a write that reached storage without passing through the index
+    index.rebuild([]);
+    expect(() => repository.transaction(() => {
+      throw new Error('rolled back');
+    })).toThrow('rolled back');
+
+    expect(ids(index.getRooms(RoomType.SINGLE))).toEqual(['a']);
+  });
+});
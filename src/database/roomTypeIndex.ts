@@ -0,0 +1,66 @@
+// database/roomTypeIndex.ts
+
+import { Room, RoomType } from '../types';
+import { HotelRepository } from './repository';
+
+// Rooms grouped by type, so inventory checks do not list and filter every room on each call.
+// Rooms change rarely, so every room write regroups them all.
+export class RoomTypeIndex {
+  private byType = new Map<RoomType, Room[]>();
+
+  rebuild(rooms: Room[]): void {
+    this.byType.clear();
+    rooms.forEach(room => {
+      if (!this.byType.has(room.type)) {
+        this.byType.set(room.type, []);
+      }
+      this.byType.get(room.type)!.push(room);
+    });
+  }
+
+  getRooms(roomType: RoomType): readonly Room[] {
+    return this.byType.get(roomType) || [];
+  }
+}
+
+/**
+ * Keep an index in step with every room written through a repository. A transaction that
+ * throws may have been rolled back, so the index is rebuilt from storage before rethrowing.
+ */
+export const indexRoomWrites = (repository: HotelRepository, index: RoomTypeIndex): HotelRepository => {
+  const transaction = repository.transaction.bind(repository);
+  const createRoom = repository.createRoom.bind(repository);
+  const updateRoom = repository.updateRoom.bind(repository);
+  const deleteRoom = repository.deleteRoom.bind(repository);
+  const refresh = () => index.rebuild(repository.getAllRooms());
+
+  repository.transaction = <T>(fn: () => T): T => {
+    try {
+      return transaction(fn);
+    } catch (error) {
+      refresh();
+      throw error;
+    }
+  };
+
+  repository.createRoom = (room: Room): Room => {
+    const created = createRoom(room);
+    refresh();
+    return created;
+  };
+
+  repository.updateRoom = (id: string, updates: Partial<Room>): Room | undefined => {
+    const updated = updateRoom(id, updates);
+    refresh();
+    return updated;
+  };
+
+  repository.deleteRoom = (id: string): boolean => {
+    const deleted = deleteRoom(id);
+    refresh();
+    return deleted;
+  };
+
+  refresh();
+  return repository;
+};
@@ -0,0 +1,90 @@
+// database/seed.ts
+
+import bcrypt from 'bcryptjs';
+import { HousekeepingStatus, RoomType, UserRole } from '../types';
+import { HotelRepository } from './repository';
+
+const getAmenitiesForRoomType = (type: RoomType): string[] => {
+  const baseAmenities = ['WiFi', 'TV', 'Air Conditioning', 'Mini Bar'];
+
+  switch (type) {
+    case RoomType.SINGLE:
+      return [...baseAmenities];
+    case RoomType.DOUBLE:
+      return [...baseAmenities, 'Coffee Maker', 'Safe'];
+    case RoomType.SUITE:
+      return [...baseAmenities, 'Coffee Maker', 'Safe', 'Living Area', 'Kitchenette'];
+    case RoomType.DELUXE:
+      return [...baseAmenities, 'Coffee Maker', 'Safe', 'Living Area', 'Kitchenette', 'Balcony', 'Premium Bedding'];
+    case RoomType.PRESIDENTIAL:
+      return [...baseAmenities, 'Coffee Maker', 'Safe', 'Living Area', 'Full Kitchen', 'Balcony', 'Premium Bedding', 'Jacuzzi', 'Butler Service'];
+    default:
+      return baseAmenities;
+  }
+};
+
+// Seed default users and rooms; persistent stores are only seeded once
+export const seedDatabase = async (repository: HotelRepository): Promise<void> => {
+  if (repository.getUserById('admin-1')) {
+    return;
+  }
+
+  // Create default admin user
+  const adminPassword = await bcrypt.hash('admin123', 10);
+  repository.createUser({
+    id: 'admin-1',
+    email: 'admin@hotel.com',
+    password: adminPassword,
+    role: UserRole.ADMIN,
+    firstName: 'Admin',
+    lastName: 'User',
+    phone: '+1234567890',
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+
+  // Create staff user
+  const staffPassword = await bcrypt.hash('staff123', 10);
+  repository.createUser({
+    id: 'staff-1',
+    email: 'staff@hotel.com',
+    password: staffPassword,
+    role: UserRole.STAFF,
+    firstName: 'Staff',
+    lastName: 'Member',
+    phone: '+1234567891',
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+
+  // Create sample rooms
+  const roomsData = [
+    { number: '101', type: RoomType.SINGLE, price: 100, capacity: 1, floor: 1 },
+    { number: '102', type: RoomType.SINGLE, price: 100, capacity: 1, floor: 1 },
+    { number: '201', type: RoomType.DOUBLE, price: 150, capacity: 2, floor: 2 },
+    { number: '202', type: RoomType.DOUBLE, price: 150, capacity: 2, floor: 2 },
+    { number: '203', type: RoomType.DOUBLE, price: 150, capacity: 2, floor: 2 },
+    { number: '301', type: RoomType.SUITE, price: 300, capacity: 4, floor: 3 },
+    { number: '302', type: RoomType.SUITE, price: 300, capacity: 4, floor: 3 },
+    { number: '401', type: RoomType.DELUXE, price: 450, capacity: 3, floor: 4 },
+    { number: '501', type: RoomType.PRESIDENTIAL, price: 1000, capacity: 6, floor: 5 }
+  ];
+
+  roomsData.forEach((room, index) => {
+    const roomId = `room-${index + 1}`;
+    repository.createRoom({
+      id: roomId,
+      roomNumber: room.number,
+      type: room.type,
+      description: `Beautiful ${room.type.toLowerCase()} room with modern amenities`,
+      pricePerNight: room.price,
+      capacity: room.capacity,
+      amenities: getAmenitiesForRoomType(room.type),
+      floor: room.floor,
+      isAvailable: true,
+      housekeepingStatus: HousekeepingStatus.CLEAN,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+  });
+};
@@ -0,0 +1,755 @@
+// database/sqliteRepository.ts
+
+import fs from 'fs';
+import path from 'path';
+import BetterSqlite3 from 'better-sqlite3';
+import {
+  User,
+  Room,
+  Booking,
+  BookingStatusChange,
+  Payment,
+  Refund,
+  RateRule,
+  ExchangeRate,
+  PromoCode,
+  PromoRedemption,
+  BookingGroup,
+  WaitlistEntry,
+  MaintenanceBlock,
+  HousekeepingTask,
+  FolioEntry,
+  Invoice,
+  CampaignEmail
+} from '../types';
+import { HotelRepository } from './repository';
+import { runMigrations } from './migrations';
+
+type ColumnType = 'text' | 'number' | 'boolean' | 'date' | 'json';
+
+// Every property of an entity must be mapped to a column so that schema drift fails to compile
+type ColumnSpec<T> = { [K in keyof T]-?: ColumnType };
+
+type Row = Record<string, string | number | null>;
+
+const toColumnValue = (type: ColumnType, value: unknown): string | number | null => {
+  if (value === undefined || value === null) {
+    return null;
+  }
+
+  switch (type) {
+    case 'boolean':
+      return value ? 1 : 0;
+    case 'date':
+      return new Date(value as Date | string).toISOString();
+    case 'json':
+      return JSON.stringify(value);
+    default:
+      return value as string | number;
+  }
+};
+
+const fromColumnValue = (type: ColumnType, value: string | number): unknown => {
+  switch (type) {
+    case 'boolean':
+      return value === 1;
+    case 'date':
+      return new Date(value as string);
+    case 'json':
+      return JSON.parse(value as string);
+    default:
+      return value;
+  }
+};
+
+// Thin typed wrapper around one table whose column names match the entity's property names
+class SqliteTable<T extends { id: string }> {
+  private readonly columnNames: string[];
+  private readonly selectAll: BetterSqlite3.Statement;
+  private readonly selectById: BetterSqlite3.Statement;
+  private readonly insertRow: BetterSqlite3.Statement;
+  private readonly updateRow: BetterSqlite3.Statement;
+  private readonly deleteRow: BetterSqlite3.Statement;
+
+  constructor(
+    private readonly connection: BetterSqlite3.Database,
+    private readonly table: string,
+    private readonly columns: ColumnSpec<T>
+  ) {
+    this.columnNames = Object.keys(columns);
+
+    const quoted = this.columnNames.map(name => `"${name}"`);
+    const params = this.columnNames.map(name => `@${name}`);
+    const assignments = this.columnNames
+      .filter(name => name !== 'id')
+      .map(name => `"${name}" = @${name}`);
+
+    this.selectAll = connection.prepare(`SELECT * FROM ${table}`);
+    this.selectById = connection.prepare(`SELECT * FROM ${table} WHERE id = ?`);
+    this.insertRow = connection.prepare(
+      `INSERT INTO ${table} (${quoted.join(', ')}) VALUES (${params.join(', ')})`
+    );
+    this.updateRow = connection.prepare(
+      `UPDATE ${table} SET ${assignments.join(', ')} WHERE id = @id`
+    );
+    this.deleteRow = connection.prepare(`DELETE FROM ${table} WHERE id = ?`);
+  }
+
+  all(): T[] {
+    return (this.selectAll.all() as Row[]).map(row => this.fromRow(row));
+  }
+
+  get(id: string): T | undefined {
+    const row = this.selectById.get(id) as Row | undefined;
+    return row ? this.fromRow(row) : undefined;
+  }
+
+  findBy<K extends keyof T & string>(column: K, value: string): T[] {
+    return (this.connection
+      .prepare(`SELECT * FROM ${this.table} WHERE "${column}" = ?`)
+      .all(value) as Row[]).map(row => this.fromRow(row));
+  }
+
+  insert(entity: T): T {
+    this.insertRow.run(this.toRow(entity));
+    return entity;
+  }
+
+  update(id: string, updates: Partial<T>): T | undefined {
+    const existing = this.get(id);
+    if (!existing) return undefined;
+
+    const updated = { ...existing, ...updates, id } as T;
+    this.updateRow.run(this.toRow(updated));
+    return updated;
+  }
+
+  delete(id: string): boolean {
+    return this.deleteRow.run(id).changes > 0;
+  }
+
+  private toRow(entity: T): Row {
+    const row: Row = {};
+    for (const name of this.columnNames) {
+      const type = this.columns[name as keyof T];
+      row[name] = toColumnValue(type, entity[name as keyof T]);
+    }
+    return row;
+  }
+
+  private fromRow(row: Row): T {
+    const entity: Record<string, unknown> = {};
+    for (const name of this.columnNames) {
+      const value = row[name];
+      if (value !== null && value !== undefined) {
+        entity[name] = fromColumnValue(this.columns[name as keyof T], value);
+      }
+    }
+    return entity as T;
+  }
+}
+
+const userColumns: ColumnSpec<User> = {
+  id: 'text',
+  email: 'text',
+  password: 'text',
+  role: 'text',
+  firstName: 'text',
+  lastName: 'text',
+  phone: 'text',
+  emailOptOuts: 'json',
+  createdAt: 'date',
+  updatedAt: 'date'
+};
+
+const roomColumns: ColumnSpec<Room> = {
+  id: 'text',
+  roomNumber: 'text',
+  type: 'text',
+  description: 'text',
+  pricePerNight: 'number',
+  capacity: 'number',
+  amenities: 'json',
+  floor: 'number',
+  isAvailable: 'boolean',
+  housekeepingStatus: 'text',
+  images: 'json',
+  createdAt: 'date',
+  updatedAt: 'date'
+};
+
+const bookingColumns: ColumnSpec<Booking> = {
+  id: 'text',
+  guestId: 'text',
+  groupId: 'text',
+  occupantName: 'text',
+  roomId: 'text',
+  roomType: 'text',
+  roomAutoAssigned: 'boolean',
+  checkInDate: 'date',
+  checkOutDate: 'date',
+  numberOfGuests: 'number',
+  totalPrice: 'number',
+  lineItems: 'json',
+  currency: 'text',
+  exchangeRate: 'number',
+  promoCode: 'text',
+  holdExpiresAt: 'date',
+  status: 'text',
+  cancellationPolicy: 'text',
+  specialRequests: 'text',
+  earlyCheckIn: 'text',
+  lateCheckOut: 'text',
+  createdAt: 'date',
+  updatedAt: 'date'
+};
+
+const bookingStatusChangeColumns: ColumnSpec<BookingStatusChange> = {
+  id: 'text',
+  bookingId: 'text',
+  fromStatus: 'text',
+  toStatus: 'text',
+  changedBy: 'text',
+  reason: 'text',
+  changedAt: 'date'
+};
+
+const paymentColumns: ColumnSpec<Payment> = {
+  id: 'text',
+  bookingId: 'text',
+  amount: 'number',
+  currency: 'text',
+  exchangeRate: 'number',
+  amountMinor: 'number',
+  status: 'text',
+  paymentMethod: 'text',
+  gateway: 'text',
+  authorizationId: 'text',
+  transactionId: 'text',
+  failureReason: 'text',
+  description: 'text',
+  paidAt: 'date',
+  createdAt: 'date',
+  updatedAt: 'date'
+};
+
+const refundColumns: ColumnSpec<Refund> = {
+  id: 'text',
+  paymentId: 'text',
+  bookingId: 'text',
+  amount: 'number',
+  amountMinor: 'number',
+  status: 'text',
+  reason: 'text',
+  gatewayReference: 'text',
+  failureReason: 'text',
+  createdAt: 'date',
+  updatedAt: 'date'
+};
+
+const rateRuleColumns: ColumnSpec<RateRule> = {
+  id: 'text',
+  name: 'text',
+  type: 'text',
+  adjustmentType: 'text',
+  adjustmentValue: 'number',
+  roomTypes: 'json',
+  startDate: 'date',
+  endDate: 'date',
+  daysOfWeek: 'json',
+  minNights: 'number',
+  minOccupancyPercent: 'number',
+  priority: 'number',
+  isActive: 'boolean',
+  createdAt: 'date',
+  updatedAt: 'date'
+};
+
+const exchangeRateColumns: ColumnSpec<ExchangeRate> = {
+  id: 'text',
+  currency: 'text',
+  rate: 'number',
+  createdAt: 'date',
+  updatedAt: 'date'
+};
+
+const promoCodeColumns: ColumnSpec<PromoCode> = {
+  id: 'text',
+  code: 'text',
+  description: 'text',
+  discountType: 'text',
+  discountValue: 'number',
+  roomTypes: 'json',
+  validFrom: 'date',
+  validUntil: 'date',
+  maxRedemptions: 'number',
+  maxRedemptionsPerGuest: 'number',
+  isActive: 'boolean',
+  createdAt: 'date',
+  updatedAt: 'date'
+};
+
+const promoRedemptionColumns: ColumnSpec<PromoRedemption> = {
+  id: 'text',
+  promoCodeId: 'text',
+  bookingId: 'text',
+  guestId: 'text',
+  discountAmount: 'number',
+  createdAt: 'date',
+  updatedAt: 'date'
+};
+
+const bookingGroupColumns: ColumnSpec<BookingGroup> = {
+  id: 'text',
+  organizerId: 'text',
+  name: 'text',
+  paymentMode: 'text',
+  createdAt: 'date',
+  updatedAt: 'date'
+};
+
+const waitlistEntryColumns: ColumnSpec<WaitlistEntry> = {
+  id: 'text',
+  guestId: 'text',
+  roomType: 'text',
+  checkInDate: 'date',
+  checkOutDate: 'date',
+  numberOfGuests: 'number',
+  status: 'text',
+  bookingId: 'text',
+  offerExpiresAt: 'date',
+  createdAt: 'date',
+  updatedAt: 'date'
+};
+
+const maintenanceBlockColumns: ColumnSpec<MaintenanceBlock> = {
+  id: 'text',
+  roomId: 'text',
+  startDate: 'date',
+  endDate: 'date',
+  reason: 'text',
+  createdBy: 'text',
+  createdAt: 'date',
+  updatedAt: 'date'
+};
+
+const housekeepingTaskColumns: ColumnSpec<HousekeepingTask> = {
+  id: 'text',
+  roomId: 'text',
+  bookingId: 'text',
+  status: 'text',
+  assignedTo: 'text',
+  createdAt: 'date',
+  updatedAt: 'date',
+  completedAt: 'date'
+};
+
+const folioEntryColumns: ColumnSpec<FolioEntry> = {
+  id: 'text',
+  bookingId: 'text',
+  type: 'text',
+  description: 'text',
+  amount: 'number',
+  postedBy: 'text',
+  createdAt: 'date',
+  updatedAt: 'date'
+};
+
+const invoiceColumns: ColumnSpec<Invoice> = {
+  id: 'text',
+  bookingId: 'text',
+  sequence: 'number',
+  number: 'text',
+  issuedAt: 'date',
+  createdAt: 'date',
+  updatedAt: 'date'
+};
+
+const campaignEmailColumns: ColumnSpec<CampaignEmail> = {
+  id: 'text',
+  campaign: 'text',
+  bookingId: 'text',
+  guestId: 'text',
+  sentAt: 'date',
+  createdAt: 'date',
+  updatedAt: 'date'
+};
+
+// SQLite-backed store; data survives restarts and the schema is migrated on startup
+export class SqliteRepository implements HotelRepository {
+  private connection: BetterSqlite3.Database;
+  private users: SqliteTable<User>;
+  private rooms: SqliteTable<Room>;
+  private bookings: SqliteTable<Booking>;
+  private payments: SqliteTable<Payment>;
+  private bookingHistory: SqliteTable<BookingStatusChange>;
+  private refunds: SqliteTable<Refund>;
+  private rateRules: SqliteTable<RateRule>;
+  private exchangeRates: SqliteTable<ExchangeRate>;
+  private promoCodes: SqliteTable<PromoCode>;
+  private promoRedemptions: SqliteTable<PromoRedemption>;
+  private bookingGroups: SqliteTable<BookingGroup>;
+  private waitlistEntries: SqliteTable<WaitlistEntry>;
+  private maintenanceBlocks: SqliteTable<MaintenanceBlock>;
+  private housekeepingTasks: SqliteTable<HousekeepingTask>;
+  private folioEntries: SqliteTable<FolioEntry>;
+  private invoices: SqliteTable<Invoice>;
+  private campaignEmails: SqliteTable<CampaignEmail>;
+
+  constructor(filename: string) {
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+
+    this.connection = new BetterSqlite3(filename);
+    this.connection.pragma('journal_mode = WAL');
+    runMigrations(this.connection);
+
+    this.users = new SqliteTable(this.connection, 'users', userColumns);
+    this.rooms = new SqliteTable(this.connection, 'rooms', roomColumns);
+    this.bookings = new SqliteTable(this.connection, 'bookings', bookingColumns);
+    this.payments = new SqliteTable(this.connection, 'payments', paymentColumns);
+    this.bookingHistory = new SqliteTable(this.connection, 'booking_status_history', bookingStatusChangeColumns);
+    this.refunds = new SqliteTable(this.connection, 'refunds', refundColumns);
+    this.rateRules = new SqliteTable(this.connection, 'rate_rules', rateRuleColumns);
+    this.exchangeRates = new SqliteTable(this.connection, 'exchange_rates', exchangeRateColumns);
+    this.promoCodes = new SqliteTable(this.connection, 'promo_codes', promoCodeColumns);
+    this.promoRedemptions = new SqliteTable(this.connection, 'promo_redemptions', promoRedemptionColumns);
+    this.bookingGroups = new SqliteTable(this.connection, 'booking_groups', bookingGroupColumns);
+    this.waitlistEntries = new SqliteTable(this.connection, 'waitlist_entries', waitlistEntryColumns);
+    this.maintenanceBlocks = new SqliteTable(this.connection, 'maintenance_blocks', maintenanceBlockColumns);
+    this.housekeepingTasks = new SqliteTable(this.connection, 'housekeeping_tasks', housekeepingTaskColumns);
+    this.folioEntries = new SqliteTable(this.connection, 'folio_entries', folioEntryColumns);
+    this.invoices = new SqliteTable(this.connection, 'invoices', invoiceColumns);
+    this.campaignEmails = new SqliteTable(this.connection, 'campaign_emails', campaignEmailColumns);
+  }
+
+  transaction<T>(fn: () => T): T {
+    return this.connection.transaction(fn)();
+  }
+
+  close(): void {
+    this.connection.close();
+  }
+
+  // User operations
+  getAllUsers(): User[] {
+    return this.users.all();
+  }
+
+  getUserById(id: string): User | undefined {
+    return this.users.get(id);
+  }
+
+  getUserByEmail(email: string): User | undefined {
+    return this.users.findBy('email', email)[0];
+  }
+
+  createUser(user: User): User {
+    return this.users.insert(user);
+  }
+
+  updateUser(id: string, updates: Partial<User>): User | undefined {
+    return this.users.update(id, { ...updates, updatedAt: new Date() });
+  }
+
+  deleteUser(id: string): boolean {
+    return this.users.delete(id);
+  }
+
+  // Room operations
+  getAllRooms(): Room[] {
+    return this.rooms.all();
+  }
+
+  getRoomById(id: string): Room | undefined {
+    return this.rooms.get(id);
+  }
+
+  createRoom(room: Room): Room {
+    return this.rooms.insert(room);
+  }
+
+  updateRoom(id: string, updates: Partial<Room>): Room | undefined {
+    return this.rooms.update(id, { ...updates, updatedAt: new Date() });
+  }
+
+  deleteRoom(id: string): boolean {
+    return this.rooms.delete(id);
+  }
+
+  // Booking operations
+  getAllBookings(): Booking[] {
+    return this.bookings.all();
+  }
+
+  getBookingById(id: string): Booking | undefined {
+    return this.bookings.get(id);
+  }
+
+  getBookingsByGuestId(guestId: string): Booking[] {
+    return this.bookings.findBy('guestId', guestId);
+  }
+
+  getBookingsByRoomId(roomId: string): Booking[] {
+    return this.bookings.findBy('roomId', roomId);
+  }
+
+  getBookingsByGroupId(groupId: string): Booking[] {
+    return this.bookings.findBy('groupId', groupId);
+  }
+
+  createBooking(booking: Booking): Booking {
+    return this.bookings.insert(booking);
+  }
+
+  updateBooking(id: string, updates: Partial<Booking>): Booking | undefined {
+    return this.bookings.update(id, { ...updates, updatedAt: new Date() });
+  }
+
+  deleteBooking(id: string): boolean {
+    return this.bookings.delete(id);
+  }
+
+  // Booking status history operations
+  getBookingHistory(bookingId: string): BookingStatusChange[] {
+    return this.bookingHistory
+      .findBy('bookingId', bookingId)
+      .sort((a, b) => a.changedAt.getTime() - b.changedAt.getTime());
+  }
+
+  createBookingStatusChange(change: BookingStatusChange): BookingStatusChange {
+    return this.bookingHistory.insert(change);
+  }
+
+  // Payment operations
+  getAllPayments(): Payment[] {
+    return this.payments.all();
+  }
+
+  getPaymentById(id: string): Payment | undefined {
+    return this.payments.get(id);
+  }
+
+  getPaymentByBookingId(bookingId: string): Payment | undefined {
+    return this.payments.findBy('bookingId', bookingId)[0];
+  }
+
+  getPaymentsByBookingId(bookingId: string): Payment[] {
+    return this.payments
+      .findBy('bookingId', bookingId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  createPayment(payment: Payment): Payment {
+    return this.payments.insert(payment);
+  }
+
+  updatePayment(id: string, updates: Partial<Payment>): Payment | undefined {
+    return this.payments.update(id, { ...updates, updatedAt: new Date() });
+  }
+
+  // Refund operations
+  getRefundsByPaymentId(paymentId: string): Refund[] {
+    return this.refunds.findBy('paymentId', paymentId);
+  }
+
+  createRefund(refund: Refund): Refund {
+    return this.refunds.insert(refund);
+  }
+
+  // Rate rule operations
+  getAllRateRules(): RateRule[] {
+    return this.rateRules.all();
+  }
+
+  getRateRuleById(id: string): RateRule | undefined {
+    return this.rateRules.get(id);
+  }
+
+  createRateRule(rule: RateRule): RateRule {
+    return this.rateRules.insert(rule);
+  }
+
+  updateRateRule(id: string, updates: Partial<RateRule>): RateRule | undefined {
+    return this.rateRules.update(id, { ...updates, updatedAt: new Date() });
+  }
+
+  deleteRateRule(id: string): boolean {
+    return this.rateRules.delete(id);
+  }
+
+  // Exchange rate operations
+  getAllExchangeRates(): ExchangeRate[] {
+    return this.exchangeRates.all();
+  }
+
+  getExchangeRateByCurrency(currency: string): ExchangeRate | undefined {
+    return this.exchangeRates.findBy('currency', currency)[0];
+  }
+
+  createExchangeRate(rate: ExchangeRate): ExchangeRate {
+    return this.exchangeRates.insert(rate);
+  }
+
+  updateExchangeRate(id: string, updates: Partial<ExchangeRate>): ExchangeRate | undefined {
+    return this.exchangeRates.update(id, { ...updates, updatedAt: new Date() });
+  }
+
+  deleteExchangeRate(id: string): boolean {
+    return this.exchangeRates.delete(id);
+  }
+
+  // Promo code operations
+  getAllPromoCodes(): PromoCode[] {
+    return this.promoCodes.all();
+  }
+
+  getPromoCodeById(id: string): PromoCode | undefined {
+    return this.promoCodes.get(id);
+  }
+
+  getPromoCodeByCode(code: string): PromoCode | undefined {
+    return this.promoCodes.findBy('code', code)[0];
+  }
+
+  createPromoCode(promoCode: PromoCode): PromoCode {
+    return this.promoCodes.insert(promoCode);
+  }
+
+  updatePromoCode(id: string, updates: Partial<PromoCode>): PromoCode | undefined {
+    return this.promoCodes.update(id, { ...updates, updatedAt: new Date() });
+  }
+
+  deletePromoCode(id: string): boolean {
+    return this.promoCodes.delete(id);
+  }
+
+  // Promo redemption operations
+  getPromoRedemptionsByPromoCodeId(promoCodeId: string): PromoRedemption[] {
+    return this.promoRedemptions.findBy('promoCodeId', promoCodeId);
+  }
+
+  getPromoRedemptionByBookingId(bookingId: string): PromoRedemption | undefined {
+    return this.promoRedemptions.findBy('bookingId', bookingId)[0];
+  }
+
+  createPromoRedemption(redemption: PromoRedemption): PromoRedemption {
+    return this.promoRedemptions.insert(redemption);
+  }
+
+  updatePromoRedemption(id: string, updates: Partial<PromoRedemption>): PromoRedemption | undefined {
+    return this.promoRedemptions.update(id, { ...updates, updatedAt: new Date() });
+  }
+
+  // Booking group operations
+  getBookingGroupById(id: string): BookingGroup | undefined {
+    return this.bookingGroups.get(id);
+  }
+
+  createBookingGroup(group: BookingGroup): BookingGroup {
+    return this.bookingGroups.insert(group);
+  }
+
+  // Waitlist operations
+  getAllWaitlistEntries(): WaitlistEntry[] {
+    return this.waitlistEntries.all();
+  }
+
+  getWaitlistEntryById(id: string): WaitlistEntry | undefined {
+    return this.waitlistEntries.get(id);
+  }
+
+  getWaitlistEntriesByGuestId(guestId: string): WaitlistEntry[] {
+    return this.waitlistEntries.findBy('guestId', guestId);
+  }
+
+  getWaitlistEntryByBookingId(bookingId: string): WaitlistEntry | undefined {
+    return this.waitlistEntries.findBy('bookingId', bookingId)[0];
+  }
+
+  createWaitlistEntry(entry: WaitlistEntry): WaitlistEntry {
+    return this.waitlistEntries.insert(entry);
+  }
+
+  updateWaitlistEntry(id: string, updates: Partial<WaitlistEntry>): WaitlistEntry | undefined {
+    return this.waitlistEntries.update(id, { ...updates, updatedAt: new Date() });
+  }
+
+  // Maintenance block operations
+  getAllMaintenanceBlocks(): MaintenanceBlock[] {
+    return this.maintenanceBlocks.all();
+  }
+
+  getMaintenanceBlockById(id: string): MaintenanceBlock | undefined {
+    return this.maintenanceBlocks.get(id);
+  }
+
+  getMaintenanceBlocksByRoomId(roomId: string): MaintenanceBlock[] {
+    return this.maintenanceBlocks.findBy('roomId', roomId);
+  }
+
+  createMaintenanceBlock(block: MaintenanceBlock): MaintenanceBlock {
+    return this.maintenanceBlocks.insert(block);
+  }
+
+  deleteMaintenanceBlock(id: string): boolean {
+    return this.maintenanceBlocks.delete(id);
+  }
+
+  // Housekeeping task operations
+  getAllHousekeepingTasks(): HousekeepingTask[] {
+    return this.housekeepingTasks.all();
+  }
+
+  getHousekeepingTaskById(id: string): HousekeepingTask | undefined {
+    return this.housekeepingTasks.get(id);
+  }
+
+  getHousekeepingTasksByRoomId(roomId: string): HousekeepingTask[] {
+    return this.housekeepingTasks.findBy('roomId', roomId);
+  }
+
+  createHousekeepingTask(task: HousekeepingTask): HousekeepingTask {
+    return this.housekeepingTasks.insert(task);
+  }
+
+  updateHousekeepingTask(id: string, updates: Partial<HousekeepingTask>): HousekeepingTask | undefined {
+    return this.housekeepingTasks.update(id, { ...updates, updatedAt: new Date() });
+  }
+
+  // Folio operations
+  getFolioEntriesByBookingId(bookingId: string): FolioEntry[] {
+    return this.folioEntries.findBy('bookingId', bookingId);
+  }
+
+  createFolioEntry(entry: FolioEntry): FolioEntry {
+    return this.folioEntries.insert(entry);
+  }
+
+  // Invoice operations
+  getAllInvoices(): Invoice[] {
+    return this.invoices.all();
+  }
+
+  getInvoiceByBookingId(bookingId: string): Invoice | undefined {
+    return this.invoices.findBy('bookingId', bookingId)[0];
+  }
+
+  createInvoice(invoice: Invoice): Invoice {
+    return this.invoices.insert(invoice);
+  }
+
+  // Campaign email operations
+  getCampaignEmailsByBookingId(bookingId: string): CampaignEmail[] {
+    return this.campaignEmails.findBy('bookingId', bookingId);
+  }
+
+  createCampaignEmail(email: CampaignEmail): CampaignEmail {
+    return this.campaignEmails.insert(email);
+  }
+
+  deleteCampaignEmail(id: string): boolean {
+    return this.campaignEmails.delete(id);
+  }
+}
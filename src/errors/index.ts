@@ -0,0 +1,39 @@
+// errors/index.ts
+
+import { BookingStatus } from '../types';
+
+// Base class for errors that map onto a specific HTTP status code
+export class AppError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+// Raised when a booking is asked to move to a status the state machine does not allow
+export class InvalidBookingTransitionError extends AppError {
+  constructor(
+    public readonly from: BookingStatus,
+    public readonly to: BookingStatus
+  ) {
+    super(`Cannot change booking status from ${from} to ${to}`, 409);
+  }
+}
+
+// Raised when a lock could not be obtained before its deadline
+export class LockTimeoutError extends AppError {
+  constructor(public readonly resources: string[]) {
+    super('The system is busy processing another request for this booking. Please try again.', 503);
+  }
+}
+
+// Raised when the payment provider cannot be reached or fails on its side
+export class PaymentGatewayError extends AppError {
+  constructor(message: string) {
+    super(message, 502);
+  }
+}
+
+// Message of anything thrown, for recording as a failure reason
+export const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
@@ -0,0 +1,15 @@
+// jobs/campaignJob.ts
+
+import { config } from '../config';
+import { campaignService } from '../services/campaignService';
+import { IntervalJob } from './intervalJob';
+
+// Periodically sends the pre-arrival, post-stay and abandoned-hold emails that are due
+export const campaignJob = new IntervalJob('Campaign', async () => {
+  const sent = await campaignService.run();
+  const total = Object.values(sent).reduce((sum, count) => sum + count, 0);
+  if (total > 0) {
+    console.log(`Sent ${total} campaign email(s):`, sent);
+  }
+  return total;
+}, config.campaigns.sweepIntervalSeconds);
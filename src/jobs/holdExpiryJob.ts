@@ -0,0 +1,21 @@
+// jobs/holdExpiryJob.ts
+
+import { config } from '../config';
+import { bookingService } from '../services/bookingService';
+import { waitlistService } from '../services/waitlistService';
+import { IntervalJob } from './intervalJob';
+
+// Periodically expires unpaid holds so their rooms return to inventory, and waitlist
+// entries whose check-in date has passed
+export const holdExpiryJob = new IntervalJob('Hold expiry', async () => {
+  const expired = await bookingService.expireHolds();
+  if (expired > 0) {
+    console.log(`Expired ${expired} booking hold(s)`);
+  }
+
+  const pastEntries = waitlistService.expirePastEntries();
+  if (pastEntries > 0) {
+    console.log(`Expired ${pastEntries} waitlist entr${pastEntries === 1 ? 'y' : 'ies'}`);
+  }
+  return expired;
+}, config.booking.holdSweepIntervalSeconds);
@@ -0,0 +1,53 @@
+// jobs/intervalJob.test.ts
+
+import { IntervalJob } from './intervalJob';
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('IntervalJob', () => {
+  it('skips a run that starts while the previous one is still going', async () => {
+    let finish: (count: number) => void = () => undefined;
+    const sweep = jest.fn(() => new Promise<number>(resolve => { finish = resolve; }));
+    const job = new IntervalJob('Test', sweep, 60);
+
+    const first = job.run();
+    await expect(job.run()).resolves.toBe(0);
+    finish(3);
+
+    await expect(first).resolves.toBe(3);
+    expect(sweep).toHaveBeenCalledTimes(1);
+  });
+
+  it('logs a failed run and runs again next time', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const sweep = jest.fn()
+      .mockRejectedValueOnce(new Error('database unavailable'))
+      .mockResolvedValueOnce(2);
+    const job = new IntervalJob('Test', sweep, 60);
+
+    await expect(job.run()).resolves.toBe(0);
+    expect(console.error).toHaveBeenCalledWith('Test job error:', expect.any(Error));
+    await expect(job.run()).resolves.toBe(2);
+  });
+
+  it('runs the sweep on its interval until stopped', async () => {
+    jest.useFakeTimers();
+    try {
+      const sweep = jest.fn().mockResolvedValue(0);
+      const job = new IntervalJob('Test', sweep, 60);
+
+      job.start();
+      job.start();
+      await jest.advanceTimersByTimeAsync(120_000);
+      expect(sweep).toHaveBeenCalledTimes(2);
+
+      job.stop();
+      await jest.advanceTimersByTimeAsync(120_000);
+      expect(sweep).toHaveBeenCalledTimes(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,48 @@
+// jobs/intervalJob.ts
+
+/**
+ * Runs a sweep on a timer. The sweep returns how many records it handled; a run that throws is
+ * logged and counts as zero so the timer keeps going.
+ */
+export class IntervalJob {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly name: string,
+    private readonly sweep: () => Promise<number>,
+    private readonly defaultIntervalSeconds: number
+  ) {}
+
+  start(intervalSeconds: number = this.defaultIntervalSeconds): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.run(), intervalSeconds * 1000);
+    // Don't keep the process alive just for the sweeper
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Run one sweep; overlapping runs are skipped
+   */
+  async run(): Promise<number> {
+    if (this.running) return 0;
+
+    this.running = true;
+    try {
+      return await this.sweep();
+    } catch (error) {
+      console.error(`${this.name} job error:`, error);
+      return 0;
+    } finally {
+      this.running = false;
+    }
+  }
+}
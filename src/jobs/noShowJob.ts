@@ -0,0 +1,15 @@
+// jobs/noShowJob.ts
+
+import { config } from '../config';
+import { bookingService } from '../services/bookingService';
+import { IntervalJob } from './intervalJob';
+
+// Periodically marks confirmed bookings whose guest never arrived as no-shows, charging the
+// no-show penalty and releasing their rooms
+export const noShowJob = new IntervalJob('No-show', async () => {
+  const processed = await bookingService.processNoShows();
+  if (processed > 0) {
+    console.log(`Marked ${processed} booking(s) as no-show`);
+  }
+  return processed;
+}, config.booking.noShowSweepIntervalSeconds);
@@ -1,7 +1,70 @@
 // middleware/validation.ts
 
 import { Request, Response, NextFunction } from 'express';
-import { RoomType } from '../types';
+import { config } from '../config';
+import { currencyService } from '../services/currencyService';
+import { promoService } from '../services/promoService';
+import {
+  EmailCampaign,
+  FolioEntryType,
+  GroupPaymentMode,
+  HousekeepingStatus,
+  PromoDiscountType,
+  RateAdjustmentType,
+  RateRuleType,
+  RoomType
+} from '../types';
+
+// Reports an error unless the currency is one we hold an exchange rate for
+const checkCurrency = (currency: unknown, errors: string[]): void => {
+  if (currency === undefined) return;
+
+  const supported = currencyService.getSupportedCurrencies();
+  if (typeof currency !== 'string' || !supported.includes(currency.toUpperCase())) {
+    errors.push(`Invalid currency. Must be one of: ${supported.join(', ')}`);
+  }
+};
+
+// Reports an error unless exactly one of a room or a room type is chosen
+const checkRoomChoice = (roomId: unknown, roomType: unknown, errors: string[], prefix: string = ''): void => {
+  if ((roomId === undefined) === (roomType === undefined)) {
+    errors.push(`${prefix}Either roomId or roomType is required, but not both`);
+  } else if (roomId !== undefined && (!roomId || typeof roomId !== 'string')) {
+    errors.push(`${prefix}Room ID is required`);
+  } else if (roomType !== undefined && !Object.values(RoomType).includes(roomType as RoomType)) {
+    errors.push(`${prefix}Invalid room type. Must be one of: ${Object.values(RoomType).join(', ')}`);
+  }
+};
+
+const checkStayDates = (checkInDate: any, checkOutDate: any, errors: string[]): void => {
+  if (!checkInDate || isNaN(Date.parse(checkInDate))) {
+    errors.push('Valid check-in date is required');
+  }
+
+  if (!checkOutDate || isNaN(Date.parse(checkOutDate))) {
+    errors.push('Valid check-out date is required');
+  }
+
+  if (checkInDate && checkOutDate) {
+    const checkIn = new Date(checkInDate);
+    const checkOut = new Date(checkOutDate);
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    if (checkIn < today) {
+      errors.push('Check-in date cannot be in the past');
+    }
+
+    if (checkOut <= checkIn) {
+      errors.push('Check-out date must be after check-in date');
+    }
+
+    const daysDiff = Math.ceil((checkOut.getTime() - checkIn.getTime()) / (1000 * 60 * 60 * 24));
+    if (daysDiff > 30) {
+      errors.push('Maximum booking duration is 30 days');
+    }
+  }
+};
 
 export const validateRegistration = (req: Request, res: Response, next: NextFunction): void => {
   const { email, password, firstName, lastName, phone } = req.body;
@@ -65,6 +128,21 @@ export const validateLogin = (req: Request, res: Response, next: NextFunction):
   next();
 };
 
+export const validateEmailPreferences = (req: Request, res: Response, next: NextFunction): void => {
+  const { optOuts } = req.body;
+
+  if (!Array.isArray(optOuts) || optOuts.some(campaign => !Object.values(EmailCampaign).includes(campaign))) {
+    res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: [`optOuts must be a list of: ${Object.values(EmailCampaign).join(', ')}`]
+    });
+    return;
+  }
+
+  next();
+};
+
 export const validateRoomCreation = (req: Request, res: Response, next: NextFunction): void => {
   const { roomNumber, type, pricePerNight, capacity, floor } = req.body;
 
@@ -102,8 +180,8 @@ export const validateRoomCreation = (req: Request, res: Response, next: NextFunc
   next();
 };
 
-export const validateBookingRequest = (req: Request, res: Response, next: NextFunction): void => {
-  const { roomId, checkInDate, checkOutDate, numberOfGuests } = req.body;
+export const validateMaintenanceBlock = (req: Request, res: Response, next: NextFunction): void => {
+  const { roomId, startDate, endDate, reason } = req.body;
 
   const errors: string[] = [];
 
@@ -111,23 +189,307 @@ export const validateBookingRequest = (req: Request, res: Response, next: NextFu
     errors.push('Room ID is required');
   }
 
-  if (!checkInDate || isNaN(Date.parse(checkInDate))) {
-    errors.push('Valid check-in date is required');
+  if (!startDate || isNaN(Date.parse(startDate))) {
+    errors.push('Valid start date is required');
   }
 
-  if (!checkOutDate || isNaN(Date.parse(checkOutDate))) {
-    errors.push('Valid check-out date is required');
+  if (!endDate || isNaN(Date.parse(endDate))) {
+    errors.push('Valid end date is required');
+  } else if (new Date(endDate) <= new Date()) {
+    errors.push('End date must be in the future');
   }
 
-  if (checkInDate && checkOutDate) {
-    const checkIn = new Date(checkInDate);
-    const checkOut = new Date(checkOutDate);
+  if (startDate && endDate && new Date(endDate) <= new Date(startDate)) {
+    errors.push('End date must be after start date');
+  }
+
+  if (!reason || typeof reason !== 'string' || reason.trim().length === 0) {
+    errors.push('Reason is required');
+  }
+
+  if (errors.length > 0) {
+    res.status(400).json({ 
+      success: false, 
+      message: 'Validation failed', 
+      errors 
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateHousekeepingStatus = (req: Request, res: Response, next: NextFunction): void => {
+  const { status } = req.body;
+
+  if (!status || !Object.values(HousekeepingStatus).includes(status)) {
+    res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: [`Invalid housekeeping status. Must be one of: ${Object.values(HousekeepingStatus).join(', ')}`]
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateTaskAssignment = (req: Request, res: Response, next: NextFunction): void => {
+  const { staffId } = req.body;
+
+  if (!staffId || typeof staffId !== 'string') {
+    res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: ['Staff ID is required']
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateFolioEntry = (req: Request, res: Response, next: NextFunction): void => {
+  const { type, description, amount } = req.body;
+
+  const errors: string[] = [];
+
+  if (!type || !Object.values(FolioEntryType).includes(type)) {
+    errors.push(`Invalid entry type. Must be one of: ${Object.values(FolioEntryType).join(', ')}`);
+  }
+
+  if (!description || typeof description !== 'string' || description.trim().length === 0) {
+    errors.push('Description is required');
+  }
+
+  if (typeof amount !== 'number' || !isFinite(amount) || amount <= 0) {
+    errors.push('Amount must be a positive number');
+  }
+
+  if (errors.length > 0) {
+    res.status(400).json({ 
+      success: false, 
+      message: 'Validation failed', 
+      errors 
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateStayExtensionDecision = (req: Request, res: Response, next: NextFunction): void => {
+  if (typeof req.body.approve !== 'boolean') {
+    res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: ['approve must be true or false']
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateBookingRequest = (req: Request, res: Response, next: NextFunction): void => {
+  const {
+    roomId,
+    roomType,
+    checkInDate,
+    checkOutDate,
+    numberOfGuests,
+    paymentMethod,
+    cancellationPolicy,
+    currency,
+    promoCode,
+    earlyCheckIn,
+    lateCheckOut
+  } = req.body;
+
+  const errors: string[] = [];
+
+  checkRoomChoice(roomId, roomType, errors);
+  checkStayDates(checkInDate, checkOutDate, errors);
+
+  if (!numberOfGuests || typeof numberOfGuests !== 'number' || numberOfGuests <= 0) {
+    errors.push('Valid number of guests is required');
+  }
+
+  if (paymentMethod !== undefined && (typeof paymentMethod !== 'string' || paymentMethod.trim().length === 0)) {
+    errors.push('Payment method must be a non-empty string');
+  }
+
+  if (
+    cancellationPolicy !== undefined &&
+    !config.cancellation.policies.some(policy => policy.code === cancellationPolicy)
+  ) {
+    errors.push(
+      `Invalid cancellation policy. Must be one of: ${config.cancellation.policies.map(policy => policy.code).join(', ')}`
+    );
+  }
+
+  checkCurrency(currency, errors);
+
+  // Limits and room-type restrictions are checked when the booking is priced
+  if (promoCode !== undefined) {
+    if (typeof promoCode !== 'string' || promoCode.trim().length === 0) {
+      errors.push('Promo code must be a non-empty string');
+    } else {
+      const promo = promoService.getByCode(promoCode);
+      if (!promo || !promo.isActive) {
+        errors.push(`Promo code ${promoCode} is not valid`);
+      }
+    }
+  }
+
+  if (earlyCheckIn !== undefined && typeof earlyCheckIn !== 'boolean') {
+    errors.push('Early check-in must be true or false');
+  }
+
+  if (lateCheckOut !== undefined && typeof lateCheckOut !== 'boolean') {
+    errors.push('Late check-out must be true or false');
+  }
+
+  if (errors.length > 0) {
+    res.status(400).json({ 
+      success: false, 
+      message: 'Validation failed', 
+      errors 
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateGroupBookingRequest = (req: Request, res: Response, next: NextFunction): void => {
+  const { name, checkInDate, checkOutDate, rooms, paymentMode, paymentMethod, cancellationPolicy, currency } = req.body;
+
+  const errors: string[] = [];
+
+  if (!name || typeof name !== 'string' || name.trim().length === 0) {
+    errors.push('Group name is required');
+  }
+
+  checkStayDates(checkInDate, checkOutDate, errors);
+
+  if (!Array.isArray(rooms) || rooms.length === 0) {
+    errors.push('At least one room is required');
+  } else if (rooms.length > config.booking.maxGroupRooms) {
+    errors.push(`A group can book at most ${config.booking.maxGroupRooms} rooms`);
+  } else {
+    rooms.forEach((room: any, index: number) => {
+      const prefix = `Room ${index + 1}: `;
+      if (!room || typeof room !== 'object') {
+        errors.push(`${prefix}Room details are required`);
+        return;
+      }
+
+      checkRoomChoice(room.roomId, room.roomType, errors, prefix);
+
+      if (!room.numberOfGuests || typeof room.numberOfGuests !== 'number' || room.numberOfGuests <= 0) {
+        errors.push(`${prefix}Valid number of guests is required`);
+      }
+
+      if (room.occupantName !== undefined && (typeof room.occupantName !== 'string' || room.occupantName.trim().length === 0)) {
+        errors.push(`${prefix}Occupant name must be a non-empty string`);
+      }
+
+      if (room.paymentMethod !== undefined && (typeof room.paymentMethod !== 'string' || room.paymentMethod.trim().length === 0)) {
+        errors.push(`${prefix}Payment method must be a non-empty string`);
+      }
+    });
+  }
+
+  if (paymentMode !== undefined && !Object.values(GroupPaymentMode).includes(paymentMode)) {
+    errors.push(`Invalid payment mode. Must be one of: ${Object.values(GroupPaymentMode).join(', ')}`);
+  }
+
+  if (paymentMethod !== undefined && (typeof paymentMethod !== 'string' || paymentMethod.trim().length === 0)) {
+    errors.push('Payment method must be a non-empty string');
+  }
+
+  if (
+    cancellationPolicy !== undefined &&
+    !config.cancellation.policies.some(policy => policy.code === cancellationPolicy)
+  ) {
+    errors.push(
+      `Invalid cancellation policy. Must be one of: ${config.cancellation.policies.map(policy => policy.code).join(', ')}`
+    );
+  }
+
+  checkCurrency(currency, errors);
+
+  if (errors.length > 0) {
+    res.status(400).json({ 
+      success: false, 
+      message: 'Validation failed', 
+      errors 
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateWaitlistRequest = (req: Request, res: Response, next: NextFunction): void => {
+  const { roomType, checkInDate, checkOutDate, numberOfGuests } = req.body;
+
+  const errors: string[] = [];
+
+  if (!roomType || !Object.values(RoomType).includes(roomType)) {
+    errors.push(`Invalid room type. Must be one of: ${Object.values(RoomType).join(', ')}`);
+  }
+
+  checkStayDates(checkInDate, checkOutDate, errors);
+
+  if (!numberOfGuests || typeof numberOfGuests !== 'number' || numberOfGuests <= 0) {
+    errors.push('Valid number of guests is required');
+  }
+
+  if (errors.length > 0) {
+    res.status(400).json({ 
+      success: false, 
+      message: 'Validation failed', 
+      errors 
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateBookingModification = (req: Request, res: Response, next: NextFunction): void => {
+  const { roomId, checkInDate, checkOutDate, numberOfGuests } = req.body;
+
+  const errors: string[] = [];
+
+  if ([roomId, checkInDate, checkOutDate, numberOfGuests].every(value => value === undefined)) {
+    errors.push('At least one of roomId, checkInDate, checkOutDate or numberOfGuests is required');
+  }
+
+  if (roomId !== undefined && (!roomId || typeof roomId !== 'string')) {
+    errors.push('Room ID must be a non-empty string');
+  }
+
+  if (checkInDate !== undefined) {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
 
-    if (checkIn < today) {
+    if (isNaN(Date.parse(checkInDate))) {
+      errors.push('Valid check-in date is required');
+    } else if (new Date(checkInDate) < today) {
       errors.push('Check-in date cannot be in the past');
     }
+  }
+
+  if (checkOutDate !== undefined && isNaN(Date.parse(checkOutDate))) {
+    errors.push('Valid check-out date is required');
+  }
+
+  if (checkInDate && checkOutDate) {
+    const checkIn = new Date(checkInDate);
+    const checkOut = new Date(checkOutDate);
 
     if (checkOut <= checkIn) {
       errors.push('Check-out date must be after check-in date');
@@ -139,7 +501,7 @@ export const validateBookingRequest = (req: Request, res: Response, next: NextFu
     }
   }
 
-  if (!numberOfGuests || typeof numberOfGuests !== 'number' || numberOfGuests <= 0) {
+  if (numberOfGuests !== undefined && (typeof numberOfGuests !== 'number' || numberOfGuests <= 0)) {
     errors.push('Valid number of guests is required');
   }
 
@@ -156,7 +518,7 @@ export const validateBookingRequest = (req: Request, res: Response, next: NextFu
 };
 
 export const validateAvailabilityQuery = (req: Request, res: Response, next: NextFunction): void => {
-  const { checkInDate, checkOutDate } = req.query;
+  const { checkInDate, checkOutDate, currency } = req.query;
 
   const errors: string[] = [];
 
@@ -177,6 +539,256 @@ export const validateAvailabilityQuery = (req: Request, res: Response, next: Nex
     }
   }
 
+  checkCurrency(currency, errors);
+
+  if (errors.length > 0) {
+    res.status(400).json({ 
+      success: false, 
+      message: 'Validation failed', 
+      errors 
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateCalendarQuery = (req: Request, res: Response, next: NextFunction): void => {
+  const { from, to } = req.query;
+
+  const errors: string[] = [];
+
+  if (!from || isNaN(Date.parse(from as string))) {
+    errors.push('Valid from date is required');
+  }
+
+  if (!to || isNaN(Date.parse(to as string))) {
+    errors.push('Valid to date is required');
+  }
+
+  if (errors.length === 0) {
+    const start = new Date(from as string);
+    const end = new Date(to as string);
+
+    if (end <= start) {
+      errors.push('To date must be after from date');
+    }
+
+    const daysDiff = Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
+    if (daysDiff > config.booking.maxCalendarDays) {
+      errors.push(`Calendar range cannot exceed ${config.booking.maxCalendarDays} days`);
+    }
+  }
+
+  if (errors.length > 0) {
+    res.status(400).json({ 
+      success: false, 
+      message: 'Validation failed', 
+      errors 
+    });
+    return;
+  }
+
+  next();
+};
+
+// Used for both create and update; required fields are only enforced on create
+export const validateRateRule = (req: Request, res: Response, next: NextFunction): void => {
+  const {
+    name,
+    type,
+    adjustmentType,
+    adjustmentValue,
+    roomTypes,
+    startDate,
+    endDate,
+    daysOfWeek,
+    minNights,
+    minOccupancyPercent,
+    priority,
+    isActive
+  } = req.body;
+  const isCreate = req.method === 'POST';
+
+  const errors: string[] = [];
+
+  if ((isCreate || name !== undefined) && (!name || typeof name !== 'string')) {
+    errors.push('Rule name is required');
+  }
+
+  if ((isCreate || type !== undefined) && !Object.values(RateRuleType).includes(type)) {
+    errors.push(`Invalid rule type. Must be one of: ${Object.values(RateRuleType).join(', ')}`);
+  }
+
+  if ((isCreate || adjustmentType !== undefined) && !Object.values(RateAdjustmentType).includes(adjustmentType)) {
+    errors.push(`Invalid adjustment type. Must be one of: ${Object.values(RateAdjustmentType).join(', ')}`);
+  }
+
+  if ((isCreate || adjustmentValue !== undefined) && typeof adjustmentValue !== 'number') {
+    errors.push('Adjustment value must be a number');
+  }
+
+  if (
+    roomTypes !== undefined &&
+    (!Array.isArray(roomTypes) || roomTypes.some((roomType: any) => !Object.values(RoomType).includes(roomType)))
+  ) {
+    errors.push(`Room types must be a list of: ${Object.values(RoomType).join(', ')}`);
+  }
+
+  if (startDate && isNaN(Date.parse(startDate))) {
+    errors.push('Start date must be a valid date');
+  }
+
+  if (endDate && isNaN(Date.parse(endDate))) {
+    errors.push('End date must be a valid date');
+  }
+
+  if (startDate && endDate && new Date(endDate) < new Date(startDate)) {
+    errors.push('End date cannot be before start date');
+  }
+
+  if (
+    daysOfWeek !== undefined &&
+    (!Array.isArray(daysOfWeek) || daysOfWeek.some((day: any) => !Number.isInteger(day) || day < 0 || day > 6))
+  ) {
+    errors.push('Days of week must be a list of integers from 0 (Sunday) to 6 (Saturday)');
+  }
+
+  if (type === RateRuleType.DAY_OF_WEEK && isCreate && (!Array.isArray(daysOfWeek) || daysOfWeek.length === 0)) {
+    errors.push('Day-of-week rules require daysOfWeek');
+  }
+
+  if (minNights !== undefined && (!Number.isInteger(minNights) || minNights < 1)) {
+    errors.push('Minimum nights must be a positive integer');
+  }
+
+  if (type === RateRuleType.LENGTH_OF_STAY && isCreate && minNights === undefined) {
+    errors.push('Length-of-stay rules require minNights');
+  }
+
+  if (
+    minOccupancyPercent !== undefined &&
+    (typeof minOccupancyPercent !== 'number' || minOccupancyPercent < 0 || minOccupancyPercent > 100)
+  ) {
+    errors.push('Minimum occupancy must be a percentage between 0 and 100');
+  }
+
+  if (type === RateRuleType.OCCUPANCY && isCreate && minOccupancyPercent === undefined) {
+    errors.push('Occupancy rules require minOccupancyPercent');
+  }
+
+  if (priority !== undefined && !Number.isInteger(priority)) {
+    errors.push('Priority must be an integer');
+  }
+
+  if (isActive !== undefined && typeof isActive !== 'boolean') {
+    errors.push('isActive must be a boolean');
+  }
+
+  if (errors.length > 0) {
+    res.status(400).json({ 
+      success: false, 
+      message: 'Validation failed', 
+      errors 
+    });
+    return;
+  }
+
+  next();
+};
+
+export const validateExchangeRate = (req: Request, res: Response, next: NextFunction): void => {
+  const { currency } = req.params;
+  const { rate } = req.body;
+
+  const errors: string[] = [];
+
+  if (!/^[A-Za-z]{3}$/.test(currency)) {
+    errors.push('Currency must be a three-letter ISO 4217 code');
+  } else if (currency.toUpperCase() === config.payment.currency) {
+    errors.push(`The base currency ${config.payment.currency} always has a rate of 1`);
+  }
+
+  if (typeof rate !== 'number' || !isFinite(rate) || rate <= 0) {
+    errors.push('Rate must be a positive number');
+  }
+
+  if (errors.length > 0) {
+    res.status(400).json({ 
+      success: false, 
+      message: 'Validation failed', 
+      errors 
+    });
+    return;
+  }
+
+  next();
+};
+
+// Used for both create and update; required fields are only enforced on create
+export const validatePromoCode = (req: Request, res: Response, next: NextFunction): void => {
+  const {
+    code,
+    discountType,
+    discountValue,
+    roomTypes,
+    validFrom,
+    validUntil,
+    maxRedemptions,
+    maxRedemptionsPerGuest,
+    isActive
+  } = req.body;
+  const isCreate = req.method === 'POST';
+
+  const errors: string[] = [];
+
+  if ((isCreate || code !== undefined) && (typeof code !== 'string' || !/^[A-Za-z0-9_-]{3,32}$/.test(code))) {
+    errors.push('Code must be 3-32 letters, digits, dashes or underscores');
+  }
+
+  if ((isCreate || discountType !== undefined) && !Object.values(PromoDiscountType).includes(discountType)) {
+    errors.push(`Invalid discount type. Must be one of: ${Object.values(PromoDiscountType).join(', ')}`);
+  }
+
+  if ((isCreate || discountValue !== undefined) && (typeof discountValue !== 'number' || discountValue <= 0)) {
+    errors.push('Discount value must be a positive number');
+  }
+
+  if (discountType === PromoDiscountType.PERCENT && typeof discountValue === 'number' && discountValue > 100) {
+    errors.push('Percentage discounts cannot exceed 100');
+  }
+
+  if (
+    roomTypes !== undefined &&
+    (!Array.isArray(roomTypes) || roomTypes.some((roomType: any) => !Object.values(RoomType).includes(roomType)))
+  ) {
+    errors.push(`Room types must be a list of: ${Object.values(RoomType).join(', ')}`);
+  }
+
+  if (validFrom && isNaN(Date.parse(validFrom))) {
+    errors.push('validFrom must be a valid date');
+  }
+
+  if (validUntil && isNaN(Date.parse(validUntil))) {
+    errors.push('validUntil must be a valid date');
+  }
+
+  if (validFrom && validUntil && new Date(validUntil) < new Date(validFrom)) {
+    errors.push('validUntil cannot be before validFrom');
+  }
+
+  if (maxRedemptions !== undefined && (!Number.isInteger(maxRedemptions) || maxRedemptions < 1)) {
+    errors.push('Maximum redemptions must be a positive integer');
+  }
+
+  if (maxRedemptionsPerGuest !== undefined && (!Number.isInteger(maxRedemptionsPerGuest) || maxRedemptionsPerGuest < 1)) {
+    errors.push('Maximum redemptions per guest must be a positive integer');
+  }
+
+  if (isActive !== undefined && typeof isActive !== 'boolean') {
+    errors.push('isActive must be a boolean');
+  }
+
   if (errors.length > 0) {
     res.status(400).json({ 
       success: false, 
@@ -4,13 +4,36 @@ import express from 'express';
 import * as authController from '../controllers/authController';
 import * as roomController from '../controllers/roomController';
 import * as bookingController from '../controllers/bookingController';
+import * as rateRuleController from '../controllers/rateRuleController';
+import * as currencyController from '../controllers/currencyController';
+import * as reportController from '../controllers/reportController';
+import * as promoCodeController from '../controllers/promoCodeController';
+import * as roomAssignmentController from '../controllers/roomAssignmentController';
+import * as waitlistController from '../controllers/waitlistController';
+import * as maintenanceController from '../controllers/maintenanceController';
+import * as housekeepingController from '../controllers/housekeepingController';
+import * as folioController from '../controllers/folioController';
+import * as invoiceController from '../controllers/invoiceController';
 import { authenticate, authorize } from '../middleware/auth';
 import { 
   validateRegistration, 
   validateLogin, 
+  validateEmailPreferences,
   validateRoomCreation, 
   validateBookingRequest,
-  validateAvailabilityQuery 
+  validateGroupBookingRequest,
+  validateWaitlistRequest,
+  validateCalendarQuery,
+  validateMaintenanceBlock,
+  validateHousekeepingStatus,
+  validateTaskAssignment,
+  validateFolioEntry,
+  validateStayExtensionDecision,
+  validateBookingModification,
+  validateAvailabilityQuery,
+  validateRateRule,
+  validateExchangeRate,
+  validatePromoCode
 } from '../middleware/validation';
 import { UserRole } from '../types';
 
@@ -23,6 +46,9 @@ router.post('/auth/register', validateRegistration, authController.register);
 router.post('/auth/login', validateLogin, authController.login);
 router.get('/auth/profile', authenticate, authController.getProfile);
 router.put('/auth/profile', authenticate, authController.updateProfile);
+router.put('/auth/email-preferences', authenticate, validateEmailPreferences, authController.updateEmailPreferences);
+router.get('/auth/unsubscribe', authController.unsubscribePage);
+router.post('/auth/unsubscribe', authController.unsubscribe);
 
 // ============================================
 // ROOM ROUTES
@@ -30,6 +56,47 @@ router.put('/auth/profile', authenticate, authController.updateProfile);
 // Public routes
 router.get('/rooms', roomController.getAllRooms);
 router.get('/rooms/types', roomController.getRoomTypes);
+
+// Per-room, per-night occupancy grid (staff and admin only)
+router.get(
+  '/rooms/calendar',
+  authenticate,
+  authorize(UserRole.STAFF, UserRole.ADMIN),
+  validateCalendarQuery,
+  roomController.getRoomCalendar
+);
+
+// Maintenance blocks that take rooms out of service for a date range (staff and admin only)
+router.get(
+  '/rooms/maintenance-blocks',
+  authenticate,
+  authorize(UserRole.STAFF, UserRole.ADMIN),
+  maintenanceController.getMaintenanceBlocks
+);
+
+router.post(
+  '/rooms/maintenance-blocks',
+  authenticate,
+  authorize(UserRole.STAFF, UserRole.ADMIN),
+  validateMaintenanceBlock,
+  maintenanceController.createMaintenanceBlock
+);
+
+// Get a block with the bookings that need relocating
+router.get(
+  '/rooms/maintenance-blocks/:id',
+  authenticate,
+  authorize(UserRole.STAFF, UserRole.ADMIN),
+  maintenanceController.getMaintenanceBlock
+);
+
+router.delete(
+  '/rooms/maintenance-blocks/:id',
+  authenticate,
+  authorize(UserRole.STAFF, UserRole.ADMIN),
+  maintenanceController.deleteMaintenanceBlock
+);
+
 router.get('/rooms/:id', roomController.getRoomById);
 
 // Admin only routes
@@ -65,6 +132,19 @@ router.get(
   bookingController.checkAvailability
 );
 
+// Free units per room type (public)
+router.get(
+  '/bookings/availability/types',
+  validateAvailabilityQuery,
+  bookingController.checkRoomTypeAvailability
+);
+
+// List cancellation policies guests can book under (public)
+router.get('/bookings/cancellation-policies', bookingController.getCancellationPolicies);
+
+// List currencies guests can be quoted and charged in (public)
+router.get('/bookings/currencies', currencyController.getCurrencies);
+
 // Create booking (authenticated users)
 router.post(
   '/bookings',
@@ -73,6 +153,81 @@ router.post(
   bookingController.createBooking
 );
 
+// Hold a room while the guest enters payment details (authenticated users)
+router.post(
+  '/bookings/holds',
+  authenticate,
+  validateBookingRequest,
+  bookingController.createHold
+);
+
+// Pay for a held room
+router.post(
+  '/bookings/holds/:id/confirm',
+  authenticate,
+  bookingController.confirmHold
+);
+
+// Book several rooms at once under one group (authenticated users)
+router.post(
+  '/bookings/groups',
+  authenticate,
+  validateGroupBookingRequest,
+  bookingController.createGroupBooking
+);
+
+// Get a group and its bookings (organizer, staff and admin)
+router.get(
+  '/bookings/groups/:id',
+  authenticate,
+  bookingController.getGroupBooking
+);
+
+// Rooming list of a group (staff and admin only)
+router.get(
+  '/bookings/groups/:id/manifest',
+  authenticate,
+  authorize(UserRole.STAFF, UserRole.ADMIN),
+  bookingController.getGroupManifest
+);
+
+// Cancel every room of a group (organizer, staff and admin)
+router.post(
+  '/bookings/groups/:id/cancel',
+  authenticate,
+  bookingController.cancelGroupBooking
+);
+
+// Join the waitlist for a sold-out room type (authenticated users)
+router.post(
+  '/bookings/waitlist',
+  authenticate,
+  validateWaitlistRequest,
+  waitlistController.joinWaitlist
+);
+
+// Get user's own waitlist entries
+router.get(
+  '/bookings/waitlist/my-entries',
+  authenticate,
+  waitlistController.getMyWaitlistEntries
+);
+
+// Get the whole waitlist (staff and admin only)
+router.get(
+  '/bookings/waitlist',
+  authenticate,
+  authorize(UserRole.STAFF, UserRole.ADMIN),
+  waitlistController.getWaitlist
+);
+
+// Leave the waitlist
+router.delete(
+  '/bookings/waitlist/:id',
+  authenticate,
+  waitlistController.leaveWaitlist
+);
+
 // Get user's own bookings
 router.get(
   '/bookings/my-bookings',
@@ -95,6 +250,21 @@ router.get(
   bookingController.getBookingById
 );
 
+// Change dates, room or guest count of a booking
+router.patch(
+  '/bookings/:id',
+  authenticate,
+  validateBookingModification,
+  bookingController.modifyBooking
+);
+
+// Get status history of a booking
+router.get(
+  '/bookings/:id/history',
+  authenticate,
+  bookingController.getBookingHistory
+);
+
 // Cancel booking
 router.post(
   '/bookings/:id/cancel',
@@ -102,6 +272,39 @@ router.post(
   bookingController.cancelBooking
 );
 
+// Assign or change the room of a booking (staff and admin only)
+router.post(
+  '/bookings/:id/assign-room',
+  authenticate,
+  authorize(UserRole.STAFF, UserRole.ADMIN),
+  bookingController.assignRoom
+);
+
+// Early check-in and late check-out: status, availability and fees
+router.get(
+  '/bookings/:id/stay-extensions',
+  authenticate,
+  bookingController.getStayExtensions
+);
+
+// Approve or decline early check-in (staff and admin only)
+router.put(
+  '/bookings/:id/early-check-in',
+  authenticate,
+  authorize(UserRole.STAFF, UserRole.ADMIN),
+  validateStayExtensionDecision,
+  bookingController.decideEarlyCheckIn
+);
+
+// Approve or decline late check-out (staff and admin only)
+router.put(
+  '/bookings/:id/late-check-out',
+  authenticate,
+  authorize(UserRole.STAFF, UserRole.ADMIN),
+  validateStayExtensionDecision,
+  bookingController.decideLateCheckOut
+);
+
 // Check-in (staff and admin only)
 router.post(
   '/bookings/:id/check-in',
@@ -110,6 +313,29 @@ router.post(
   bookingController.checkInGuest
 );
 
+// Get a booking's folio of room charges, incidentals and payments
+router.get(
+  '/bookings/:id/folio',
+  authenticate,
+  folioController.getFolio
+);
+
+// Get a booking's invoice as HTML (default), PDF or JSON
+router.get(
+  '/bookings/:id/invoice',
+  authenticate,
+  invoiceController.getInvoice
+);
+
+// Post a charge or credit to a checked-in guest's folio (staff and admin only)
+router.post(
+  '/bookings/:id/folio/entries',
+  authenticate,
+  authorize(UserRole.STAFF, UserRole.ADMIN),
+  validateFolioEntry,
+  folioController.postFolioEntry
+);
+
 // Check-out (staff and admin only)
 router.post(
   '/bookings/:id/check-out',
@@ -118,5 +344,175 @@ router.post(
   bookingController.checkOutGuest
 );
 
+// ============================================
+// HOUSEKEEPING ROUTES
+// ============================================
+// Rooms with their housekeeping status (staff and admin only)
+router.get(
+  '/housekeeping/rooms',
+  authenticate,
+  authorize(UserRole.STAFF, UserRole.ADMIN),
+  housekeepingController.getHousekeepingRooms
+);
+
+// Move a room through DIRTY -> CLEANING -> CLEAN -> INSPECTED (staff and admin only)
+router.put(
+  '/housekeeping/rooms/:id/status',
+  authenticate,
+  authorize(UserRole.STAFF, UserRole.ADMIN),
+  validateHousekeepingStatus,
+  housekeepingController.updateRoomStatus
+);
+
+// Cleaning tasks queued when guests check out (staff and admin only)
+router.get(
+  '/housekeeping/tasks',
+  authenticate,
+  authorize(UserRole.STAFF, UserRole.ADMIN),
+  housekeepingController.getTasks
+);
+
+// Assign a cleaning task to a member of staff
+router.put(
+  '/housekeeping/tasks/:id/assign',
+  authenticate,
+  authorize(UserRole.STAFF, UserRole.ADMIN),
+  validateTaskAssignment,
+  housekeepingController.assignTask
+);
+
+// ============================================
+// ADMIN ROUTES
+// ============================================
+// Rate rules for dynamic pricing (admin only)
+router.get(
+  '/admin/rate-rules',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  rateRuleController.getAllRateRules
+);
+
+router.get(
+  '/admin/rate-rules/:id',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  rateRuleController.getRateRuleById
+);
+
+router.post(
+  '/admin/rate-rules',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validateRateRule,
+  rateRuleController.createRateRule
+);
+
+router.put(
+  '/admin/rate-rules/:id',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validateRateRule,
+  rateRuleController.updateRateRule
+);
+
+router.delete(
+  '/admin/rate-rules/:id',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  rateRuleController.deleteRateRule
+);
+
+// Exchange rates; these override the rates file (admin only)
+router.get(
+  '/admin/exchange-rates',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  currencyController.getExchangeRates
+);
+
+router.put(
+  '/admin/exchange-rates/:currency',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validateExchangeRate,
+  currencyController.setExchangeRate
+);
+
+router.delete(
+  '/admin/exchange-rates/:currency',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  currencyController.deleteExchangeRate
+);
+
+// Promo codes (admin only)
+router.get(
+  '/admin/promo-codes',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  promoCodeController.getAllPromoCodes
+);
+
+router.get(
+  '/admin/promo-codes/:id',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  promoCodeController.getPromoCodeById
+);
+
+router.get(
+  '/admin/promo-codes/:id/redemptions',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  promoCodeController.getPromoCodeRedemptions
+);
+
+router.post(
+  '/admin/promo-codes',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validatePromoCode,
+  promoCodeController.createPromoCode
+);
+
+router.put(
+  '/admin/promo-codes/:id',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validatePromoCode,
+  promoCodeController.updatePromoCode
+);
+
+router.delete(
+  '/admin/promo-codes/:id',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  promoCodeController.deletePromoCode
+);
+
+// Revenue in the base currency (admin only)
+router.get(
+  '/admin/reports/revenue',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  reportController.getRevenueReport
+);
+
+// Promo code redemptions (admin only)
+router.get(
+  '/admin/reports/promo-codes',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  reportController.getPromoCodeReport
+);
+
+// Assign rooms to the day's arrivals, with moves and upgrades where needed (staff and admin only)
+router.post(
+  '/admin/room-assignment/run',
+  authenticate,
+  authorize(UserRole.STAFF, UserRole.ADMIN),
+  roomAssignmentController.runRoomAssignment
+);
+
 export default router;
 module.exports = router;
@@ -0,0 +1,243 @@
+// services/bookingService.test.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config';
+import { db, lockManager, lockKeys } from '../database';
+import { BookingStatus, PromoDiscountType, RefundStatus, RoomType, StayExtensionStatus, UserRole, WaitlistStatus } from '../types';
+import { addDays } from '../utils/dates';
+import { bookingService } from './bookingService';
+import { emailService } from './emailService';
+import { paymentService } from './paymentService';
+import { paymentGateway } from './payments';
+import { waitlistService } from './waitlistService';
+
+const createGuest = (): string => {
+  const id = uuidv4();
+  db.createUser({
+    id,
+    email: `${id}@example.com`,
+    password: 'not-a-real-hash',
+    role: UserRole.GUEST,
+    firstName: 'Test',
+    lastName: 'Guest',
+    phone: '+15550000000',
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+  return id;
+};
+
+const day = (offset: number): Date => {
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+  return addDays(today, offset);
+};
+
+// Type-level inventory counts every room, so wait for the seed rooms before booking by type
+beforeAll(async () => {
+  while (db.getAllRooms().length === 0) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+});
+
+beforeEach(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('getAvailableRooms', () => {
+  it('offers a taken room from the first night past its back-to-back bookings and maintenance', async () => {
+    await bookingService.createBooking(createGuest(), 'room-2', day(130), day(132), 1);
+    db.createMaintenanceBlock({
+      id: uuidv4(),
+      roomId: 'room-2',
+      startDate: day(132),
+      endDate: day(134),
+      reason: 'Repainting',
+      createdBy: 'admin-1',
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+    await bookingService.createBooking(createGuest(), 'room-2', day(134), day(135), 1);
+
+    const rooms = await bookingService.getAvailableRooms({
+      checkInDate: day(130).toISOString(),
+      checkOutDate: day(131).toISOString()
+    });
+
+    const room = rooms.find(candidate => candidate.roomId === 'room-2')!;
+    expect(room.isAvailable).toBe(false);
+    expect(room.availableFrom).toEqual(day(135));
+  });
+});
+
+describe('createTypeBooking', () => {
+  it('does not sell a room type whose only room is out of order', async () => {
+    // room-9 is the only presidential room in the seed
+    db.updateRoom('room-9', { isAvailable: false });
+    try {
+      const reserved = await bookingService.createTypeBooking(
+        createGuest(), RoomType.PRESIDENTIAL, day(140), day(141), 1
+      );
+      expect(reserved).toBeNull();
+    } finally {
+      db.updateRoom('room-9', { isAvailable: true });
+    }
+  });
+});
+
+describe('processPayment', () => {
+  it('offers a room freed by a declined payment to the waitlist after releasing the booking lock', async () => {
+    // The seed has a single presidential room, so one booking sells the type out
+    const reserved = await bookingService.createTypeBooking(
+      createGuest(), RoomType.PRESIDENTIAL, day(100), day(102), 1, { paymentMethod: 'card_declined' }
+    );
+    const entry = waitlistService.join(createGuest(), RoomType.PRESIDENTIAL, day(100), day(102), 1);
+
+    let lockedWhileOffering: boolean | undefined;
+    jest.spyOn(emailService, 'sendWaitlistOffer').mockImplementation(async () => {
+      lockedWhileOffering = lockManager.isLocked(lockKeys.booking(reserved!.booking.id));
+      return true;
+    });
+
+    const paid = await bookingService.processPayment(reserved!.payment.id);
+
+    expect(paid).toBe(false);
+    expect(db.getBookingById(reserved!.booking.id)!.status).toBe(BookingStatus.CANCELLED);
+    expect(db.getWaitlistEntryById(entry.id)!.status).toBe(WaitlistStatus.OFFERED);
+    expect(lockedWhileOffering).toBe(false);
+  });
+});
+
+describe('modifyBooking', () => {
+  it('refuses to reprice a booking whose promo code has since been deleted', async () => {
+    const promo = db.createPromoCode({
+      id: uuidv4(),
+      code: `TEST${Math.floor(Math.random() * 1e6)}`,
+      discountType: PromoDiscountType.PERCENT,
+      discountValue: 20,
+      isActive: true,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+    const reserved = await bookingService.createBooking(
+      createGuest(), 'room-1', day(110), day(112), 1, { promoCode: promo.code }
+    );
+    await bookingService.processPayment(reserved!.payment.id);
+    db.deletePromoCode(promo.id);
+
+    await expect(
+      bookingService.modifyBooking(reserved!.booking.id, { checkOutDate: day(113) })
+    ).rejects.toMatchObject({ statusCode: 409 });
+
+    const booking = db.getBookingById(reserved!.booking.id)!;
+    expect(booking.totalPrice).toBe(reserved!.booking.totalPrice);
+    expect(new Date(booking.checkOutDate)).toEqual(day(112));
+  });
+
+  it('keeps the room a booking was moved to while the change waited for its lock', async () => {
+    const created = await bookingService.createBooking(createGuest(), 'room-3', day(180), day(181), 1);
+    await bookingService.processPayment(created!.payment.id);
+    const bookingId = created!.booking.id;
+
+    let release!: () => void;
+    const held = lockManager.withLock(lockKeys.booking(bookingId), () => new Promise<void>(resolve => { release = resolve; }));
+    const modified = bookingService.modifyBooking(bookingId, { checkOutDate: day(182) });
+    await new Promise(resolve => setImmediate(resolve));
+
+    // The front desk moves the guest while the change waits for the booking lock
+    db.updateBooking(bookingId, { roomId: 'room-4' });
+    release();
+    await held;
+
+    const result = await modified;
+    expect(result.booking.roomId).toBe('room-4');
+    expect(new Date(result.booking.checkOutDate)).toEqual(day(182));
+  });
+});
+
+describe('confirmHold', () => {
+  it('records the payment method given at confirmation while holding the booking lock', async () => {
+    const held = await bookingService.createBooking(createGuest(), 'room-1', day(120), day(121), 1, { hold: true });
+
+    const lockedWhileRecording: boolean[] = [];
+    const updatePayment = db.updatePayment.bind(db);
+    jest.spyOn(db, 'updatePayment').mockImplementation((id, updates) => {
+      if (updates.paymentMethod) {
+        lockedWhileRecording.push(lockManager.isLocked(lockKeys.booking(held!.booking.id)));
+      }
+      return updatePayment(id, updates);
+    });
+
+    const result = await bookingService.confirmHold(held!.booking.id, 'pm_card_visa');
+
+    expect(result.success).toBe(true);
+    expect(result.payment.paymentMethod).toBe('pm_card_visa');
+    expect(lockedWhileRecording).toEqual([true]);
+  });
+});
+
+describe('cancelBooking', () => {
+  it('finishes a refund that failed partway when the cancellation is retried', async () => {
+    const created = await bookingService.createBooking(createGuest(), 'room-1', day(170), day(172), 1);
+    await bookingService.processPayment(created!.payment.id);
+    const bookingId = created!.booking.id;
+    await paymentService.charge(bookingId, 40, 'CREDIT_CARD', 'Minibar');
+    const paid = paymentService.getPaidAmount(bookingId);
+
+    // The minibar charge is refunded first, then the gateway declines the room payment's refund
+    const refund = paymentGateway.refund.bind(paymentGateway);
+    jest.spyOn(paymentGateway, 'refund')
+      .mockImplementationOnce(refund)
+      .mockResolvedValueOnce({ success: false, declineReason: 'processing_error' });
+    await expect(bookingService.cancelBooking(bookingId, 'admin-1')).rejects.toThrow('Refund failed: processing_error');
+    expect(db.getBookingById(bookingId)!.status).toBe(BookingStatus.CONFIRMED);
+    expect(paymentService.getPaidAmount(bookingId)).toBe(created!.booking.totalPrice);
+
+    const result = await bookingService.cancelBooking(bookingId, 'admin-1');
+
+    expect(result.booking.status).toBe(BookingStatus.CANCELLED);
+    expect(result.quote.refundAmount).toBe(paid);
+    expect(result.refunds.map(({ amount }) => amount)).toEqual([created!.booking.totalPrice]);
+    expect(paymentService.getPaidAmount(bookingId)).toBe(0);
+    const refunded = db.getPaymentsByBookingId(bookingId)
+      .flatMap(payment => db.getRefundsByPaymentId(payment.id))
+      .filter(({ status }) => status === RefundStatus.COMPLETED);
+    expect(refunded.reduce((total, { amount }) => total + amount, 0)).toBe(paid);
+  });
+});
+
+describe('checkOut', () => {
+  it('charges the late check-out fee only when late check-out was approved', async () => {
+    const lateCheckOutFee = config.booking.lateCheckOutFee;
+    config.booking.lateCheckOutFee = 30;
+    try {
+      // Both guests are still in on the day after their check-out date
+      const checkedInLate = async (roomId: string, lateCheckOut?: StayExtensionStatus) => {
+        const created = await bookingService.createBooking(createGuest(), roomId, day(240), day(241), 1);
+        await bookingService.processPayment(created!.payment.id);
+        db.updateBooking(created!.booking.id, {
+          checkInDate: day(-2),
+          checkOutDate: day(-1),
+          status: BookingStatus.CHECKED_IN,
+          lateCheckOut
+        });
+        return created!.booking.id;
+      };
+      const approved = await checkedInLate('room-1', StayExtensionStatus.APPROVED);
+      const unannounced = await checkedInLate('room-2');
+
+      const charged = await bookingService.checkOut(approved, 'admin-1');
+      const notCharged = await bookingService.checkOut(unannounced, 'admin-1');
+
+      expect(charged.folio.entries.map(({ description, amount }) => ({ description, amount })))
+        .toContainEqual({ description: 'Late check-out', amount: 30 });
+      expect(notCharged.folio.entries).toEqual([]);
+    } finally {
+      config.booking.lateCheckOutFee = lateCheckOutFee;
+    }
+  });
+});
@@ -1,53 +1,148 @@
 // services/bookingService.ts
 
 import { v4 as uuidv4 } from 'uuid';
-import { db } from '../database';
+import { config } from '../config';
+import { availabilityIndex, db, lockManager, lockKeys } from '../database';
+import { AppError, errorMessage } from '../errors';
 import { 
   Booking, 
+  MaintenanceBlock,
   Payment, 
   BookingStatus, 
   PaymentStatus, 
   RoomAvailability,
-  AvailabilityQuery
+  AvailabilityQuery,
+  AvailabilitySuggestions,
+  AlternativeDates,
+  AlternativeRoom,
+  Refund,
+  RefundQuote,
+  Room,
+  RoomType,
+  PromoCode,
+  BookingGroup,
+  GroupPaymentMode,
+  GroupRoomRequest,
+  GroupManifest,
+  Guest,
+  StayExtension,
+  StayExtensions,
+  StayExtensionStatus,
+  WaitlistStatus
 } from '../types';
+import { bookingStateMachine, RELEASED_STATUSES, SYSTEM_ACTOR } from './bookingStateMachine';
+import { cancellationPolicyService } from './cancellationPolicyService';
+import { currencyService } from './currencyService';
+import { emailService } from './emailService';
+import { folioService, FolioSettlement } from './folioService';
+import { housekeepingService } from './housekeepingService';
+import { inventoryService } from './inventoryService';
+import { paymentService } from './paymentService';
+import { DEFAULT_PAYMENT_METHOD } from './payments';
+import { pricingService } from './pricingService';
+import { promoService } from './promoService';
+import { waitlistService } from './waitlistService';
+import { addDays, atTimeOfDay, calculateNights } from '../utils/dates';
+import { roundCurrency } from '../utils/money';
+
+export interface BookingOptions {
+  specialRequests?: string;
+  paymentMethod?: string;
+  cancellationPolicy?: string;
+  currency?: string;
+  promoCode?: string;
+  // Reserve the room for config.booking.holdMinutes instead of paying straight away
+  hold?: boolean;
+  holdMinutes?: number;
+  earlyCheckIn?: boolean;
+  lateCheckOut?: boolean;
+}
+
+export interface BookingChanges {
+  roomId?: string;
+  checkInDate?: Date;
+  checkOutDate?: Date;
+  numberOfGuests?: number;
+}
+
+export interface CancellationResult {
+  booking: Booking;
+  quote: RefundQuote;
+  refunds: Refund[];
+}
+
+export interface GroupBookingOptions {
+  paymentMode?: GroupPaymentMode;
+  paymentMethod?: string;
+  cancellationPolicy?: string;
+  currency?: string;
+}
+
+export interface GroupBookingResult {
+  group: BookingGroup;
+  bookings: Booking[];
+  payments: Payment[];
+}
+
+export interface GroupPaymentOutcome {
+  bookingId: string;
+  paymentId: string;
+  success: boolean;
+}
+
+export interface CheckInResult {
+  booking: Booking;
+  // Set when the guest was checked in to a room housekeeping has not finished with
+  warning?: string;
+}
+
+export interface CheckOutResult extends FolioSettlement {
+  booking: Booking;
+}
+
+export interface ModificationResult {
+  booking: Booking;
+  previousBooking: Booking;
+  priceDifference: number;
+  payment?: Payment;
+  refunds: Refund[];
+}
 
 class BookingService {
   /**
-   * Check if a room is available for the given date range
-   * This method uses locking to prevent race conditions
+   * Check if a room is available for the given date range: no booking holds the room itself
+   * and its type still has a unit free once unassigned bookings are counted.
+   * Pass excludeBookingId to ignore a booking that is being moved
    */
   async checkRoomAvailability(
     roomId: string,
     checkInDate: Date,
-    checkOutDate: Date
+    checkOutDate: Date,
+    excludeBookingId?: string
   ): Promise<boolean> {
     const room = db.getRoomById(roomId);
     if (!room) {
       return false;
     }
 
-    // Get all bookings for this room
-    const roomBookings = db.getBookingsByRoomId(roomId);
-
-    // Check for overlapping bookings
-    const hasOverlap = roomBookings.some(booking => {
-      // Skip cancelled bookings
-      if (booking.status === BookingStatus.CANCELLED) {
-        return false;
-      }
-
-      const bookingCheckIn = new Date(booking.checkInDate);
-      const bookingCheckOut = new Date(booking.checkOutDate);
+    return this.isRoomFree(room, checkInDate, checkOutDate, excludeBookingId) &&
+      inventoryService.getAvailableCount(room.type, checkInDate, checkOutDate, excludeBookingId) > 0;
+  }
 
-      // Check if dates overlap
-      return (
-        (checkInDate >= bookingCheckIn && checkInDate < bookingCheckOut) ||
-        (checkOutDate > bookingCheckIn && checkOutDate <= bookingCheckOut) ||
-        (checkInDate <= bookingCheckIn && checkOutDate >= bookingCheckOut)
-      );
-    });
+  /**
+   * Whether the room is in service, no booking holds it and no maintenance block covers it for any night of the range
+   */
+  private isRoomFree(room: Room, checkInDate: Date, checkOutDate: Date, excludeBookingId?: string): boolean {
+    if (!room.isAvailable) {
+      return false;
+    }
+    const now = new Date();
 
-    return !hasOverlap;
+    // Skip bookings that no longer hold the room, including lapsed holds the sweeper has not reached yet
+    const booked = availabilityIndex.getRoomStays(room.id, checkInDate, checkOutDate).some(booking =>
+      booking.id !== excludeBookingId && inventoryService.holdsInventory(booking, now)
+    );
+    return !booked && inventoryService.getMaintenanceBlocks(checkInDate, checkOutDate, room.id).length === 0;
   }
 
   /**
@@ -58,25 +153,38 @@ class BookingService {
     
     const checkIn = new Date(checkInDate);
     const checkOut = new Date(checkOutDate);
+
+    // Quotes are in the base currency; a requested display currency converts them at today's rate
+    const currency = query.currency ? query.currency.toUpperCase() : undefined;
+    const exchangeRate = currency ? currencyService.getRate(currency) : undefined;
     
-    const allRooms = db.getAllRooms();
     const availableRooms: RoomAvailability[] = [];
+    const occupancy = pricingService.getOccupancyByNight(checkIn, checkOut);
+    const matchingRooms = db.getAllRooms().filter(room => this.matchesQuery(room, roomType, minCapacity, maxPrice));
+    const freeRoomIds = new Set(this.getFreeRooms(matchingRooms, checkIn, checkOut).map(room => room.id));
+    // A room out of order has no date to offer until it is back in service
+    const availableFrom = this.getNextAvailableDates(
+      matchingRooms.filter(room => room.isAvailable && !freeRoomIds.has(room.id)),
+      checkIn,
+      calculateNights(checkIn, checkOut)
+    );
 
-    for (const room of allRooms) {
-      // Apply filters
-      if (roomType && room.type !== roomType) continue;
-      if (minCapacity && room.capacity < minCapacity) continue;
-      if (maxPrice && room.pricePerNight > maxPrice) continue;
-
-      const isAvailable = await this.checkRoomAvailability(room.id, checkIn, checkOut);
+    for (const room of matchingRooms) {
+      const isAvailable = freeRoomIds.has(room.id);
+      const quotedTotal = isAvailable ? pricingService.quote(room, checkIn, checkOut, { occupancy }).total : undefined;
 
       availableRooms.push({
         roomId: room.id,
         roomNumber: room.roomNumber,
         type: room.type,
         isAvailable,
-        availableFrom: isAvailable ? undefined : this.getNextAvailableDate(room.id, checkIn),
-        pricePerNight: room.pricePerNight
+        availableFrom: availableFrom.get(room.id),
+        pricePerNight: room.pricePerNight,
+        quotedTotal,
+        currency,
+        displayTotal: currency && quotedTotal !== undefined
+          ? currencyService.convert(quotedTotal, currency, exchangeRate!)
+          : undefined
       });
     }
 
@@ -84,24 +192,144 @@ class BookingService {
   }
 
   /**
-   * Get the next available date for a room
+   * Nearest windows of the same length that have rooms free, and comparable rooms (the same or a
+   * higher type with enough capacity) for the requested dates ranked by price difference.
+   * Offered when a search finds nothing.
    */
-  private getNextAvailableDate(roomId: string, fromDate: Date): Date | undefined {
-    const roomBookings = db.getBookingsByRoomId(roomId)
-      .filter(b => b.status !== BookingStatus.CANCELLED)
-      .sort((a, b) => new Date(a.checkInDate).getTime() - new Date(b.checkInDate).getTime());
+  async getSuggestions(query: AvailabilityQuery): Promise<AvailabilitySuggestions> {
+    const { roomType, minCapacity, maxPrice } = query;
+    const checkIn = new Date(query.checkInDate);
+    const checkOut = new Date(query.checkOutDate);
+    const nights = calculateNights(checkIn, checkOut);
+    const { suggestionSearchDays, maxSuggestions } = config.booking;
+
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
 
-    for (const booking of roomBookings) {
-      if (new Date(booking.checkOutDate) > fromDate) {
-        return new Date(booking.checkOutDate);
+    const allRooms = db.getAllRooms();
+    const matchingRooms = allRooms.filter(room => this.matchesQuery(room, roomType, minCapacity, maxPrice));
+
+    // Nearest shifts first, earlier before later on a tie
+    const alternativeDates: AlternativeDates[] = [];
+    for (let distance = 1; distance <= suggestionSearchDays && alternativeDates.length < maxSuggestions; distance++) {
+      for (const shiftDays of [-distance, distance]) {
+        const shiftedCheckIn = addDays(checkIn, shiftDays);
+        const shiftedCheckOut = addDays(shiftedCheckIn, nights);
+        if (shiftedCheckIn < today || alternativeDates.length >= maxSuggestions) continue;
+
+        const freeRooms = this.getFreeRooms(matchingRooms, shiftedCheckIn, shiftedCheckOut);
+        if (freeRooms.length === 0) continue;
+
+        const occupancy = pricingService.getOccupancyByNight(shiftedCheckIn, shiftedCheckOut);
+        alternativeDates.push({
+          checkInDate: shiftedCheckIn,
+          checkOutDate: shiftedCheckOut,
+          shiftDays,
+          availableRooms: freeRooms.length,
+          lowestQuotedTotal: Math.min(
+            ...freeRooms.map(room => pricingService.quote(room, shiftedCheckIn, shiftedCheckOut, { occupancy }).total)
+          )
+        });
       }
     }
 
-    return undefined;
+    // Priced against the cheapest room the guest searched for, available or not, else their budget
+    const occupancy = pricingService.getOccupancyByNight(checkIn, checkOut);
+    const referenceRoom = [...matchingRooms].sort((a, b) => a.pricePerNight - b.pricePerNight)[0] ||
+      (roomType ? inventoryService.getReferenceRoom(roomType) : undefined);
+    const referenceTotal = referenceRoom
+      ? pricingService.quote(referenceRoom, checkIn, checkOut, { occupancy }).total
+      : (maxPrice || 0) * nights;
+
+    const typeOrder = Object.values(RoomType);
+    const comparableRooms = allRooms.filter(room =>
+      (!roomType || typeOrder.indexOf(room.type) >= typeOrder.indexOf(roomType)) &&
+      room.capacity >= (minCapacity || 1)
+    );
+
+    const alternativeRooms: AlternativeRoom[] = this.getFreeRooms(comparableRooms, checkIn, checkOut)
+      .map(room => {
+        const quotedTotal = pricingService.quote(room, checkIn, checkOut, { occupancy }).total;
+        return {
+          roomId: room.id,
+          roomNumber: room.roomNumber,
+          type: room.type,
+          capacity: room.capacity,
+          pricePerNight: room.pricePerNight,
+          quotedTotal,
+          priceDifference: roundCurrency(quotedTotal - referenceTotal)
+        };
+      })
+      .sort((a, b) => Math.abs(a.priceDifference) - Math.abs(b.priceDifference) || a.quotedTotal - b.quotedTotal)
+      .slice(0, maxSuggestions);
+
+    return { alternativeDates, alternativeRooms };
+  }
+
+  private matchesQuery(room: Room, roomType?: RoomType, minCapacity?: number, maxPrice?: number): boolean {
+    return (!roomType || room.type === roomType) &&
+      (!minCapacity || room.capacity >= minCapacity) &&
+      (!maxPrice || room.pricePerNight <= maxPrice);
   }
 
   /**
-   * Create a booking with concurrency control
+   * Rooms free for a whole range. Each type's inventory is counted once, and only if one of its rooms is free.
+   */
+  private getFreeRooms(rooms: Room[], checkInDate: Date, checkOutDate: Date): Room[] {
+    const typeAvailable = new Map<RoomType, boolean>();
+    return rooms.filter(room => {
+      if (!this.isRoomFree(room, checkInDate, checkOutDate)) {
+        return false;
+      }
+      if (!typeAvailable.has(room.type)) {
+        typeAvailable.set(room.type, inventoryService.getAvailableCount(room.type, checkInDate, checkOutDate) > 0);
+      }
+      return typeAvailable.get(room.type)!;
+    });
+  }
+
+  /**
+   * Earliest check-in after fromDate from which each room itself is free for the given number of
+   * nights, stepping past back-to-back bookings and maintenance blocks. Rooms that are free and
+   * only unavailable because their type is sold out are left out.
+   */
+  private getNextAvailableDates(rooms: Room[], fromDate: Date, nights: number): Map<string, Date> {
+    const now = new Date();
+    const holdsRoom = (booking: Booking) => inventoryService.holdsInventory(booking, now);
+
+    // Blocks are read once for all the rooms rather than once per room
+    const blocksByRoom = new Map<string, MaintenanceBlock[]>();
+    db.getAllMaintenanceBlocks().forEach(block => {
+      if (!blocksByRoom.has(block.roomId)) {
+        blocksByRoom.set(block.roomId, []);
+      }
+      blocksByRoom.get(block.roomId)!.push(block);
+    });
+
+    const availableFrom = new Map<string, Date>();
+    for (const room of rooms) {
+      const blocks = blocksByRoom.get(room.id) || [];
+      let checkIn = new Date(fromDate);
+      for (;;) {
+        // The index steps past back-to-back bookings in one pass; a block in the way moves the search past it
+        checkIn = availabilityIndex.findRoomGap(room.id, checkIn, nights, holdsRoom);
+        const checkOut = addDays(checkIn, nights);
+        const block = blocks.find(candidate =>
+          new Date(candidate.startDate) < checkOut && new Date(candidate.endDate) > checkIn
+        );
+        if (!block) break;
+        checkIn = new Date(block.endDate);
+      }
+      if (checkIn > fromDate) {
+        availableFrom.set(room.id, checkIn);
+      }
+    }
+    return availableFrom;
+  }
+
+  /**
+   * Create a booking for a specific room with concurrency control
+   * Throws LockTimeoutError (503) if the room stays locked past the timeout
    */
   async createBooking(
     guestId: string,
@@ -109,195 +337,1111 @@ class BookingService {
     checkInDate: Date,
     checkOutDate: Date,
     numberOfGuests: number,
-    specialRequests?: string
+    options: BookingOptions = {}
   ): Promise<{ booking: Booking; payment: Payment } | null> {
-    // Acquire lock for the room to prevent double-booking
-    const lockKey = `room-booking-${roomId}`;
-    const lockAcquired = await db.acquireLock(lockKey, 10000);
-
-    if (!lockAcquired) {
-      throw new Error('Unable to process booking at this time. Please try again.');
+    const room = db.getRoomById(roomId);
+    if (!room) {
+      throw new AppError('Room not found', 404);
     }
 
-    try {
-      // Double-check availability with lock held
-      const isAvailable = await this.checkRoomAvailability(roomId, checkInDate, checkOutDate);
+    return this.reserve(guestId, room.type, room, checkInDate, checkOutDate, numberOfGuests, options);
+  }
 
-      if (!isAvailable) {
-        return null;
-      }
+  /**
+   * Create a booking for a room type; a room of that type is assigned later, by check-in at the latest
+   */
+  async createTypeBooking(
+    guestId: string,
+    roomType: RoomType,
+    checkInDate: Date,
+    checkOutDate: Date,
+    numberOfGuests: number,
+    options: BookingOptions = {}
+  ): Promise<{ booking: Booking; payment: Payment } | null> {
+    return this.reserve(guestId, roomType, undefined, checkInDate, checkOutDate, numberOfGuests, options);
+  }
 
-      const room = db.getRoomById(roomId);
-      if (!room) {
-        throw new Error('Room not found');
+  /**
+   * Book several rooms for a group under one group ID. Either every room is booked or none is:
+   * the locks for all the rooms and room types are held together while availability is checked.
+   * Returns null if any room is unavailable.
+   */
+  async createGroupBooking(
+    organizerId: string,
+    name: string,
+    rooms: GroupRoomRequest[],
+    checkInDate: Date,
+    checkOutDate: Date,
+    options: GroupBookingOptions = {}
+  ): Promise<GroupBookingResult | null> {
+    const { paymentMode = GroupPaymentMode.SINGLE, paymentMethod = DEFAULT_PAYMENT_METHOD } = options;
+
+    const requested = rooms.map(request => {
+      const room = request.roomId ? db.getRoomById(request.roomId) : undefined;
+      if (request.roomId && !room) {
+        throw new AppError(`Room not found: ${request.roomId}`, 404);
       }
+      return { request, room, roomType: room ? room.type : request.roomType! };
+    });
 
-      // Validate capacity
-      if (numberOfGuests > room.capacity) {
-        throw new Error(`Room capacity exceeded. Maximum capacity: ${room.capacity}`);
+    const roomIds = requested.filter(({ room }) => room).map(({ room }) => room!.id);
+    if (new Set(roomIds).size !== roomIds.length) {
+      throw new AppError('A room can only be booked once in a group', 400);
+    }
+
+    const resources: string[] = [];
+    requested.forEach(({ room, roomType }) => {
+      resources.push(lockKeys.roomType(roomType));
+      if (room) resources.push(lockKeys.room(room.id));
+    });
+
+    return lockManager.withLock(resources, async () => {
+      // Every named room must be free, and every type needs a unit for each of the group's rooms of that type
+      for (const { room } of requested) {
+        if (room && !(await this.checkRoomAvailability(room.id, checkInDate, checkOutDate))) {
+          return null;
+        }
       }
 
-      // Calculate total price
-      const nights = Math.ceil(
-        (checkOutDate.getTime() - checkInDate.getTime()) / (1000 * 60 * 60 * 24)
+      const unitsByType = new Map<RoomType, number>();
+      requested.forEach(({ roomType }) => unitsByType.set(roomType, (unitsByType.get(roomType) || 0) + 1));
+      const soldOut = Array.from(unitsByType.entries()).some(([roomType, units]) =>
+        inventoryService.getAvailableCount(roomType, checkInDate, checkOutDate) < units
       );
-      const totalPrice = room.pricePerNight * nights;
+      if (soldOut) {
+        return null;
+      }
 
-      // Create booking
-      const booking: Booking = {
+      const group: BookingGroup = {
         id: uuidv4(),
-        guestId,
-        roomId,
-        checkInDate,
-        checkOutDate,
-        numberOfGuests,
-        totalPrice,
-        status: BookingStatus.PENDING,
-        specialRequests,
+        organizerId,
+        name,
+        paymentMode,
         createdAt: new Date(),
         updatedAt: new Date()
       };
 
-      // Create payment record
-      const payment: Payment = {
-        id: uuidv4(),
-        bookingId: booking.id,
-        amount: totalPrice,
-        currency: 'USD',
-        status: PaymentStatus.PENDING,
-        paymentMethod: 'CREDIT_CARD',
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
+      const bookings = requested.map(({ request, room, roomType }): Booking => ({
+        ...this.buildBooking(organizerId, roomType, room, checkInDate, checkOutDate, request.numberOfGuests, {
+          specialRequests: request.specialRequests,
+          cancellationPolicy: options.cancellationPolicy,
+          currency: options.currency
+        }).booking,
+        groupId: group.id,
+        occupantName: request.occupantName
+      }));
+
+      // Save the group, its bookings and their payment records together
+      const payments = db.transaction(() => {
+        db.createBookingGroup(group);
+        return bookings.map((booking, index) => {
+          db.createBooking(booking);
+          bookingStateMachine.recordCreation(booking, {
+            actorId: organizerId,
+            reason: `Booked with group ${name}`
+          });
+
+          const roomPaymentMethod = paymentMode === GroupPaymentMode.SPLIT
+            ? requested[index].request.paymentMethod || paymentMethod
+            : paymentMethod;
+          return paymentService.createPayment(booking.id, booking.totalPrice, roomPaymentMethod, 'Room charge');
+        });
+      });
+
+      return { group, bookings, payments };
+    }, 10000);
+  }
+
+  private async reserve(
+    guestId: string,
+    roomType: RoomType,
+    room: Room | undefined,
+    checkInDate: Date,
+    checkOutDate: Date,
+    numberOfGuests: number,
+    options: BookingOptions
+  ): Promise<{ booking: Booking; payment: Payment } | null> {
+    const { paymentMethod = DEFAULT_PAYMENT_METHOD } = options;
+
+    // Hold the room and room type locks so concurrent requests cannot double-book the room or
+    // oversell the type, and the promo code lock so concurrent redemptions cannot exceed its limits
+    const promoCode = options.promoCode ? promoService.normalizeCode(options.promoCode) : undefined;
+    const resources = [lockKeys.roomType(roomType)];
+    if (room) resources.push(lockKeys.room(room.id));
+    if (promoCode) resources.push(lockKeys.promoCode(promoCode));
 
-      // Save to database
-      db.createBooking(booking);
-      db.createPayment(payment);
+    return lockManager.withLock(resources, async () => {
+      // Double-check availability with lock held
+      const isAvailable = room
+        ? await this.checkRoomAvailability(room.id, checkInDate, checkOutDate)
+        : inventoryService.getAvailableCount(roomType, checkInDate, checkOutDate) > 0;
+
+      if (!isAvailable) {
+        return null;
+      }
+
+      const { booking, promo } = this.buildBooking(
+        guestId,
+        roomType,
+        room,
+        checkInDate,
+        checkOutDate,
+        numberOfGuests,
+        options
+      );
+
+      // Save booking and payment record together
+      const payment = db.transaction(() => {
+        db.createBooking(booking);
+        bookingStateMachine.recordCreation(booking, {
+          actorId: guestId,
+          reason: options.hold ? 'Room held pending payment' : 'Booking created'
+        });
+        if (promo) {
+          promoService.recordRedemption(promo, booking, this.discountTotal(booking));
+        }
+        return paymentService.createPayment(booking.id, booking.totalPrice, paymentMethod, 'Room charge');
+      });
 
       return { booking, payment };
-    } finally {
-      // Always release the lock
-      db.releaseLock(lockKey);
+    }, 10000);
+  }
+
+  // Price a stay and build its booking record. The caller holds the locks, has checked
+  // availability and saves the booking.
+  private buildBooking(
+    guestId: string,
+    roomType: RoomType,
+    room: Room | undefined,
+    checkInDate: Date,
+    checkOutDate: Date,
+    numberOfGuests: number,
+    options: BookingOptions
+  ): { booking: Booking; promo?: PromoCode } {
+    // Snapshot the exchange rate now so later rate changes never alter what the guest agreed to pay
+    const currency = (options.currency || currencyService.getBaseCurrency()).toUpperCase();
+    const exchangeRate = currencyService.getRate(currency);
+
+    // Type-level bookings are priced against the cheapest room of the type
+    const pricedRoom = room || inventoryService.getReferenceRoom(roomType);
+    if (!pricedRoom) {
+      throw new AppError(`No ${roomType} rooms exist`, 404);
+    }
+
+    // Validate capacity; a type-level booking must fit whichever room it is given
+    const maxGuests = room ? room.capacity : inventoryService.getGuaranteedCapacity(roomType);
+    if (numberOfGuests > maxGuests) {
+      throw new Error(`Room capacity exceeded. Maximum capacity: ${maxGuests}`);
     }
+
+    const cancellationPolicy = cancellationPolicyService.resolvePolicy(pricedRoom, options.cancellationPolicy);
+
+    const promo = options.promoCode
+      ? promoService.getRedeemablePromo(promoService.normalizeCode(options.promoCode), pricedRoom, guestId)
+      : undefined;
+
+    // Calculate total price including discounts, taxes and fees
+    const { lineItems, totalPrice } = pricingService.priceStay(
+      pricedRoom,
+      checkInDate,
+      checkOutDate,
+      numberOfGuests,
+      { promoCode: promo }
+    );
+
+    const booking: Booking = {
+      id: uuidv4(),
+      guestId,
+      roomId: room ? room.id : undefined,
+      roomType,
+      checkInDate,
+      checkOutDate,
+      numberOfGuests,
+      totalPrice,
+      lineItems,
+      currency,
+      exchangeRate,
+      promoCode: promo ? promo.code : undefined,
+      holdExpiresAt: options.hold
+        ? new Date(Date.now() + (options.holdMinutes || config.booking.holdMinutes) * 60 * 1000)
+        : undefined,
+      status: BookingStatus.PENDING,
+      cancellationPolicy: cancellationPolicy.code,
+      specialRequests: options.specialRequests,
+      earlyCheckIn: options.earlyCheckIn ? StayExtensionStatus.REQUESTED : undefined,
+      lateCheckOut: options.lateCheckOut ? StayExtensionStatus.REQUESTED : undefined,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    return { booking, promo };
   }
 
   /**
-   * Process payment simulation
+   * Authorize and capture a pending payment through the configured gateway, charging paymentMethod instead if given
    */
-  async processPayment(paymentId: string): Promise<boolean> {
+  async processPayment(paymentId: string, paymentMethod?: string): Promise<boolean> {
     const payment = db.getPaymentById(paymentId);
     if (!payment) {
       throw new Error('Payment not found');
     }
 
-    // Update payment status to processing
-    db.updatePayment(paymentId, { status: PaymentStatus.PROCESSING });
+    // Bookings that gave up their room, offered to the waitlist once the lock is released
+    const released: Booking[] = [];
+    try {
+      return await lockManager.withLock(lockKeys.booking(payment.bookingId), async () => {
+        // Re-check under the lock; the sweeper may have expired the hold in the meantime
+        const booking = db.getBookingById(payment.bookingId)!;
+        if (inventoryService.isLapsedHold(booking, new Date())) {
+          this.expireHold(booking.id);
+          released.push(booking);
+          throw new AppError('The hold on this room has expired', 409);
+        }
+        if (booking.status !== BookingStatus.PENDING) {
+          throw new AppError(`Cannot take payment for a booking that is ${booking.status}`, 409);
+        }
+        if (paymentMethod) {
+          db.updatePayment(paymentId, { paymentMethod });
+        }
 
-    // Simulate payment processing delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
+        let processed: Payment;
+        try {
+          processed = await paymentService.capture(paymentId);
+        } catch (error) {
+          const failed = db.getPaymentById(paymentId)!;
+          if (failed.status === PaymentStatus.FAILED && this.handleFailedPayment(booking, failed, errorMessage(error))) {
+            released.push(booking);
+          }
+          throw error;
+        }
 
-    // Simulate payment success (90% success rate)
-    const success = Math.random() > 0.1;
+        if (processed.status !== PaymentStatus.COMPLETED) {
+          if (this.handleFailedPayment(booking, processed, processed.failureReason || 'declined')) {
+            released.push(booking);
+          }
+          return false;
+        }
 
-    if (success) {
-      // Update payment
-      db.updatePayment(paymentId, {
-        status: PaymentStatus.COMPLETED,
-        transactionId: `TXN-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        paidAt: new Date()
+        // Update booking status
+        db.transaction(() => {
+          bookingStateMachine.transition(payment.bookingId, BookingStatus.CONFIRMED, {
+            actorId: SYSTEM_ACTOR,
+            reason: 'Payment completed'
+          });
+          waitlistService.closeOffer(payment.bookingId, WaitlistStatus.BOOKED);
+        });
+        return true;
       });
+    } finally {
+      await this.offerAllToWaitlist(released);
+    }
+  }
 
-      // Update booking status
-      const booking = db.getBookingById(payment.bookingId);
-      if (booking) {
-        db.updateBooking(booking.id, { status: BookingStatus.CONFIRMED });
-      }
+  /**
+   * Pay for a held room. The payment method may be supplied now if the guest did not give one when holding.
+   */
+  async confirmHold(bookingId: string, paymentMethod?: string): Promise<{ booking: Booking; payment: Payment; success: boolean }> {
+    const booking = db.getBookingById(bookingId);
+    if (!booking) {
+      throw new Error('Booking not found');
+    }
+
+    if (!booking.holdExpiresAt) {
+      throw new AppError('Booking is not a hold', 409);
+    }
+
+    const payment = paymentService.getPayments(bookingId).find(p => p.status === PaymentStatus.PENDING);
+    if (!payment) {
+      throw new AppError(`Cannot confirm a hold that is ${booking.status}`, 409);
+    }
+
+    const success = await this.processPayment(payment.id, paymentMethod);
 
-      return true;
-    } else {
-      // Update payment status to failed
-      db.updatePayment(paymentId, { status: PaymentStatus.FAILED });
+    return {
+      booking: db.getBookingById(bookingId)!,
+      payment: db.getPaymentById(payment.id)!,
+      success
+    };
+  }
+
+  /**
+   * Take payment for a new group booking. A single group payment is one charge for every room:
+   * all rooms are confirmed if it succeeds and all are cancelled if it fails. Split payments
+   * charge each room separately and confirm or cancel each room on its own.
+   */
+  async processGroupPayment(groupId: string): Promise<GroupPaymentOutcome[]> {
+    const group = db.getBookingGroupById(groupId);
+    if (!group) {
+      throw new AppError('Group not found', 404);
+    }
+
+    const pending = db.getBookingsByGroupId(groupId)
+      .map(booking => ({
+        booking,
+        payment: paymentService.getPayments(booking.id).find(payment => payment.status === PaymentStatus.PENDING)
+      }))
+      .filter((entry): entry is { booking: Booking; payment: Payment } => entry.payment !== undefined);
 
-      // Cancel the booking
-      const booking = db.getBookingById(payment.bookingId);
-      if (booking) {
-        db.updateBooking(booking.id, { status: BookingStatus.CANCELLED });
+    if (pending.length === 0) {
+      throw new AppError('No rooms in this group are awaiting payment', 409);
+    }
+
+    if (group.paymentMode === GroupPaymentMode.SPLIT) {
+      const outcomes: GroupPaymentOutcome[] = [];
+      for (const { booking, payment } of pending) {
+        let success: boolean;
+        try {
+          success = await this.processPayment(payment.id);
+        } catch {
+          // A failed room is cancelled by processPayment; the other rooms are still charged
+          success = false;
+        }
+        outcomes.push({ bookingId: booking.id, paymentId: payment.id, success });
       }
+      return outcomes;
+    }
 
-      return false;
+    const released: Booking[] = [];
+    try {
+      return await lockManager.withLock(pending.map(({ booking }) => lockKeys.booking(booking.id)), async () => {
+        // Re-check under the locks
+        const bookings = pending.map(({ booking }) => db.getBookingById(booking.id)!);
+        const notPending = bookings.find(booking => booking.status !== BookingStatus.PENDING);
+        if (notPending) {
+          throw new AppError(`Cannot take payment for a booking that is ${notPending.status}`, 409);
+        }
+
+        let processed: Payment[];
+        try {
+          processed = await paymentService.captureTogether(pending.map(({ payment }) => payment.id), groupId);
+        } catch (error) {
+          bookings.forEach((booking, index) => {
+            const failed = db.getPaymentById(pending[index].payment.id)!;
+            if (failed.status === PaymentStatus.FAILED && this.handleFailedPayment(booking, failed, errorMessage(error))) {
+              released.push(booking);
+            }
+          });
+          throw error;
+        }
+
+        const success = processed.every(payment => payment.status === PaymentStatus.COMPLETED);
+        bookings.forEach((booking, index) => {
+          if (success) {
+            bookingStateMachine.transition(booking.id, BookingStatus.CONFIRMED, {
+              actorId: SYSTEM_ACTOR,
+              reason: 'Group payment completed'
+            });
+          } else if (this.handleFailedPayment(booking, processed[index], processed[index].failureReason || 'declined')) {
+            released.push(booking);
+          }
+        });
+
+        return bookings.map((booking, index) => ({ bookingId: booking.id, paymentId: processed[index].id, success }));
+      });
+    } finally {
+      await this.offerAllToWaitlist(released);
     }
   }
 
   /**
-   * Cancel a booking
+   * Expire every hold whose time is up so its room becomes available again. Returns how many were expired.
    */
-  async cancelBooking(bookingId: string): Promise<boolean> {
-    const booking = db.getBookingById(bookingId);
-    if (!booking) {
-      throw new Error('Booking not found');
-    }
+  async expireHolds(now: Date = new Date()): Promise<number> {
+    const lapsed = db.getAllBookings().filter(booking => inventoryService.isLapsedHold(booking, now));
 
-    if (booking.status === BookingStatus.CANCELLED) {
-      throw new Error('Booking is already cancelled');
+    let expired = 0;
+    for (const booking of lapsed) {
+      const didExpire = await lockManager.withLock(lockKeys.booking(booking.id), async () => {
+        // A payment may have completed while we waited for the lock
+        const current = db.getBookingById(booking.id);
+        if (!current || !inventoryService.isLapsedHold(current, now)) {
+          return false;
+        }
+        this.expireHold(booking.id);
+        return true;
+      });
+      if (didExpire) {
+        expired++;
+        await this.offerToWaitlist(booking);
+      }
     }
 
-    if (booking.status === BookingStatus.CHECKED_IN || booking.status === BookingStatus.CHECKED_OUT) {
-      throw new Error('Cannot cancel a booking that has already been checked in or checked out');
+    return expired;
+  }
+
+  /**
+   * Mark confirmed bookings NO_SHOW once their check-in cutoff has passed: the no-show penalty is
+   * kept, the rest refunded, the room released to the waitlist and the guest told. Returns how
+   * many were processed.
+   */
+  async processNoShows(now: Date = new Date()): Promise<number> {
+    const overdue = db.getAllBookings().filter(booking => this.isOverdueArrival(booking, now));
+
+    let processed = 0;
+    for (const booking of overdue) {
+      try {
+        const result = await lockManager.withLock(lockKeys.booking(booking.id), async () => {
+          // The guest may have checked in while we waited for the lock
+          const current = db.getBookingById(booking.id);
+          if (!current || !this.isOverdueArrival(current, now)) {
+            return undefined;
+          }
+          return this.markNoShow(current);
+        });
+        if (!result) continue;
+
+        processed++;
+        await this.offerToWaitlist(result.booking);
+
+        const guest = db.getUserById(result.booking.guestId) as Guest | undefined;
+        const room = result.booking.roomId
+          ? db.getRoomById(result.booking.roomId)
+          : inventoryService.getReferenceRoom(result.booking.roomType);
+        if (guest && room) {
+          await emailService.sendNoShowNotice({ booking: result.booking, guest, room, refund: result.quote });
+        }
+      } catch (error) {
+        // A failed refund leaves the booking CONFIRMED so the next sweep tries again
+        console.error(`No-show processing error for booking ${booking.id}:`, error);
+      }
     }
 
-    // Update booking status
-    db.updateBooking(bookingId, { status: BookingStatus.CANCELLED });
+    return processed;
+  }
+
+  private isOverdueArrival(booking: Booking, now: Date): boolean {
+    if (booking.status !== BookingStatus.CONFIRMED) return false;
+
+    const cutoff = atTimeOfDay(booking.checkInDate, config.booking.checkInTime);
+    cutoff.setHours(cutoff.getHours() + config.booking.noShowCutoffHours);
+    return now > cutoff;
+  }
+
+  // Caller must hold the booking lock
+  private async markNoShow(booking: Booking): Promise<CancellationResult> {
+    const { quote, refunds } = await this.settleRefund(
+      booking,
+      `No-show under ${booking.cancellationPolicy} policy`,
+      paidAmount => cancellationPolicyService.calculateNoShowRefund(booking, paidAmount)
+    );
+
+    const noShow = bookingStateMachine.transition(booking.id, BookingStatus.NO_SHOW, {
+      actorId: SYSTEM_ACTOR,
+      reason: 'Guest did not arrive'
+    });
+    return { booking: noShow, quote, refunds };
+  }
+
+  // Caller must hold the booking lock
+  private expireHold(bookingId: string): void {
+    db.transaction(() => {
+      paymentService.getPayments(bookingId)
+        .filter(payment => payment.status === PaymentStatus.PENDING)
+        .forEach(payment => db.updatePayment(payment.id, { status: PaymentStatus.FAILED, failureReason: 'hold_expired' }));
+
+      bookingStateMachine.transition(bookingId, BookingStatus.EXPIRED, {
+        actorId: SYSTEM_ACTOR,
+        reason: 'Hold expired before payment'
+      });
+      waitlistService.closeOffer(bookingId, WaitlistStatus.EXPIRED);
+    });
+  }
+
+  /**
+   * Offer inventory released by a cancelled or lapsed booking to waitlisted guests, first come
+   * first served. Each offer is a hold, so offers stop once the released units are taken again.
+   */
+  private async offerToWaitlist(released: Booking): Promise<void> {
+    const roomType = inventoryService.inventoryTypeOf(released);
+
+    await lockManager.withLock(lockKeys.waitlist(roomType), async () => {
+      const entries = waitlistService.getWaiting(roomType, new Date(released.checkInDate), new Date(released.checkOutDate));
 
-    // Process refund if payment was completed
-    const payment = db.getPaymentByBookingId(bookingId);
-    if (payment && payment.status === PaymentStatus.COMPLETED) {
-      db.updatePayment(payment.id, { status: PaymentStatus.REFUNDED });
+      for (const entry of entries) {
+        try {
+          const offer = await this.createTypeBooking(
+            entry.guestId,
+            entry.roomType,
+            new Date(entry.checkInDate),
+            new Date(entry.checkOutDate),
+            entry.numberOfGuests,
+            { hold: true, holdMinutes: config.booking.waitlistOfferMinutes }
+          );
+          if (offer) {
+            await waitlistService.recordOffer(entry, offer.booking);
+          }
+        } catch (error) {
+          // The entry can no longer be booked as requested, e.g. the type's rooms shrank; it keeps waiting
+          console.error('Waitlist offer error:', error);
+        }
+      }
+    });
+  }
+
+  private async offerAllToWaitlist(released: Booking[]): Promise<void> {
+    // Offers send email, so callers make them only after releasing the booking lock
+    for (const booking of released) {
+      await this.offerToWaitlist(booking);
+    }
+  }
+
+  /**
+   * Cancel a booking whose initial payment failed. A held room stays held with a fresh
+   * pending payment so the guest can retry with another card until the hold lapses.
+   * Returns whether the booking was cancelled and its room released.
+   *
+   * Caller must hold the booking lock
+   */
+  private handleFailedPayment(booking: Booking, payment: Payment, failureReason: string): boolean {
+    if (booking.holdExpiresAt) {
+      paymentService.createPayment(booking.id, payment.amount, payment.paymentMethod, payment.description);
+      return false;
     }
 
+    bookingStateMachine.transition(booking.id, BookingStatus.CANCELLED, {
+      actorId: SYSTEM_ACTOR,
+      reason: `Payment failed: ${failureReason}`
+    });
     return true;
   }
 
   /**
-   * Check in a guest
+   * Change the dates, room or guest count of a confirmed booking.
+   * Availability is re-checked with the booking itself excluded and the price
+   * difference is charged or refunded before the booking is updated.
    */
-  async checkIn(bookingId: string): Promise<boolean> {
-    const booking = db.getBookingById(bookingId);
-    if (!booking) {
+  async modifyBooking(bookingId: string, changes: BookingChanges): Promise<ModificationResult> {
+    const existing = db.getBookingById(bookingId);
+    if (!existing) {
       throw new Error('Booking not found');
     }
+    const { resources } = this.planModification(existing, changes);
+
+    const result = await lockManager.withLock(resources, async () => {
+      // Re-read under the lock and work out the target from the fresh copy
+      const booking = db.getBookingById(bookingId);
+      if (!booking) {
+        throw new Error('Booking not found');
+      }
+      const { targetRoomId, targetRoom, targetType, resources: needed } = this.planModification(booking, changes);
+      if (needed.some(resource => !resources.includes(resource))) {
+        return undefined;
+      }
+
+      if (booking.status !== BookingStatus.CONFIRMED) {
+        throw new AppError('Only confirmed bookings can be modified', 409);
+      }
+
+      const room = targetRoom || inventoryService.getReferenceRoom(targetType);
+      if (!room) {
+        throw new Error('Room not found');
+      }
+
+      const checkInDate = changes.checkInDate || new Date(booking.checkInDate);
+      const checkOutDate = changes.checkOutDate || new Date(booking.checkOutDate);
+      const numberOfGuests = changes.numberOfGuests || booking.numberOfGuests;
 
-    if (booking.status !== BookingStatus.CONFIRMED) {
-      throw new Error('Only confirmed bookings can be checked in');
+      if (checkOutDate <= checkInDate) {
+        throw new AppError('Check-out date must be after check-in date', 400);
+      }
+
+      if (calculateNights(checkInDate, checkOutDate) > config.booking.maxBookingDays) {
+        throw new AppError(`Maximum booking duration is ${config.booking.maxBookingDays} days`, 400);
+      }
+
+      // Validate capacity
+      const maxGuests = targetRoom ? targetRoom.capacity : inventoryService.getGuaranteedCapacity(targetType);
+      if (numberOfGuests > maxGuests) {
+        throw new AppError(`Room capacity exceeded. Maximum capacity: ${maxGuests}`, 400);
+      }
+
+      const isAvailable = targetRoom
+        ? await this.checkRoomAvailability(targetRoom.id, checkInDate, checkOutDate, bookingId)
+        : inventoryService.getAvailableCount(targetType, checkInDate, checkOutDate, bookingId) > 0;
+      if (!isAvailable) {
+        throw new AppError('Room is not available for the selected dates', 409);
+      }
+
+      // A promo redeemed at booking time keeps applying to the changed stay where the room type allows.
+      // Without the code the discount cannot be worked out again, so refuse rather than reprice without it.
+      const promo = booking.promoCode ? promoService.getByCode(booking.promoCode) : undefined;
+      if (booking.promoCode && !promo) {
+        throw new AppError(
+          `Promo code ${booking.promoCode} applied to this booking no longer exists, so the booking cannot be repriced`,
+          409
+        );
+      }
+
+      const { lineItems, totalPrice } = pricingService.priceStay(
+        room,
+        checkInDate,
+        checkOutDate,
+        numberOfGuests,
+        { excludeBookingId: bookingId, promoCode: promo }
+      );
+      const priceDifference = roundCurrency(totalPrice - booking.totalPrice);
+
+      // Settle the difference before touching the booking so a declined charge leaves it unchanged
+      let payment: Payment | undefined;
+      let refunds: Refund[] = [];
+      if (priceDifference > 0) {
+        const original = db.getPaymentByBookingId(bookingId);
+        payment = await paymentService.charge(
+          bookingId,
+          priceDifference,
+          original ? original.paymentMethod : DEFAULT_PAYMENT_METHOD,
+          'Booking modification'
+        );
+        if (payment.status !== PaymentStatus.COMPLETED) {
+          throw new AppError(`Payment for the booking change failed: ${payment.failureReason}`, 402);
+        }
+      } else if (priceDifference < 0) {
+        refunds = await paymentService.refund(bookingId, -priceDifference, 'Booking modification');
+      }
+
+      // Early check-in and late check-out were approved for the old room and dates
+      const reopen = (status: StayExtensionStatus | undefined, previous: Date, next: Date) =>
+        status === StayExtensionStatus.APPROVED &&
+        (targetRoomId !== booking.roomId || new Date(previous).getTime() !== next.getTime())
+          ? StayExtensionStatus.REQUESTED
+          : status;
+
+      const updated = db.transaction(() => {
+        const changed = db.updateBooking(bookingId, {
+          roomId: targetRoomId,
+          roomType: targetType,
+          roomAutoAssigned: changes.roomId ? false : booking.roomAutoAssigned,
+          checkInDate,
+          checkOutDate,
+          numberOfGuests,
+          totalPrice,
+          lineItems,
+          earlyCheckIn: reopen(booking.earlyCheckIn, booking.checkInDate, checkInDate),
+          lateCheckOut: reopen(booking.lateCheckOut, booking.checkOutDate, checkOutDate)
+        }) as Booking;
+
+        const redemption = db.getPromoRedemptionByBookingId(bookingId);
+        if (redemption) {
+          db.updatePromoRedemption(redemption.id, { discountAmount: this.discountTotal(changed) });
+        }
+        return changed;
+      });
+
+      return { booking: updated, previousBooking: booking, priceDifference, payment, refunds };
+    }, 10000);
+
+    // The booking was moved to another room or type while we waited, so take the locks it needs now
+    return result || this.modifyBooking(bookingId, changes);
+  }
+
+  /**
+   * Room and type a modification moves the booking to, and the locks it needs: the booking and
+   * both its current and target room and type
+   */
+  private planModification(
+    booking: Booking,
+    changes: BookingChanges
+  ): { targetRoomId?: string; targetRoom?: Room; targetType: RoomType; resources: string[] } {
+    // Unassigned type-level bookings stay unassigned unless a room is given
+    const targetRoomId = changes.roomId || booking.roomId;
+    const targetRoom = targetRoomId ? db.getRoomById(targetRoomId) : undefined;
+    if (targetRoomId && !targetRoom) {
+      throw new Error('Room not found');
     }
 
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const checkInDate = new Date(booking.checkInDate);
-    checkInDate.setHours(0, 0, 0, 0);
+    const targetType = targetRoom ? targetRoom.type : booking.roomType;
+    const resources = [
+      lockKeys.booking(booking.id),
+      lockKeys.roomType(inventoryService.inventoryTypeOf(booking)),
+      lockKeys.roomType(targetType)
+    ];
+    if (booking.roomId) resources.push(lockKeys.room(booking.roomId));
+    if (targetRoomId) resources.push(lockKeys.room(targetRoomId));
+
+    return { targetRoomId, targetRoom, targetType, resources };
+  }
 
-    if (today < checkInDate) {
-      throw new Error('Check-in date has not arrived yet');
+  /**
+   * Refund what a quote on the amount paid allows. Refunds already issued under the same reason
+   * by an earlier attempt that failed partway count as paid and are not refunded again, so a
+   * retry finishes the refund instead of re-quoting on what is left.
+   */
+  private async settleRefund(
+    booking: Booking,
+    reason: string,
+    quoteFor: (paidAmount: number) => RefundQuote
+  ): Promise<{ quote: RefundQuote; refunds: Refund[] }> {
+    const issued = paymentService.getRefundedAmount(booking.id, reason);
+    const quote = quoteFor(roundCurrency(paymentService.getPaidAmount(booking.id) + issued));
+    const outstanding = roundCurrency(quote.refundAmount - issued);
+    const refunds = outstanding > 0 ? await paymentService.refund(booking.id, outstanding, reason) : [];
+    return { quote, refunds };
+  }
+
+  private discountTotal(booking: Booking): number {
+    return Math.abs(pricingService.summarize(booking.lineItems).discounts);
+  }
+
+  /**
+   * Cancel a booking and refund whatever its cancellation policy allows
+   */
+  async cancelBooking(bookingId: string, actorId: string, reason?: string): Promise<CancellationResult> {
+    const result = await lockManager.withLock(lockKeys.booking(bookingId), async () => {
+      const booking = db.getBookingById(bookingId);
+      if (!booking) {
+        throw new Error('Booking not found');
+      }
+
+      bookingStateMachine.assertTransition(booking, BookingStatus.CANCELLED);
+
+      // Process refund if anything was paid and the policy returns part of it
+      const { quote, refunds } = await this.settleRefund(
+        booking,
+        `Cancellation under ${booking.cancellationPolicy} policy`,
+        paidAmount => cancellationPolicyService.calculateRefund(booking, paidAmount)
+      );
+
+      // Update booking status
+      const cancelled = db.transaction(() => {
+        waitlistService.closeOffer(bookingId, WaitlistStatus.CANCELLED);
+        return bookingStateMachine.transition(bookingId, BookingStatus.CANCELLED, {
+          actorId,
+          reason: reason || 'Cancelled on request'
+        });
+      });
+
+      return { booking: cancelled, quote, refunds };
+    });
+
+    // The freed room goes to the first waitlisted guest for its type and dates
+    await this.offerToWaitlist(result.booking);
+    return result;
+  }
+
+  /**
+   * Cancel every room of a group that can still be cancelled, each refunded under its own
+   * cancellation policy. Rooms already checked in, out or cancelled are left as they are.
+   */
+  async cancelGroup(groupId: string, actorId: string, reason?: string): Promise<CancellationResult[]> {
+    return lockManager.withLock(lockKeys.group(groupId), async () => {
+      if (!db.getBookingGroupById(groupId)) {
+        throw new AppError('Group not found', 404);
+      }
+
+      const cancellable = db.getBookingsByGroupId(groupId)
+        .filter(booking => bookingStateMachine.canTransition(booking.status, BookingStatus.CANCELLED));
+      if (cancellable.length === 0) {
+        throw new AppError('No rooms in this group can be cancelled', 409);
+      }
+
+      const results: CancellationResult[] = [];
+      for (const booking of cancellable) {
+        results.push(await this.cancelBooking(booking.id, actorId, reason || 'Group cancelled on request'));
+      }
+      return results;
+    });
+  }
+
+  /**
+   * Rooming list of a group for the front desk
+   */
+  getGroupManifest(groupId: string): GroupManifest | undefined {
+    const group = db.getBookingGroupById(groupId);
+    if (!group) {
+      return undefined;
     }
 
-    db.updateBooking(bookingId, { status: BookingStatus.CHECKED_IN });
-    return true;
+    const organizer = db.getUserById(group.organizerId);
+    const rooms = db.getBookingsByGroupId(groupId)
+      .map(booking => {
+        const room = booking.roomId ? db.getRoomById(booking.roomId) : undefined;
+        return {
+          bookingId: booking.id,
+          roomId: booking.roomId,
+          roomNumber: room ? room.roomNumber : undefined,
+          roomType: booking.roomType,
+          occupantName: booking.occupantName,
+          numberOfGuests: booking.numberOfGuests,
+          checkInDate: booking.checkInDate,
+          checkOutDate: booking.checkOutDate,
+          status: booking.status,
+          totalPrice: booking.totalPrice,
+          paidAmount: paymentService.getPaidAmount(booking.id),
+          specialRequests: booking.specialRequests
+        };
+      })
+      // Assigned rooms in room number order, then rooms still to be assigned
+      .sort((a, b) => {
+        if (!a.roomNumber || !b.roomNumber) {
+          return (a.roomNumber ? 0 : 1) - (b.roomNumber ? 0 : 1);
+        }
+        return a.roomNumber.localeCompare(b.roomNumber);
+      });
+
+    const active = rooms.filter(entry => !RELEASED_STATUSES.includes(entry.status));
+
+    return {
+      group,
+      organizer: {
+        id: group.organizerId,
+        firstName: organizer ? organizer.firstName : '',
+        lastName: organizer ? organizer.lastName : '',
+        email: organizer ? organizer.email : '',
+        phone: organizer ? organizer.phone : ''
+      },
+      rooms,
+      activeRooms: active.length,
+      totalGuests: active.reduce((total, entry) => total + entry.numberOfGuests, 0),
+      totalPrice: roundCurrency(active.reduce((total, entry) => total + entry.totalPrice, 0)),
+      paidAmount: roundCurrency(rooms.reduce((total, entry) => total + entry.paidAmount, 0))
+    };
   }
 
   /**
-   * Check out a guest
+   * Assign a room to a booking sold by type, or move a booking to another room of its type.
+   * Without a roomId the first free room of the booking's type is picked.
    */
-  async checkOut(bookingId: string): Promise<boolean> {
-    const booking = db.getBookingById(bookingId);
-    if (!booking) {
-      throw new Error('Booking not found');
+  async assignRoom(bookingId: string, roomId?: string): Promise<Booking> {
+    return lockManager.withLock(lockKeys.booking(bookingId), async () => {
+      const booking = db.getBookingById(bookingId);
+      if (!booking) {
+        throw new Error('Booking not found');
+      }
+
+      if (![BookingStatus.PENDING, BookingStatus.CONFIRMED].includes(booking.status)) {
+        throw new AppError(`Cannot assign a room to a booking that is ${booking.status}`, 409);
+      }
+
+      return this.assignRoomLocked(booking, roomId);
+    });
+  }
+
+  // Caller must hold the booking lock
+  private async assignRoomLocked(booking: Booking, roomId?: string): Promise<Booking> {
+    if (!roomId && booking.roomId) {
+      return booking;
     }
 
-    if (booking.status !== BookingStatus.CHECKED_IN) {
-      throw new Error('Only checked-in bookings can be checked out');
+    const resources = [lockKeys.roomType(booking.roomType)];
+    if (roomId) resources.push(lockKeys.room(roomId));
+
+    return lockManager.withLock(resources, async () => {
+      let candidates: Room[];
+      if (roomId) {
+        const room = db.getRoomById(roomId);
+        if (!room) {
+          throw new AppError('Room not found', 404);
+        }
+        if (room.type !== booking.roomType) {
+          throw new AppError(`Room ${room.roomNumber} is not a ${booking.roomType} room`, 400);
+        }
+        candidates = [room];
+      } else {
+        // Rooms housekeeping has finished with come first so the guest can go straight up
+        candidates = [...inventoryService.getRoomsOfType(booking.roomType)]
+          .sort((a, b) =>
+            Number(housekeepingService.isReady(b)) - Number(housekeepingService.isReady(a)) ||
+            a.roomNumber.localeCompare(b.roomNumber)
+          );
+      }
+
+      const checkInDate = new Date(booking.checkInDate);
+      const checkOutDate = new Date(booking.checkOutDate);
+      for (const room of candidates) {
+        if (room.id === booking.roomId) {
+          return booking;
+        }
+        if (room.capacity < booking.numberOfGuests) continue;
+
+        if (await this.checkRoomAvailability(room.id, checkInDate, checkOutDate, booking.id)) {
+          return db.updateBooking(booking.id, { roomId: room.id, roomAutoAssigned: !roomId }) as Booking;
+        }
+      }
+
+      throw new AppError(
+        roomId
+          ? 'Room is not available for the dates of this booking'
+          : `No ${booking.roomType} room is free for the dates of this booking`,
+        409
+      );
+    });
+  }
+
+  /**
+   * Check in a guest. Bookings sold by type are given a room now if they have none yet.
+   */
+  async checkIn(bookingId: string, actorId: string): Promise<CheckInResult> {
+    return lockManager.withLock(lockKeys.booking(bookingId), async () => {
+      let booking = db.getBookingById(bookingId);
+      if (!booking) {
+        throw new Error('Booking not found');
+      }
+
+      bookingStateMachine.assertTransition(booking, BookingStatus.CHECKED_IN);
+
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+      const checkInDate = new Date(booking.checkInDate);
+      checkInDate.setHours(0, 0, 0, 0);
+
+      if (today < checkInDate) {
+        throw new Error('Check-in date has not arrived yet');
+      }
+
+      if (!booking.roomId) {
+        booking = await this.assignRoomLocked(booking);
+      }
+
+      const room = db.getRoomById(booking.roomId!)!;
+
+      // Before the standard time the guest needs an approved early check-in, or a room nobody slept in
+      const { checkInTime, earlyCheckInFee } = config.booking;
+      const early = new Date() < atTimeOfDay(booking.checkInDate, checkInTime);
+      if (early && booking.earlyCheckIn !== StayExtensionStatus.APPROVED) {
+        if (booking.earlyCheckIn === StayExtensionStatus.DECLINED) {
+          throw new AppError(`Early check-in was declined. Check-in opens at ${checkInTime}`, 409);
+        }
+        if (!this.isExtensionAvailable(booking, 'earlyCheckIn')) {
+          throw new AppError(`Room ${room.roomNumber} is not available before ${checkInTime}`, 409);
+        }
+      }
+
+      let warning: string | undefined;
+      if (!housekeepingService.isReady(room)) {
+        const message = `Room ${room.roomNumber} is ${room.housekeepingStatus} and has not been cleaned yet`;
+        if (config.housekeeping.blockCheckInUntilClean) {
+          throw new AppError(message, 409);
+        }
+        warning = message;
+      }
+
+      const checkedIn = bookingStateMachine.transition(bookingId, BookingStatus.CHECKED_IN, {
+        actorId,
+        reason: early ? 'Guest checked in early' : 'Guest checked in'
+      });
+      if (early && earlyCheckInFee > 0) {
+        folioService.addFee(bookingId, 'Early check-in', earlyCheckInFee, actorId);
+      }
+      return { booking: checkedIn, warning };
+    });
+  }
+
+  /**
+   * Check out a guest, settling their folio first, and queue their room for cleaning
+   */
+  async checkOut(bookingId: string, actorId: string): Promise<CheckOutResult> {
+    return lockManager.withLock(lockKeys.booking(bookingId), async () => {
+      const booking = db.getBookingById(bookingId);
+      if (!booking) {
+        throw new Error('Booking not found');
+      }
+
+      // Settle before the transition so a declined charge leaves the guest checked in
+      bookingStateMachine.assertTransition(booking, BookingStatus.CHECKED_OUT);
+
+      // Only an approved late check-out is charged; a guest who simply leaves late is not
+      const { checkOutTime, lateCheckOutFee } = config.booking;
+      const late = new Date() > atTimeOfDay(booking.checkOutDate, checkOutTime);
+      if (late && booking.lateCheckOut === StayExtensionStatus.APPROVED && lateCheckOutFee > 0) {
+        folioService.addFee(bookingId, 'Late check-out', lateCheckOutFee, actorId);
+      }
+      const settlement = await folioService.settle(booking);
+
+      const checkedOut = bookingStateMachine.transition(bookingId, BookingStatus.CHECKED_OUT, {
+        actorId,
+        reason: late ? 'Guest checked out late' : 'Guest checked out'
+      });
+      if (checkedOut.roomId) {
+        housekeepingService.markDirty(checkedOut.roomId, bookingId);
+      }
+      return { booking: checkedOut, ...settlement };
+    });
+  }
+
+  /**
+   * Whether the guest can arrive early or leave late, and what it costs
+   */
+  getStayExtensions(booking: Booking): StayExtensions {
+    const { checkInTime, checkOutTime, earlyCheckInFee, lateCheckOutFee } = config.booking;
+    return {
+      bookingId: booking.id,
+      earlyCheckIn: {
+        status: booking.earlyCheckIn,
+        standardTime: checkInTime,
+        available: this.isExtensionAvailable(booking, 'earlyCheckIn'),
+        fee: earlyCheckInFee
+      },
+      lateCheckOut: {
+        status: booking.lateCheckOut,
+        standardTime: checkOutTime,
+        available: this.isExtensionAvailable(booking, 'lateCheckOut'),
+        fee: lateCheckOutFee
+      }
+    };
+  }
+
+  /**
+   * Approve or decline early check-in or late check-out. Approval needs the booking's room to
+   * be free the night before arrival or the night of departure.
+   */
+  async decideStayExtension(bookingId: string, extension: StayExtension, approve: boolean): Promise<Booking> {
+    return lockManager.withLock(lockKeys.booking(bookingId), async () => {
+      const booking = db.getBookingById(bookingId);
+      if (!booking) {
+        throw new AppError('Booking not found', 404);
+      }
+
+      // Late check-out can still be arranged during the stay
+      const open = extension === 'earlyCheckIn'
+        ? [BookingStatus.PENDING, BookingStatus.CONFIRMED]
+        : [BookingStatus.PENDING, BookingStatus.CONFIRMED, BookingStatus.CHECKED_IN];
+      if (!open.includes(booking.status)) {
+        throw new AppError(`Cannot change ${extension === 'earlyCheckIn' ? 'early check-in' : 'late check-out'} for a booking that is ${booking.status}`, 409);
+      }
+
+      if (approve) {
+        if (!booking.roomId) {
+          throw new AppError('Assign a room to the booking before approving', 409);
+        }
+        if (!this.isExtensionAvailable(booking, extension)) {
+          const room = db.getRoomById(booking.roomId)!;
+          throw new AppError(
+            extension === 'earlyCheckIn'
+              ? `Room ${room.roomNumber} is occupied the night before arrival`
+              : `Room ${room.roomNumber} is booked from the day of departure`,
+            409
+          );
+        }
+      }
+
+      return db.updateBooking(bookingId, {
+        [extension]: approve ? StayExtensionStatus.APPROVED : StayExtensionStatus.DECLINED
+      }) as Booking;
+    });
+  }
+
+  // Early check-in needs the room free the night before arrival, late check-out the night of
+  // departure. Bookings without a room yet are checked against their room type.
+  private isExtensionAvailable(booking: Booking, extension: StayExtension): boolean {
+    const from = extension === 'earlyCheckIn'
+      ? addDays(booking.checkInDate, -1)
+      : new Date(booking.checkOutDate);
+    const to = addDays(from, 1);
+
+    if (!booking.roomId) {
+      return inventoryService.getAvailableCount(booking.roomType, from, to, booking.id) > 0;
     }
 
-    db.updateBooking(bookingId, { status: BookingStatus.CHECKED_OUT });
-    return true;
+    // A guest who has already checked out that morning has left the room free
+    const now = new Date();
+    const occupied = availabilityIndex.getRoomStays(booking.roomId, from, to).some(stay =>
+      stay.id !== booking.id &&
+      stay.status !== BookingStatus.CHECKED_OUT &&
+      inventoryService.holdsInventory(stay, now)
+    );
+    return !occupied &&
+      db.getRoomById(booking.roomId)?.isAvailable === true &&
+      inventoryService.getMaintenanceBlocks(from, to, booking.roomId).length === 0;
   }
 }
 
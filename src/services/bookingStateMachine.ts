@@ -0,0 +1,105 @@
+// services/bookingStateMachine.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../database';
+import { InvalidBookingTransitionError } from '../errors';
+import { Booking, BookingStatus, BookingStatusChange } from '../types';
+
+// Actor recorded for transitions made by the system rather than a user
+export const SYSTEM_ACTOR = 'system';
+
+// Legal status transitions; statuses mapped to an empty list are terminal
+const TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  [BookingStatus.PENDING]: [BookingStatus.CONFIRMED, BookingStatus.CANCELLED, BookingStatus.EXPIRED],
+  [BookingStatus.CONFIRMED]: [BookingStatus.CHECKED_IN, BookingStatus.CANCELLED, BookingStatus.NO_SHOW],
+  [BookingStatus.CHECKED_IN]: [BookingStatus.CHECKED_OUT],
+  [BookingStatus.CHECKED_OUT]: [],
+  [BookingStatus.CANCELLED]: [],
+  [BookingStatus.NO_SHOW]: [],
+  [BookingStatus.EXPIRED]: []
+};
+
+// Statuses whose booking no longer holds the room
+export const RELEASED_STATUSES: BookingStatus[] = [
+  BookingStatus.CANCELLED,
+  BookingStatus.NO_SHOW,
+  BookingStatus.EXPIRED
+];
+
+export interface TransitionContext {
+  actorId: string;
+  reason?: string;
+}
+
+class BookingStateMachine {
+  /**
+   * Whether a booking may move from one status to another
+   */
+  canTransition(from: BookingStatus, to: BookingStatus): boolean {
+    return TRANSITIONS[from].includes(to);
+  }
+
+  /**
+   * Whether no further transitions are possible from a status
+   */
+  isTerminal(status: BookingStatus): boolean {
+    return TRANSITIONS[status].length === 0;
+  }
+
+  /**
+   * Throw an InvalidBookingTransitionError unless the transition is legal
+   */
+  assertTransition(booking: Booking, to: BookingStatus): void {
+    if (!this.canTransition(booking.status, to)) {
+      throw new InvalidBookingTransitionError(booking.status, to);
+    }
+  }
+
+  /**
+   * Move a booking to a new status and record who did it and why
+   */
+  transition(bookingId: string, to: BookingStatus, context: TransitionContext): Booking {
+    const booking = db.getBookingById(bookingId);
+    if (!booking) {
+      throw new Error('Booking not found');
+    }
+
+    this.assertTransition(booking, to);
+
+    return db.transaction(() => {
+      const updated = db.updateBooking(bookingId, { status: to }) as Booking;
+      this.record(bookingId, booking.status, to, context);
+      return updated;
+    });
+  }
+
+  /**
+   * Record the initial status of a newly created booking
+   */
+  recordCreation(booking: Booking, context: TransitionContext): void {
+    this.record(booking.id, undefined, booking.status, context);
+  }
+
+  getHistory(bookingId: string): BookingStatusChange[] {
+    return db.getBookingHistory(bookingId);
+  }
+
+  private record(
+    bookingId: string,
+    fromStatus: BookingStatus | undefined,
+    toStatus: BookingStatus,
+    context: TransitionContext
+  ): void {
+    db.createBookingStatusChange({
+      id: uuidv4(),
+      bookingId,
+      fromStatus,
+      toStatus,
+      changedBy: context.actorId,
+      reason: context.reason,
+      changedAt: new Date()
+    });
+  }
+}
+
+export const bookingStateMachine = new BookingStateMachine();
@@ -0,0 +1,94 @@
+// services/calendarService.ts
+
+import { availabilityIndex, db } from '../database';
+import {
+  AvailabilityCalendar,
+  Booking,
+  BookingStatus,
+  CalendarNight,
+  CalendarNightStatus,
+  RoomType,
+  UnassignedNight
+} from '../types';
+import { inventoryService } from './inventoryService';
+import { addDays, eachNight, toDateKey } from '../utils/dates';
+
+// Per-room, per-night occupancy grid for the front desk
+class CalendarService {
+  /**
+   * Status of every room on each night from `from` (inclusive) to `to` (exclusive)
+   */
+  getCalendar(from: Date, to: Date): AvailabilityCalendar {
+    const nights = eachNight(from, to);
+    const dates = nights.map(toDateKey);
+    const now = new Date();
+
+    const rooms = db.getAllRooms()
+      .sort((a, b) => a.roomNumber.localeCompare(b.roomNumber, undefined, { numeric: true }))
+      .map(room => {
+        // One index lookup per room instead of a scan of all its bookings
+        const stays = this.activeStays(availabilityIndex.getRoomStays(room.id, from, to), now);
+        const blocks = inventoryService.getMaintenanceBlocks(from, to, room.id);
+        return {
+          roomId: room.id,
+          roomNumber: room.roomNumber,
+          type: room.type,
+          floor: room.floor,
+          nights: nights.map((night, i): CalendarNight => {
+            const [stay] = this.staysOn(stays, night);
+            if (stay) {
+              return { date: dates[i], status: this.statusOf(stay), bookingId: stay.id };
+            }
+
+            const nextDay = addDays(night, 1);
+            const block = blocks.find(candidate =>
+              new Date(candidate.startDate) < nextDay && new Date(candidate.endDate) > night
+            );
+            if (block) {
+              return { date: dates[i], status: CalendarNightStatus.OUT_OF_ORDER, maintenanceBlockId: block.id };
+            }
+            return {
+              date: dates[i],
+              status: room.isAvailable ? CalendarNightStatus.FREE : CalendarNightStatus.OUT_OF_ORDER
+            };
+          })
+        };
+      });
+
+    const unassigned: UnassignedNight[] = [];
+    for (const roomType of Object.values(RoomType)) {
+      const stays = this.activeStays(availabilityIndex.getUnassignedStays(roomType, from, to), now);
+      nights.forEach((night, i) => {
+        const staying = this.staysOn(stays, night);
+        if (staying.length > 0) {
+          unassigned.push({ roomType, date: dates[i], bookingIds: staying.map(stay => stay.id) });
+        }
+      });
+    }
+
+    return {
+      from: toDateKey(from),
+      to: toDateKey(to),
+      dates,
+      rooms,
+      unassigned
+    };
+  }
+
+  private activeStays(stays: Booking[], now: Date): Booking[] {
+    return stays.filter(booking => inventoryService.holdsInventory(booking, now));
+  }
+
+  private staysOn(stays: Booking[], night: Date): Booking[] {
+    const nextDay = addDays(night, 1);
+    return stays.filter(stay => new Date(stay.checkInDate) < nextDay && new Date(stay.checkOutDate) > night);
+  }
+
+  private statusOf(booking: Booking): CalendarNightStatus {
+    return booking.status === BookingStatus.PENDING && booking.holdExpiresAt
+      ? CalendarNightStatus.HELD
+      : CalendarNightStatus.BOOKED;
+  }
+}
+
+export const calendarService = new CalendarService();
@@ -0,0 +1,93 @@
+// services/campaignService.test.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config';
+import { db } from '../database';
+import { EmailCampaign, UserRole } from '../types';
+import { addDays } from '../utils/dates';
+import { bookingService } from './bookingService';
+import { campaignService } from './campaignService';
+import { emailService } from './emailService';
+
+const createGuest = (): string => {
+  const id = uuidv4();
+  db.createUser({
+    id,
+    email: `${id}@example.com`,
+    password: 'not-a-real-hash',
+    role: UserRole.GUEST,
+    firstName: 'Test',
+    lastName: 'Guest',
+    phone: '+15550000000',
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+  return id;
+};
+
+const day = (offset: number): Date => {
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+  return addDays(today, offset);
+};
+
+beforeAll(async () => {
+  while (db.getAllRooms().length === 0) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+});
+
+beforeEach(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('run', () => {
+  it('sends a campaign email again on the next run when delivery failed, even in development', async () => {
+    const created = await bookingService.createBooking(createGuest(), 'room-3', day(1), day(2), 1);
+    await bookingService.processPayment(created!.payment.id);
+    const bookingId = created!.booking.id;
+    const preArrivalEmails = () =>
+      db.getCampaignEmailsByBookingId(bookingId).filter(email => email.campaign === EmailCampaign.PRE_ARRIVAL);
+
+    const { nodeEnv, email } = config;
+    config.nodeEnv = 'development';
+    config.email = { ...email, configured: true };
+    try {
+      const deliver = jest.spyOn(emailService, 'deliver').mockResolvedValue(false);
+      await campaignService.run();
+      expect(preArrivalEmails()).toEqual([]);
+
+      deliver.mockResolvedValue(true);
+      await campaignService.run();
+      expect(preArrivalEmails()).toHaveLength(1);
+      expect(deliver).toHaveBeenCalledWith(expect.objectContaining({
+        subject: expect.stringContaining('Upcoming Stay'),
+        headers: expect.objectContaining({ 'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click' })
+      }));
+    } finally {
+      config.nodeEnv = nodeEnv;
+      config.email = email;
+    }
+  });
+
+  it('sends nothing and records nothing when no mail server is configured', async () => {
+    const created = await bookingService.createBooking(createGuest(), 'room-4', day(1), day(2), 1);
+    await bookingService.processPayment(created!.payment.id);
+
+    const { email } = config;
+    config.email = { ...email, configured: false };
+    try {
+      const deliver = jest.spyOn(emailService, 'deliver');
+      await campaignService.run();
+
+      expect(deliver).not.toHaveBeenCalled();
+      expect(db.getCampaignEmailsByBookingId(created!.booking.id)).toEqual([]);
+    } finally {
+      config.email = email;
+    }
+  });
+});
@@ -0,0 +1,186 @@
+// services/campaignService.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import * as jwt from 'jsonwebtoken';
+import { config } from '../config';
+import { db } from '../database';
+import { AppError } from '../errors';
+import {
+  Booking,
+  BookingStatus,
+  CampaignEmailData,
+  EmailCampaign,
+  Guest,
+  User
+} from '../types';
+import { emailService } from './emailService';
+import { inventoryService } from './inventoryService';
+import { addDays, toDateKey } from '../utils/dates';
+
+export type CampaignRun = Record<EmailCampaign, number>;
+
+interface UnsubscribeToken {
+  userId: string;
+  campaign: EmailCampaign;
+}
+
+// Unsubscribe links are signed with their own key so they can never pass as a login token
+const unsubscribeSecret = `${config.jwt.secret}:unsubscribe`;
+
+class CampaignService {
+  /**
+   * Send every campaign email that is due. Each campaign goes to a booking at most once, even
+   * across restarts, and never to a guest who has opted out of it. Returns how many were sent.
+   */
+  async run(now: Date = new Date()): Promise<CampaignRun> {
+    // Without a mail server every send would fail and be retried on each run
+    if (!config.email.configured) {
+      return { [EmailCampaign.PRE_ARRIVAL]: 0, [EmailCampaign.POST_STAY]: 0, [EmailCampaign.ABANDONED_HOLD]: 0 };
+    }
+
+    const bookings = db.getAllBookings();
+    const due = (campaign: EmailCampaign) => bookings.filter(booking => this.isDue(campaign, booking, now));
+
+    return {
+      [EmailCampaign.PRE_ARRIVAL]: await this.sendAll(
+        EmailCampaign.PRE_ARRIVAL, due(EmailCampaign.PRE_ARRIVAL), data => emailService.sendPreArrivalReminder(data)
+      ),
+      [EmailCampaign.POST_STAY]: await this.sendAll(
+        EmailCampaign.POST_STAY, due(EmailCampaign.POST_STAY), data => emailService.sendPostStayThankYou(data)
+      ),
+      [EmailCampaign.ABANDONED_HOLD]: await this.sendAll(
+        EmailCampaign.ABANDONED_HOLD, due(EmailCampaign.ABANDONED_HOLD), data => emailService.sendAbandonedHoldReminder(data)
+      )
+    };
+  }
+
+  /**
+   * Replace the campaigns a user has opted out of
+   */
+  setOptOuts(userId: string, campaigns: EmailCampaign[]): User {
+    const user = db.updateUser(userId, { emailOptOuts: Array.from(new Set(campaigns)) });
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+    return user;
+  }
+
+  unsubscribeUrl(userId: string, campaign: EmailCampaign): string {
+    const payload: UnsubscribeToken = { userId, campaign };
+    const token = jwt.sign(payload, unsubscribeSecret, { expiresIn: '365d' });
+    return `${config.campaigns.publicUrl}/api/auth/unsubscribe?token=${encodeURIComponent(token)}`;
+  }
+
+  /**
+   * The user and campaign an unsubscribe link is for, without opting them out
+   */
+  readUnsubscribeLink(token: string): { user: User; campaign: EmailCampaign } {
+    let payload: UnsubscribeToken;
+    try {
+      payload = jwt.verify(token, unsubscribeSecret) as UnsubscribeToken;
+    } catch (error) {
+      throw new AppError('Invalid or expired unsubscribe link', 400);
+    }
+
+    const user = db.getUserById(payload.userId);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+    return { user, campaign: payload.campaign };
+  }
+
+  /**
+   * Opt the user named in an unsubscribe link out of its campaign
+   */
+  unsubscribe(token: string): User {
+    const { user, campaign } = this.readUnsubscribeLink(token);
+    return this.setOptOuts(user.id, [...(user.emailOptOuts || []), campaign]);
+  }
+
+  private isDue(campaign: EmailCampaign, booking: Booking, now: Date): boolean {
+    switch (campaign) {
+      case EmailCampaign.PRE_ARRIVAL: {
+        const arrival = toDateKey(booking.checkInDate);
+        return booking.status === BookingStatus.CONFIRMED &&
+          arrival >= toDateKey(now) &&
+          arrival <= toDateKey(addDays(now, config.campaigns.preArrivalDays));
+      }
+      case EmailCampaign.POST_STAY:
+        return booking.status === BookingStatus.CHECKED_OUT &&
+          toDateKey(booking.checkOutDate) >= toDateKey(addDays(now, -config.campaigns.postStayDays));
+      case EmailCampaign.ABANDONED_HOLD: {
+        const remindAt = new Date(booking.createdAt);
+        remindAt.setMinutes(remindAt.getMinutes() + config.campaigns.abandonedHoldMinutes);
+        return booking.status === BookingStatus.PENDING &&
+          booking.holdExpiresAt !== undefined &&
+          !inventoryService.isLapsedHold(booking, now) &&
+          remindAt <= now;
+      }
+    }
+  }
+
+  private async sendAll(
+    campaign: EmailCampaign,
+    bookings: Booking[],
+    deliver: (data: CampaignEmailData) => Promise<boolean>
+  ): Promise<number> {
+    let sent = 0;
+    for (const booking of bookings) {
+      try {
+        if (await this.send(campaign, booking, deliver)) sent++;
+      } catch (error) {
+        console.error(`Campaign ${campaign} error for booking ${booking.id}:`, error);
+      }
+    }
+    return sent;
+  }
+
+  private async send(
+    campaign: EmailCampaign,
+    booking: Booking,
+    deliver: (data: CampaignEmailData) => Promise<boolean>
+  ): Promise<boolean> {
+    const guest = db.getUserById(booking.guestId) as Guest | undefined;
+    if (!guest || (guest.emailOptOuts || []).includes(campaign)) {
+      return false;
+    }
+
+    const room = booking.roomId ? db.getRoomById(booking.roomId) : inventoryService.getReferenceRoom(booking.roomType);
+    if (!room) {
+      return false;
+    }
+
+    // Claim the send before delivering so a restart or overlapping run cannot send it twice
+    const claim = db.transaction(() => {
+      if (db.getCampaignEmailsByBookingId(booking.id).some(email => email.campaign === campaign)) {
+        return undefined;
+      }
+      return db.createCampaignEmail({
+        id: uuidv4(),
+        campaign,
+        bookingId: booking.id,
+        guestId: guest.id,
+        sentAt: new Date(),
+        createdAt: new Date(),
+        updatedAt: new Date()
+      });
+    });
+    if (!claim) {
+      return false;
+    }
+
+    const delivered = await deliver({
+      booking,
+      guest,
+      room,
+      unsubscribeUrl: this.unsubscribeUrl(guest.id, campaign)
+    }).catch(() => false);
+    if (!delivered) {
+      // Give up the claim so the next run tries again
+      db.deleteCampaignEmail(claim.id);
+    }
+    return delivered;
+  }
+}
+
+export const campaignService = new CampaignService();
@@ -0,0 +1,97 @@
+// services/cancellationPolicyService.ts
+
+import { config } from '../config';
+import { Booking, CancellationPenalty, CancellationPolicy, Room, RefundQuote } from '../types';
+import { calculateNights } from '../utils/dates';
+import { roundCurrency } from '../utils/money';
+
+const HOUR_MS = 1000 * 60 * 60;
+
+class CancellationPolicyService {
+  getPolicies(): CancellationPolicy[] {
+    return config.cancellation.policies;
+  }
+
+  getPolicy(code: string): CancellationPolicy | undefined {
+    return config.cancellation.policies.find(policy => policy.code === code);
+  }
+
+  /**
+   * Pick the policy for a new booking: the rate the guest chose, else the room type default
+   */
+  resolvePolicy(room: Room, requestedCode?: string): CancellationPolicy {
+    const code = requestedCode || config.cancellation.roomTypeDefaults[room.type];
+    const policy = this.getPolicy(code);
+    if (!policy) {
+      throw new Error(`Unknown cancellation policy: ${code}`);
+    }
+    return policy;
+  }
+
+  /**
+   * Work out how much of the amount paid is refunded if the booking is cancelled at the given time
+   */
+  calculateRefund(booking: Booking, paidAmount: number, cancelledAt: Date = new Date()): RefundQuote {
+    const policy = this.getPolicy(booking.cancellationPolicy);
+    if (!policy) {
+      throw new Error(`Unknown cancellation policy: ${booking.cancellationPolicy}`);
+    }
+
+    const checkIn = new Date(booking.checkInDate);
+    const freeCancellationUntil = policy.refundable
+      ? new Date(checkIn.getTime() - policy.freeCancellationHours * HOUR_MS)
+      : undefined;
+
+    let penaltyAmount: number;
+    if (freeCancellationUntil && cancelledAt <= freeCancellationUntil) {
+      penaltyAmount = 0;
+    } else {
+      penaltyAmount = this.penaltyFor(policy.refundable ? policy.lateCancellationPenalty : CancellationPenalty.FULL_STAY, booking);
+    }
+
+    penaltyAmount = roundCurrency(Math.min(penaltyAmount, paidAmount));
+
+    return {
+      policy: policy.code,
+      refundAmount: roundCurrency(paidAmount - penaltyAmount),
+      penaltyAmount,
+      freeCancellationUntil
+    };
+  }
+
+  /**
+   * Work out how much of the amount paid is refunded when the guest never arrives
+   */
+  calculateNoShowRefund(booking: Booking, paidAmount: number): RefundQuote {
+    const policy = this.getPolicy(booking.cancellationPolicy);
+    if (!policy) {
+      throw new Error(`Unknown cancellation policy: ${booking.cancellationPolicy}`);
+    }
+
+    const penalty = policy.refundable ? config.cancellation.noShowPenalty : CancellationPenalty.FULL_STAY;
+    const penaltyAmount = roundCurrency(Math.min(this.penaltyFor(penalty, booking), paidAmount));
+
+    return {
+      policy: policy.code,
+      refundAmount: roundCurrency(paidAmount - penaltyAmount),
+      penaltyAmount
+    };
+  }
+
+  private penaltyFor(penalty: CancellationPenalty, booking: Booking): number {
+    switch (penalty) {
+      case CancellationPenalty.NONE:
+        return 0;
+      case CancellationPenalty.FIRST_NIGHT: {
+        const nights = Math.max(1, calculateNights(booking.checkInDate, booking.checkOutDate));
+        return booking.totalPrice / nights;
+      }
+      case CancellationPenalty.FULL_STAY:
+        return booking.totalPrice;
+      default:
+        return booking.totalPrice;
+    }
+  }
+}
+
+export const cancellationPolicyService = new CancellationPolicyService();
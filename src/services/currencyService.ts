@@ -0,0 +1,110 @@
+// services/currencyService.ts
+
+import fs from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config';
+import { db } from '../database';
+import { AppError } from '../errors';
+import { ExchangeRate } from '../types';
+import { fromMinorUnits, toMinorUnits } from '../utils/money';
+
+class CurrencyService {
+  private fileRates?: Record<string, number>;
+
+  getBaseCurrency(): string {
+    return config.payment.currency;
+  }
+
+  /**
+   * Rates per unit of the base currency: the rates file overlaid with admin-maintained rates
+   */
+  getRates(): Record<string, number> {
+    const rates: Record<string, number> = { ...this.loadFileRates() };
+    for (const exchangeRate of db.getAllExchangeRates()) {
+      rates[exchangeRate.currency] = exchangeRate.rate;
+    }
+    rates[this.getBaseCurrency()] = 1;
+    return rates;
+  }
+
+  getSupportedCurrencies(): string[] {
+    return Object.keys(this.getRates()).sort();
+  }
+
+  /**
+   * Current rate for a currency; throws a 400 AppError if no rate is known
+   */
+  getRate(currency: string): number {
+    const rate = this.getRates()[currency.toUpperCase()];
+    if (!rate) {
+      throw new AppError(`Unsupported currency: ${currency}`, 400);
+    }
+    return rate;
+  }
+
+  /**
+   * Convert a base-currency amount into minor units of another currency at a given rate
+   */
+  toMinor(baseAmount: number, currency: string, rate: number): number {
+    return toMinorUnits(baseAmount * rate, currency);
+  }
+
+  /**
+   * Convert a base-currency amount for display, rounded to the currency's minor unit
+   */
+  convert(baseAmount: number, currency: string, rate: number): number {
+    return fromMinorUnits(this.toMinor(baseAmount, currency, rate), currency);
+  }
+
+  /**
+   * Create or replace the admin-maintained rate for a currency
+   */
+  setRate(currency: string, rate: number): ExchangeRate {
+    const code = currency.toUpperCase();
+    const existing = db.getExchangeRateByCurrency(code);
+    if (existing) {
+      return db.updateExchangeRate(existing.id, { rate }) as ExchangeRate;
+    }
+
+    return db.createExchangeRate({
+      id: uuidv4(),
+      currency: code,
+      rate,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+  }
+
+  /**
+   * Remove an admin-maintained rate; the rates file value, if any, applies again
+   */
+  deleteRate(currency: string): boolean {
+    const existing = db.getExchangeRateByCurrency(currency.toUpperCase());
+    return existing ? db.deleteExchangeRate(existing.id) : false;
+  }
+
+  // The rates file is read once; restart to pick up changes, or maintain rates through the admin API
+  private loadFileRates(): Record<string, number> {
+    if (this.fileRates) {
+      return this.fileRates;
+    }
+
+    this.fileRates = {};
+    const file = config.payment.exchangeRatesFile;
+    if (file && fs.existsSync(file)) {
+      try {
+        const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+        Object.entries(parsed).forEach(([currency, rate]) => {
+          if (typeof rate === 'number' && rate > 0) {
+            this.fileRates![currency.toUpperCase()] = rate;
+          }
+        });
+      } catch (error) {
+        console.error('Failed to load exchange rates file:', error);
+      }
+    }
+    return this.fileRates;
+  }
+}
+
+export const currencyService = new CurrencyService();
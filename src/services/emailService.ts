@@ -2,7 +2,18 @@
 
 import nodemailer from 'nodemailer';
 import { config } from '../config';
-import { BookingConfirmationData, EmailOptions } from '../types';
+import {
+  BookingCancellationData,
+  BookingConfirmationData,
+  BookingModificationData,
+  CampaignEmailData,
+  EmailOptions,
+  FolioData,
+  FolioEntryType,
+  NoShowData,
+  WaitlistOfferData
+} from '../types';
+import { currencyExponent, fromMinorUnits } from '../utils/money';
 
 class EmailService {
   private transporter: nodemailer.Transporter;
@@ -17,21 +28,42 @@ class EmailService {
   }
 
   async sendEmail(options: EmailOptions): Promise<boolean> {
+    if (await this.deliver(options)) {
+      return true;
+    }
+    // In development, we'll return true to simulate successful email
+    return config.nodeEnv === 'development';
+  }
+
+  /**
+   * Whether the mail server accepted the message, in every environment. Campaign emails use
+   * this so a failed send is tried again on the next run rather than recorded as sent.
+   */
+  async deliver(options: EmailOptions): Promise<boolean> {
     try {
       await this.transporter.sendMail({
         from: config.email.from,
         to: options.to,
         subject: options.subject,
-        html: options.html
+        html: options.html,
+        attachments: options.attachments,
+        headers: options.headers
       });
       return true;
     } catch (error) {
       console.error('Email sending failed:', error);
-      // In development, we'll return true to simulate successful email
-      return config.nodeEnv === 'development';
+      return false;
     }
   }
 
+  // RFC 8058 one-click unsubscribe: the mail client POSTs to the link without showing the page
+  private unsubscribeHeaders(unsubscribeUrl: string): Record<string, string> {
+    return {
+      'List-Unsubscribe': `<${unsubscribeUrl}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+    };
+  }
+
   async sendBookingConfirmation(data: BookingConfirmationData): Promise<boolean> {
     const { booking, guest, room, payment } = data;
 
@@ -53,6 +85,19 @@ class EmailService {
       (booking.checkOutDate.getTime() - booking.checkInDate.getTime()) / (1000 * 60 * 60 * 24)
     );
 
+    // Itemized charges; bookings created before line items existed show the stay total only
+    const lineItems = booking.lineItems && booking.lineItems.length > 0
+      ? booking.lineItems.map(item => `
+            <div class="detail-row">
+              <span class="label">${item.description}${item.date ? ` (${item.date})` : ''}${item.quantity > 1 ? ` × ${item.quantity}` : ''}:</span>
+              <span class="value">$${item.amount.toFixed(2)}</span>
+            </div>`).join('')
+      : `
+            <div class="detail-row">
+              <span class="label">Subtotal (${nights} nights):</span>
+              <span class="value">$${booking.totalPrice.toFixed(2)}</span>
+            </div>`;
+
     const html = `
       <!DOCTYPE html>
       <html>
@@ -154,7 +199,7 @@ class EmailService {
             
             <div class="detail-row">
               <span class="label">Room Number:</span>
-              <span class="value">${room.roomNumber}</span>
+              <span class="value">${booking.roomId ? room.roomNumber : 'Assigned at check-in'}</span>
             </div>
             
             <div class="detail-row">
@@ -188,19 +233,23 @@ class EmailService {
           <div class="booking-details">
             <h2>Payment Information</h2>
             
+            ${lineItems}
+            
             <div class="detail-row">
-              <span class="label">Room Rate (per night):</span>
-              <span class="value">$${room.pricePerNight.toFixed(2)}</span>
+              <span class="label">Payment Status:</span>
+              <span class="value">${payment.status}</span>
             </div>
             
+            ${payment.currency !== config.payment.currency ? `
             <div class="detail-row">
-              <span class="label">Subtotal (${nights} nights):</span>
-              <span class="value">$${(room.pricePerNight * nights).toFixed(2)}</span>
+              <span class="label">Charged in ${payment.currency} (1 ${config.payment.currency} = ${payment.exchangeRate} ${payment.currency}):</span>
+              <span class="value">${fromMinorUnits(payment.amountMinor, payment.currency).toFixed(currencyExponent(payment.currency))} ${payment.currency}</span>
             </div>
+            ` : ''}
             
             <div class="detail-row">
-              <span class="label">Payment Status:</span>
-              <span class="value">${payment.status}</span>
+              <span class="label">Cancellation Policy:</span>
+              <span class="value">${booking.cancellationPolicy}</span>
             </div>
             
             <div class="total">
@@ -236,8 +285,8 @@ class EmailService {
     });
   }
 
-  async sendBookingCancellation(data: BookingConfirmationData): Promise<boolean> {
-    const { booking, guest, room } = data;
+  async sendBookingCancellation(data: BookingCancellationData): Promise<boolean> {
+    const { booking, guest, room, refund } = data;
 
     const html = `
       <!DOCTYPE html>
@@ -278,12 +327,21 @@ class EmailService {
           
           <p><strong>Cancelled Booking Details:</strong></p>
           <ul>
-            <li>Room: ${room.type} - ${room.roomNumber}</li>
+            <li>Room: ${room.type}${booking.roomId ? ` - ${room.roomNumber}` : ''}</li>
             <li>Check-in Date: ${new Date(booking.checkInDate).toLocaleDateString()}</li>
             <li>Check-out Date: ${new Date(booking.checkOutDate).toLocaleDateString()}</li>
           </ul>
           
-          <p>If a refund is applicable, it will be processed within 5-7 business days.</p>
+          <p><strong>Refund Details:</strong></p>
+          <ul>
+            <li>Cancellation Policy: ${refund.policy}</li>
+            <li>Cancellation Fee: $${refund.penaltyAmount.toFixed(2)}</li>
+            <li>Refund Amount: $${refund.refundAmount.toFixed(2)}</li>
+          </ul>
+          
+          ${refund.refundAmount > 0 ? `
+          <p>Your refund will be processed within 5-7 business days.</p>
+          ` : ''}
           
           <p>We hope to serve you in the future.</p>
           
@@ -300,6 +358,554 @@ class EmailService {
       html
     });
   }
+
+  async sendNoShowNotice(data: NoShowData): Promise<boolean> {
+    const { booking, guest, room, refund } = data;
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body {
+            font-family: Arial, sans-serif;
+            line-height: 1.6;
+            color: #333;
+            max-width: 600px;
+            margin: 0 auto;
+            padding: 20px;
+          }
+          .header {
+            background: #dc3545;
+            color: white;
+            padding: 30px;
+            text-align: center;
+            border-radius: 10px 10px 0 0;
+          }
+          .content {
+            background: #f9f9f9;
+            padding: 30px;
+            border: 1px solid #ddd;
+          }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <h1>We Missed You</h1>
+        </div>
+        
+        <div class="content">
+          <p>Dear ${guest.firstName} ${guest.lastName},</p>
+          
+          <p>You did not check in for your booking (Confirmation #${booking.id.toUpperCase()}), so it has been recorded as a no-show and the room released.</p>
+          
+          <p><strong>Booking Details:</strong></p>
+          <ul>
+            <li>Room: ${room.type}${booking.roomId ? ` - ${room.roomNumber}` : ''}</li>
+            <li>Check-in Date: ${new Date(booking.checkInDate).toLocaleDateString()}</li>
+            <li>Check-out Date: ${new Date(booking.checkOutDate).toLocaleDateString()}</li>
+          </ul>
+          
+          <p><strong>Charges:</strong></p>
+          <ul>
+            <li>Cancellation Policy: ${refund.policy}</li>
+            <li>No-show Charge: $${refund.penaltyAmount.toFixed(2)}</li>
+            <li>Refund Amount: $${refund.refundAmount.toFixed(2)}</li>
+          </ul>
+          
+          ${refund.refundAmount > 0 ? `
+          <p>Your refund will be processed within 5-7 business days.</p>
+          ` : ''}
+          
+          <p>If you believe this is a mistake, please contact us.</p>
+          
+          <p>Best regards,<br>
+          The Hotel Team</p>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return this.sendEmail({
+      to: guest.email,
+      subject: `Booking Marked as No-Show - ${booking.id.toUpperCase()}`,
+      html
+    });
+  }
+
+  async sendPreArrivalReminder(data: CampaignEmailData): Promise<boolean> {
+    const { booking, guest, room, unsubscribeUrl } = data;
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body {
+            font-family: Arial, sans-serif;
+            line-height: 1.6;
+            color: #333;
+            max-width: 600px;
+            margin: 0 auto;
+            padding: 20px;
+          }
+          .header {
+            background: #667eea;
+            color: white;
+            padding: 30px;
+            text-align: center;
+            border-radius: 10px 10px 0 0;
+          }
+          .content {
+            background: #f9f9f9;
+            padding: 30px;
+            border: 1px solid #ddd;
+          }
+          .footer {
+            font-size: 12px;
+            color: #777;
+            text-align: center;
+            padding: 10px;
+          }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <h1>Your Stay Is Coming Up</h1>
+        </div>
+        
+        <div class="content">
+          <p>Dear ${guest.firstName} ${guest.lastName},</p>
+          
+          <p>We look forward to welcoming you soon. Here is a reminder of your booking.</p>
+          
+          <p><strong>Booking Details:</strong></p>
+          <ul>
+            <li>Confirmation Number: ${booking.id.toUpperCase()}</li>
+            <li>Room: ${room.type}${booking.roomId ? ` - ${room.roomNumber}` : ''}</li>
+            <li>Check-in Date: ${new Date(booking.checkInDate).toLocaleDateString()}</li>
+            <li>Check-out Date: ${new Date(booking.checkOutDate).toLocaleDateString()}</li>
+            <li>Number of Guests: ${booking.numberOfGuests}</li>
+          </ul>
+          
+          <p>Check-in is from ${config.booking.checkInTime} and check-out is by ${config.booking.checkOutTime}. Let us know if you would like to arrive early or leave late.</p>
+          
+
+          <p>Best regards,<br>
+          The Hotel Team</p>
+        </div>
+        
+        <div class="footer">
+          <a href="${unsubscribeUrl}">Unsubscribe from these emails</a>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return this.deliver({
+      to: guest.email,
+      subject: `Your Upcoming Stay - ${booking.id.toUpperCase()}`,
+      html,
+      headers: this.unsubscribeHeaders(unsubscribeUrl)
+    });
+  }
+
+  async sendPostStayThankYou(data: CampaignEmailData): Promise<boolean> {
+    const { booking, guest, room, unsubscribeUrl } = data;
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body {
+            font-family: Arial, sans-serif;
+            line-height: 1.6;
+            color: #333;
+            max-width: 600px;
+            margin: 0 auto;
+            padding: 20px;
+          }
+          .header {
+            background: #28a745;
+            color: white;
+            padding: 30px;
+            text-align: center;
+            border-radius: 10px 10px 0 0;
+          }
+          .content {
+            background: #f9f9f9;
+            padding: 30px;
+            border: 1px solid #ddd;
+          }
+          .footer {
+            font-size: 12px;
+            color: #777;
+            text-align: center;
+            padding: 10px;
+          }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <h1>Thank You for Staying With Us</h1>
+        </div>
+        
+        <div class="content">
+          <p>Dear ${guest.firstName} ${guest.lastName},</p>
+          
+          <p>Thank you for staying with us in our ${room.type} room from ${new Date(booking.checkInDate).toLocaleDateString()} to ${new Date(booking.checkOutDate).toLocaleDateString()}. We hope you enjoyed your visit.</p>
+          
+          <p>We would love to hear how it went: <a href="${config.campaigns.feedbackUrl}?booking=${booking.id}">share your feedback</a>.</p>
+          
+
+          <p>Best regards,<br>
+          The Hotel Team</p>
+        </div>
+        
+        <div class="footer">
+          <a href="${unsubscribeUrl}">Unsubscribe from these emails</a>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return this.deliver({
+      to: guest.email,
+      subject: `Thank You for Your Stay - ${booking.id.toUpperCase()}`,
+      html,
+      headers: this.unsubscribeHeaders(unsubscribeUrl)
+    });
+  }
+
+  async sendAbandonedHoldReminder(data: CampaignEmailData): Promise<boolean> {
+    const { booking, guest, room, unsubscribeUrl } = data;
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body {
+            font-family: Arial, sans-serif;
+            line-height: 1.6;
+            color: #333;
+            max-width: 600px;
+            margin: 0 auto;
+            padding: 20px;
+          }
+          .header {
+            background: #ffc107;
+            color: white;
+            padding: 30px;
+            text-align: center;
+            border-radius: 10px 10px 0 0;
+          }
+          .content {
+            background: #f9f9f9;
+            padding: 30px;
+            border: 1px solid #ddd;
+          }
+          .footer {
+            font-size: 12px;
+            color: #777;
+            text-align: center;
+            padding: 10px;
+          }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <h1>Your Room Is Still Held</h1>
+        </div>
+        
+        <div class="content">
+          <p>Dear ${guest.firstName} ${guest.lastName},</p>
+          
+          <p>You started a booking but have not paid for it yet. We are still holding the room for you.</p>
+          
+          <p><strong>Booking Details:</strong></p>
+          <ul>
+            <li>Confirmation Number: ${booking.id.toUpperCase()}</li>
+            <li>Room: ${room.type}${booking.roomId ? ` - ${room.roomNumber}` : ''}</li>
+            <li>Check-in Date: ${new Date(booking.checkInDate).toLocaleDateString()}</li>
+            <li>Check-out Date: ${new Date(booking.checkOutDate).toLocaleDateString()}</li>
+            <li>Number of Guests: ${booking.numberOfGuests}</li>
+          </ul>
+            
+          <p>Please complete payment of $${booking.totalPrice.toFixed(2)} before <strong>${new Date(booking.holdExpiresAt!).toLocaleString()}</strong>, after which the room is released.</p>
+          
+
+          <p>Best regards,<br>
+          The Hotel Team</p>
+        </div>
+        
+        <div class="footer">
+          <a href="${unsubscribeUrl}">Unsubscribe from these emails</a>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return this.deliver({
+      to: guest.email,
+      subject: `Complete Your Booking - ${booking.id.toUpperCase()}`,
+      html,
+      headers: this.unsubscribeHeaders(unsubscribeUrl)
+    });
+  }
+
+  async sendBookingModification(data: BookingModificationData): Promise<boolean> {
+    const { booking, previousBooking, guest, room, priceDifference } = data;
+
+    const formatDate = (date: Date) => new Date(date).toLocaleDateString();
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body {
+            font-family: Arial, sans-serif;
+            line-height: 1.6;
+            color: #333;
+            max-width: 600px;
+            margin: 0 auto;
+            padding: 20px;
+          }
+          .header {
+            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+            color: white;
+            padding: 30px;
+            text-align: center;
+            border-radius: 10px 10px 0 0;
+          }
+          .content {
+            background: #f9f9f9;
+            padding: 30px;
+            border: 1px solid #ddd;
+          }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <h1>Booking Updated</h1>
+        </div>
+        
+        <div class="content">
+          <p>Dear ${guest.firstName} ${guest.lastName},</p>
+          
+          <p>Your booking (Confirmation #${booking.id.toUpperCase()}) has been updated.</p>
+          
+          <p><strong>Previous Details:</strong></p>
+          <ul>
+            <li>Check-in Date: ${formatDate(previousBooking.checkInDate)}</li>
+            <li>Check-out Date: ${formatDate(previousBooking.checkOutDate)}</li>
+            <li>Number of Guests: ${previousBooking.numberOfGuests}</li>
+            <li>Total: $${previousBooking.totalPrice.toFixed(2)}</li>
+          </ul>
+          
+          <p><strong>New Details:</strong></p>
+          <ul>
+            <li>Room: ${room.type}${booking.roomId ? ` - ${room.roomNumber}` : ''}</li>
+            <li>Check-in Date: ${formatDate(booking.checkInDate)}</li>
+            <li>Check-out Date: ${formatDate(booking.checkOutDate)}</li>
+            <li>Number of Guests: ${booking.numberOfGuests}</li>
+            <li>Total: $${booking.totalPrice.toFixed(2)}</li>
+          </ul>
+          
+          ${priceDifference > 0 ? `
+          <p>An additional $${priceDifference.toFixed(2)} has been charged to your original payment method.</p>
+          ` : ''}
+          ${priceDifference < 0 ? `
+          <p>A refund of $${(-priceDifference).toFixed(2)} will be processed within 5-7 business days.</p>
+          ` : ''}
+          
+          <p>Best regards,<br>
+          The Hotel Team</p>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return this.sendEmail({
+      to: guest.email,
+      subject: `Booking Updated - ${booking.id.toUpperCase()}`,
+      html
+    });
+  }
+
+  async sendWaitlistOffer(data: WaitlistOfferData): Promise<boolean> {
+    const { entry, booking, guest } = data;
+
+    const formatDate = (date: Date) => new Date(date).toLocaleDateString();
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body {
+            font-family: Arial, sans-serif;
+            line-height: 1.6;
+            color: #333;
+            max-width: 600px;
+            margin: 0 auto;
+            padding: 20px;
+          }
+          .header {
+            background: #28a745;
+            color: white;
+            padding: 30px;
+            text-align: center;
+            border-radius: 10px 10px 0 0;
+          }
+          .content {
+            background: #f9f9f9;
+            padding: 30px;
+            border: 1px solid #ddd;
+          }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <h1>A Room Is Available</h1>
+        </div>
+        
+        <div class="content">
+          <p>Dear ${guest.firstName} ${guest.lastName},</p>
+          
+          <p>Good news: a ${entry.roomType} room has opened up for the dates you were waiting for, and we are holding it for you.</p>
+          
+          <p><strong>Held Room Details:</strong></p>
+          <ul>
+            <li>Hold Reference: ${booking.id.toUpperCase()}</li>
+            <li>Room Type: ${booking.roomType}</li>
+            <li>Check-in Date: ${formatDate(booking.checkInDate)}</li>
+            <li>Check-out Date: ${formatDate(booking.checkOutDate)}</li>
+            <li>Number of Guests: ${booking.numberOfGuests}</li>
+            <li>Total: $${booking.totalPrice.toFixed(2)}</li>
+          </ul>
+          
+          <p>Please confirm and pay before <strong>${new Date(booking.holdExpiresAt!).toLocaleString()}</strong>. After that the room is offered to the next guest on the waitlist.</p>
+          
+          <p>Best regards,<br>
+          The Hotel Team</p>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return this.sendEmail({
+      to: guest.email,
+      subject: `Your Waitlisted Room Is Available - ${booking.id.toUpperCase()}`,
+      html
+    });
+  }
+
+  async sendFolio(data: FolioData): Promise<boolean> {
+    const { booking, guest, room, folio, attachments } = data;
+
+    const formatDate = (date: Date) => new Date(date).toLocaleDateString();
+    const formatAmount = (amount: number) => `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(2)}`;
+
+    const rows = folio.entries.map(entry => `
+            <tr>
+              <td>${formatDate(entry.createdAt)}</td>
+              <td>${entry.description}</td>
+              <td class="amount">${formatAmount(entry.type === FolioEntryType.CREDIT ? -entry.amount : entry.amount)}</td>
+            </tr>`).join('');
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body {
+            font-family: Arial, sans-serif;
+            line-height: 1.6;
+            color: #333;
+            max-width: 600px;
+            margin: 0 auto;
+            padding: 20px;
+          }
+          .header {
+            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+            color: white;
+            padding: 30px;
+            text-align: center;
+            border-radius: 10px 10px 0 0;
+          }
+          .content {
+            background: #f9f9f9;
+            padding: 30px;
+            border: 1px solid #ddd;
+          }
+          table {
+            width: 100%;
+            border-collapse: collapse;
+          }
+          td {
+            padding: 6px 0;
+            border-bottom: 1px solid #eee;
+          }
+          .amount {
+            text-align: right;
+          }
+          .total td {
+            font-weight: bold;
+          }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <h1>Thank You for Staying with Us</h1>
+        </div>
+        
+        <div class="content">
+          <p>Dear ${guest.firstName} ${guest.lastName},</p>
+          
+          <p>Here is the final folio for your stay (Confirmation #${booking.id.toUpperCase()}) in ${room.type} room ${room.roomNumber}, ${formatDate(booking.checkInDate)} to ${formatDate(booking.checkOutDate)}.</p>
+          
+          <table>
+            <tr>
+              <td>${formatDate(booking.checkInDate)}</td>
+              <td>Room charges</td>
+              <td class="amount">${formatAmount(folio.roomCharges)}</td>
+            </tr>${rows}
+            <tr class="total">
+              <td></td>
+              <td>Total</td>
+              <td class="amount">${formatAmount(folio.total)}</td>
+            </tr>
+            <tr>
+              <td></td>
+              <td>Paid</td>
+              <td class="amount">${formatAmount(folio.paid)}</td>
+            </tr>
+            <tr class="total">
+              <td></td>
+              <td>Balance</td>
+              <td class="amount">${formatAmount(folio.balance)}</td>
+            </tr>
+          </table>
+          
+          <p>We hope to welcome you back soon.</p>
+          
+          <p>Best regards,<br>
+          The Hotel Team</p>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return this.sendEmail({
+      to: guest.email,
+      subject: `Your Folio - ${booking.id.toUpperCase()}`,
+      html,
+      attachments
+    });
+  }
 }
 
 export const emailService = new EmailService();
@@ -0,0 +1,146 @@
+// services/folioService.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import { db, lockManager, lockKeys } from '../database';
+import { AppError } from '../errors';
+import {
+  Booking,
+  BookingStatus,
+  Folio,
+  FolioEntry,
+  FolioEntryType,
+  Payment,
+  PaymentStatus,
+  Refund
+} from '../types';
+import { paymentService } from './paymentService';
+import { DEFAULT_PAYMENT_METHOD } from './payments';
+import { roundCurrency } from '../utils/money';
+
+export interface FolioSettlement {
+  folio: Folio;
+  payment?: Payment;
+  refunds: Refund[];
+}
+
+class FolioService {
+  /**
+   * The booking's room charges and incidentals, less credits and what has been paid so far
+   */
+  getFolio(booking: Booking): Folio {
+    const entries = db.getFolioEntriesByBookingId(booking.id)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+    const sum = (type: FolioEntryType) => roundCurrency(
+      entries.filter(entry => entry.type === type).reduce((total, entry) => total + entry.amount, 0)
+    );
+
+    const incidentals = sum(FolioEntryType.CHARGE);
+    const credits = sum(FolioEntryType.CREDIT);
+    const total = roundCurrency(booking.totalPrice + incidentals - credits);
+    const paid = paymentService.getPaidAmount(booking.id);
+
+    return {
+      bookingId: booking.id,
+      roomCharges: booking.totalPrice,
+      entries,
+      incidentals,
+      credits,
+      total,
+      paid,
+      balance: roundCurrency(total - paid)
+    };
+  }
+
+  /**
+   * Post a charge or credit to the folio of a guest who is checked in
+   */
+  async postEntry(
+    bookingId: string,
+    type: FolioEntryType,
+    description: string,
+    amount: number,
+    actorId: string
+  ): Promise<FolioEntry> {
+    return lockManager.withLock(lockKeys.booking(bookingId), async () => {
+      const booking = db.getBookingById(bookingId);
+      if (!booking) {
+        throw new AppError('Booking not found', 404);
+      }
+
+      if (booking.status !== BookingStatus.CHECKED_IN) {
+        throw new AppError('Charges can only be posted while the guest is checked in', 409);
+      }
+
+      // A credit can wipe out the bill but never leave the hotel owing more than was paid
+      const { total } = this.getFolio(booking);
+      if (type === FolioEntryType.CREDIT && amount > total) {
+        throw new AppError(`Credit cannot exceed the folio total of ${total.toFixed(2)}`, 400);
+      }
+
+      return this.createEntry(bookingId, type, description, amount, actorId);
+    });
+  }
+
+  /**
+   * Charge a fee the hotel applies itself, such as for early check-in or late check-out. A fee
+   * already on the folio is not charged again, so a retried check-out cannot double it.
+   *
+   * Caller must hold the booking lock
+   */
+  addFee(bookingId: string, description: string, amount: number, actorId: string): FolioEntry {
+    const existing = db.getFolioEntriesByBookingId(bookingId).find(entry =>
+      entry.type === FolioEntryType.CHARGE && entry.description === description
+    );
+    return existing || this.createEntry(bookingId, FolioEntryType.CHARGE, description, amount, actorId);
+  }
+
+  /**
+   * Charge an outstanding balance to the guest's original payment method, or refund an
+   * overpayment. A declined charge throws and leaves the balance open.
+   *
+   * Caller must hold the booking lock
+   */
+  async settle(booking: Booking): Promise<FolioSettlement> {
+    const { balance } = this.getFolio(booking);
+
+    let payment: Payment | undefined;
+    let refunds: Refund[] = [];
+    if (balance > 0) {
+      const original = db.getPaymentByBookingId(booking.id);
+      payment = await paymentService.charge(
+        booking.id,
+        balance,
+        original ? original.paymentMethod : DEFAULT_PAYMENT_METHOD,
+        'Folio settlement'
+      );
+      if (payment.status !== PaymentStatus.COMPLETED) {
+        throw new AppError(`Payment of the folio balance failed: ${payment.failureReason}`, 402);
+      }
+    } else if (balance < 0) {
+      refunds = await paymentService.refund(booking.id, -balance, 'Folio settlement');
+    }
+
+    return { folio: this.getFolio(booking), payment, refunds };
+  }
+
+  private createEntry(
+    bookingId: string,
+    type: FolioEntryType,
+    description: string,
+    amount: number,
+    actorId: string
+  ): FolioEntry {
+    return db.createFolioEntry({
+      id: uuidv4(),
+      bookingId,
+      type,
+      description,
+      amount: roundCurrency(amount),
+      postedBy: actorId,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+  }
+}
+
+export const folioService = new FolioService();
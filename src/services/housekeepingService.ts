@@ -0,0 +1,144 @@
+// services/housekeepingService.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../database';
+import { AppError } from '../errors';
+import {
+  HousekeepingStatus,
+  HousekeepingTask,
+  HousekeepingTaskStatus,
+  Room,
+  UserRole
+} from '../types';
+
+// Legal housekeeping status changes; any used room can be sent back to DIRTY
+const TRANSITIONS: Record<HousekeepingStatus, HousekeepingStatus[]> = {
+  [HousekeepingStatus.DIRTY]: [HousekeepingStatus.CLEANING],
+  [HousekeepingStatus.CLEANING]: [HousekeepingStatus.CLEAN, HousekeepingStatus.DIRTY],
+  [HousekeepingStatus.CLEAN]: [HousekeepingStatus.INSPECTED, HousekeepingStatus.DIRTY],
+  [HousekeepingStatus.INSPECTED]: [HousekeepingStatus.DIRTY]
+};
+
+// Statuses a guest may check in to
+const READY_STATUSES = [HousekeepingStatus.CLEAN, HousekeepingStatus.INSPECTED];
+
+const OPEN_TASK_STATUSES = [HousekeepingTaskStatus.OPEN, HousekeepingTaskStatus.IN_PROGRESS];
+
+export interface HousekeepingTaskFilter {
+  status?: HousekeepingTaskStatus;
+  assignedTo?: string;
+}
+
+class HousekeepingService {
+  isReady(room: Room): boolean {
+    return READY_STATUSES.includes(room.housekeepingStatus);
+  }
+
+  /**
+   * Mark a room DIRTY and queue a cleaning task for it, e.g. when its guest checks out
+   */
+  markDirty(roomId: string, bookingId?: string): HousekeepingTask {
+    return db.transaction(() => {
+      db.updateRoom(roomId, { housekeepingStatus: HousekeepingStatus.DIRTY });
+
+      // A clean that was abandoned part way goes back in the queue
+      const task = this.getOpenTask(roomId);
+      if (task) {
+        return task.status === HousekeepingTaskStatus.OPEN
+          ? task
+          : db.updateHousekeepingTask(task.id, { status: HousekeepingTaskStatus.OPEN }) as HousekeepingTask;
+      }
+
+      return db.createHousekeepingTask({
+        id: uuidv4(),
+        roomId,
+        bookingId,
+        status: HousekeepingTaskStatus.OPEN,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      });
+    });
+  }
+
+  /**
+   * Move a room through the housekeeping cycle, keeping its cleaning task in step: starting to
+   * clean takes the task (assigning it to the actor if nobody has it), and finishing closes it
+   */
+  updateRoomStatus(roomId: string, status: HousekeepingStatus, actorId: string): Room {
+    const room = db.getRoomById(roomId);
+    if (!room) {
+      throw new AppError('Room not found', 404);
+    }
+
+    if (!TRANSITIONS[room.housekeepingStatus].includes(status)) {
+      throw new AppError(`Cannot change housekeeping status from ${room.housekeepingStatus} to ${status}`, 409);
+    }
+
+    if (status === HousekeepingStatus.DIRTY) {
+      this.markDirty(roomId);
+      return db.getRoomById(roomId)!;
+    }
+
+    return db.transaction(() => {
+      const task = this.getOpenTask(roomId);
+      if (task && status === HousekeepingStatus.CLEANING) {
+        db.updateHousekeepingTask(task.id, {
+          status: HousekeepingTaskStatus.IN_PROGRESS,
+          assignedTo: task.assignedTo || actorId
+        });
+      } else if (task && status === HousekeepingStatus.CLEAN) {
+        db.updateHousekeepingTask(task.id, { status: HousekeepingTaskStatus.DONE, completedAt: new Date() });
+      }
+
+      return db.updateRoom(roomId, { housekeepingStatus: status }) as Room;
+    });
+  }
+
+  /**
+   * Rooms by number with their housekeeping status, optionally only those in one status
+   */
+  getRooms(status?: HousekeepingStatus): Room[] {
+    return db.getAllRooms()
+      .filter(room => !status || room.housekeepingStatus === status)
+      .sort((a, b) => a.roomNumber.localeCompare(b.roomNumber, undefined, { numeric: true }));
+  }
+
+  /**
+   * Tasks, oldest first, optionally filtered by status and assignee
+   */
+  getTasks(filter: HousekeepingTaskFilter = {}): HousekeepingTask[] {
+    return db.getAllHousekeepingTasks()
+      .filter(task =>
+        (!filter.status || task.status === filter.status) &&
+        (!filter.assignedTo || task.assignedTo === filter.assignedTo)
+      )
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  /**
+   * Give an open task to a member of staff
+   */
+  assignTask(taskId: string, staffId: string): HousekeepingTask {
+    const task = db.getHousekeepingTaskById(taskId);
+    if (!task) {
+      throw new AppError('Housekeeping task not found', 404);
+    }
+
+    if (task.status === HousekeepingTaskStatus.DONE) {
+      throw new AppError('Cannot assign a completed task', 409);
+    }
+
+    const staff = db.getUserById(staffId);
+    if (!staff || staff.role === UserRole.GUEST) {
+      throw new AppError('Tasks can only be assigned to staff', 400);
+    }
+
+    return db.updateHousekeepingTask(taskId, { assignedTo: staffId }) as HousekeepingTask;
+  }
+
+  private getOpenTask(roomId: string): HousekeepingTask | undefined {
+    return db.getHousekeepingTasksByRoomId(roomId).find(task => OPEN_TASK_STATUSES.includes(task.status));
+  }
+}
+
+export const housekeepingService = new HousekeepingService();
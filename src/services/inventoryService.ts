@@ -0,0 +1,130 @@
+// services/inventoryService.ts
+
+import { availabilityIndex, db, roomTypeIndex } from '../database';
+import { Booking, BookingStatus, MaintenanceBlock, Room, RoomType, RoomTypeAvailability } from '../types';
+import { RELEASED_STATUSES } from './bookingStateMachine';
+import { pricingService } from './pricingService';
+import { countStaysByNight, mergeStays } from '../utils/dates';
+
+// Room-type inventory: every active booking uses one unit of a type per night, whether or
+// not a specific room has been assigned to it yet.
+class InventoryService {
+  /**
+   * Whether a booking currently takes up inventory. Holds stop counting as soon as they
+   * lapse, even before the expiry sweeper has marked them EXPIRED.
+   */
+  holdsInventory(booking: Booking, now: Date = new Date()): boolean {
+    return !RELEASED_STATUSES.includes(booking.status) && !this.isLapsedHold(booking, now);
+  }
+
+  isLapsedHold(booking: Booking, now: Date = new Date()): boolean {
+    return booking.status === BookingStatus.PENDING &&
+      booking.holdExpiresAt !== undefined &&
+      new Date(booking.holdExpiresAt) <= now;
+  }
+
+  /**
+   * The type whose inventory a booking uses: its assigned room's type, else the type it was sold as
+   */
+  inventoryTypeOf(booking: Booking): RoomType {
+    const room = booking.roomId ? db.getRoomById(booking.roomId) : undefined;
+    return room ? room.type : booking.roomType;
+  }
+
+  getRoomsOfType(roomType: RoomType): readonly Room[] {
+    return roomTypeIndex.getRooms(roomType);
+  }
+
+  /**
+   * Room a type-level booking is priced against: the cheapest room of the type
+   */
+  getReferenceRoom(roomType: RoomType): Room | undefined {
+    return [...this.getRoomsOfType(roomType)].sort((a, b) => a.pricePerNight - b.pricePerNight)[0];
+  }
+
+  /**
+   * Most guests a type-level booking may carry so that any room of the type can be assigned
+   */
+  getGuaranteedCapacity(roomType: RoomType): number {
+    const rooms = this.getRoomsOfType(roomType);
+    return rooms.length > 0 ? Math.min(...rooms.map(room => room.capacity)) : 0;
+  }
+
+  /**
+   * Maintenance blocks overlapping a date range, optionally for one room
+   */
+  getMaintenanceBlocks(checkInDate: Date, checkOutDate: Date, roomId?: string): MaintenanceBlock[] {
+    const blocks = roomId ? db.getMaintenanceBlocksByRoomId(roomId) : db.getAllMaintenanceBlocks();
+    return blocks.filter(block =>
+      new Date(block.startDate) < checkOutDate && new Date(block.endDate) > checkInDate
+    );
+  }
+
+  /**
+   * Units of a type taken on each night of a range, by bookings and by rooms blocked for maintenance
+   * or out of order. A room counts once a night however many of these cover it.
+   */
+  getDemandByNight(
+    roomType: RoomType,
+    checkInDate: Date,
+    checkOutDate: Date,
+    excludeBookingId?: string
+  ): Map<string, number> {
+    const now = new Date();
+    const counts = (booking: Booking) => booking.id !== excludeBookingId && this.holdsInventory(booking, now);
+    const blocks = this.getMaintenanceBlocks(checkInDate, checkOutDate);
+
+    const takenRooms = this.getRoomsOfType(roomType).flatMap(room => {
+      if (!room.isAvailable) {
+        return [{ checkInDate, checkOutDate }];
+      }
+      return mergeStays([
+        ...availabilityIndex.getRoomStays(room.id, checkInDate, checkOutDate).filter(counts),
+        ...blocks
+          .filter(block => block.roomId === room.id)
+          .map(block => ({ checkInDate: block.startDate, checkOutDate: block.endDate }))
+      ]);
+    });
+    const unassigned = availabilityIndex.getUnassignedStays(roomType, checkInDate, checkOutDate).filter(counts);
+
+    return countStaysByNight(checkInDate, checkOutDate, [...takenRooms, ...unassigned]);
+  }
+
+  /**
+   * Units of a type free on every night of a range
+   */
+  getAvailableCount(roomType: RoomType, checkInDate: Date, checkOutDate: Date, excludeBookingId?: string): number {
+    const totalRooms = this.getRoomsOfType(roomType).length;
+    const demand = this.getDemandByNight(roomType, checkInDate, checkOutDate, excludeBookingId);
+    const busiestNight = Math.max(0, ...Array.from(demand.values()));
+    return Math.max(0, totalRooms - busiestNight);
+  }
+
+  /**
+   * Free units and a quote for every room type over a date range
+   */
+  getTypeAvailability(checkInDate: Date, checkOutDate: Date): RoomTypeAvailability[] {
+    const occupancy = pricingService.getOccupancyByNight(checkInDate, checkOutDate);
+
+    const availability: RoomTypeAvailability[] = [];
+    for (const roomType of Object.values(RoomType)) {
+      const referenceRoom = this.getReferenceRoom(roomType);
+      if (!referenceRoom) continue;
+
+      const availableRooms = this.getAvailableCount(roomType, checkInDate, checkOutDate);
+      availability.push({
+        roomType,
+        totalRooms: this.getRoomsOfType(roomType).length,
+        availableRooms,
+        maxGuests: this.getGuaranteedCapacity(roomType),
+        pricePerNight: referenceRoom.pricePerNight,
+        quotedTotal: availableRooms > 0
+          ? pricingService.quote(referenceRoom, checkInDate, checkOutDate, { occupancy }).total
+          : undefined
+      });
+    }
+    return availability;
+  }
+}
+
+export const inventoryService = new InventoryService();
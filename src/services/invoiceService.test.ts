@@ -0,0 +1,73 @@
+// services/invoiceService.test.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../database';
+import { UserRole } from '../types';
+import { addDays } from '../utils/dates';
+import { bookingService } from './bookingService';
+import { currencyService } from './currencyService';
+import { invoiceService } from './invoiceService';
+
+const createGuest = (): string => {
+  const id = uuidv4();
+  db.createUser({
+    id,
+    email: `${id}@example.com`,
+    password: 'not-a-real-hash',
+    role: UserRole.GUEST,
+    firstName: 'Test',
+    lastName: 'Guest',
+    phone: '+15550000000',
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+  return id;
+};
+
+const day = (offset: number): Date => {
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+  return addDays(today, offset);
+};
+
+beforeAll(async () => {
+  while (db.getAllRooms().length === 0) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+});
+
+beforeEach(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  currencyService.deleteRate('JPY');
+});
+
+describe('getDocument', () => {
+  it('shows the amounts charged in the booking currency at the rate of the booking', async () => {
+    currencyService.setRate('JPY', 150.5);
+    const created = await bookingService.createBooking(createGuest(), 'room-1', day(150), day(152), 1, { currency: 'JPY' });
+    await bookingService.processPayment(created!.payment.id);
+    const booking = db.getBookingById(created!.booking.id)!;
+    const payment = db.getPaymentByBookingId(booking.id)!;
+
+    // A later rate change does not alter what the guest was charged
+    currencyService.setRate('JPY', 200);
+    const document = invoiceService.getDocument(booking);
+
+    expect(document.currency).toBe('JPY');
+    expect(document.exchangeRate).toBe(150.5);
+    expect(document.total).toBe(payment.amountMinor);
+    expect(document.total).toBe(Math.round(booking.totalPrice * 150.5));
+    expect(document.subtotal + document.taxTotal).toBe(document.total);
+    expect(document.payments.map(({ amount }) => amount)).toEqual([payment.amountMinor]);
+    expect(document.paid).toBe(document.total);
+    expect(document.balance).toBe(0);
+
+    const html = invoiceService.renderHtml(document);
+    expect(html).toContain(`${document.total} JPY`);
+    expect(html).toContain(`1 ${currencyService.getBaseCurrency()} = 150.5 JPY`);
+  });
+});
@@ -0,0 +1,335 @@
+// services/invoiceService.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config';
+import { db } from '../database';
+import { AppError } from '../errors';
+import {
+  Booking,
+  BookingStatus,
+  FolioEntryType,
+  Guest,
+  Invoice,
+  InvoiceDocument,
+  InvoiceLine,
+  InvoicePayment,
+  LineItemType,
+  PaymentStatus,
+  RefundStatus
+} from '../types';
+import { currencyService } from './currencyService';
+import { folioService } from './folioService';
+import { paymentService } from './paymentService';
+import { toDateKey } from '../utils/dates';
+import { currencyExponent, fromMinorUnits } from '../utils/money';
+import { PDF_PAGE_HEIGHT, PdfText, pdfTextWidth, renderPdf } from '../utils/pdf';
+
+// Bookings the guest has paid for and may be invoiced
+const INVOICEABLE_STATUSES = [BookingStatus.CONFIRMED, BookingStatus.CHECKED_IN, BookingStatus.CHECKED_OUT];
+
+// Payments that took money from the guest, even if some was refunded later
+const RECEIVED_STATUSES = [PaymentStatus.COMPLETED, PaymentStatus.PARTIALLY_REFUNDED, PaymentStatus.REFUNDED];
+
+const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+const formatDate = (date: Date): string => toDateKey(date);
+
+type MinorUnitLine = InvoiceLine & { amountMinor: number };
+
+// Shown when the guest was charged in a currency other than the hotel's own
+const exchangeRateNote = ({ currency, baseCurrency, exchangeRate }: InvoiceDocument): string | undefined =>
+  currency === baseCurrency ? undefined : `Exchange rate: 1 ${baseCurrency} = ${exchangeRate} ${currency}, as of booking`;
+
+// Amounts print with as many decimals as the currency has minor units
+const formatAmount = (currency: string) => (amount: number): string => amount.toFixed(currencyExponent(currency));
+
+class InvoiceService {
+  /**
+   * The booking's invoice number, taking the next one in sequence the first time it is asked for
+   */
+  issue(booking: Booking): Invoice {
+    if (!INVOICEABLE_STATUSES.includes(booking.status)) {
+      throw new AppError(`Cannot invoice a booking that is ${booking.status}`, 409);
+    }
+
+    return db.transaction(() => {
+      const existing = db.getInvoiceByBookingId(booking.id);
+      if (existing) return existing;
+
+      // Invoices are never deleted, so the highest sequence so far is never handed out again
+      const sequence = db.getAllInvoices().reduce((highest, invoice) => Math.max(highest, invoice.sequence), 0) + 1;
+      return db.createInvoice({
+        id: uuidv4(),
+        bookingId: booking.id,
+        sequence,
+        number: `${config.invoice.prefix}-${String(sequence).padStart(6, '0')}`,
+        issuedAt: new Date(),
+        createdAt: new Date(),
+        updatedAt: new Date()
+      });
+    });
+  }
+
+  /**
+   * Issue the booking's invoice if needed and gather what it shows: the stay's line items and
+   * folio incidentals, taxes, payments and refunds, and the balance left to pay. Amounts are in
+   * the booking's currency: charges are converted at the booking's exchange rate, and payments
+   * and refunds show the minor-unit amounts the guest was actually charged or refunded.
+   */
+  getDocument(booking: Booking): InvoiceDocument {
+    const invoice = this.issue(booking);
+    const folio = folioService.getFolio(booking);
+    const { currency, exchangeRate } = booking;
+
+    // Sums are taken in minor units so they match the rounded amounts printed
+    const toMinor = (baseAmount: number) => currencyService.toMinor(baseAmount, currency, exchangeRate);
+    const fromMinor = (amountMinor: number) => fromMinorUnits(amountMinor, currency);
+    const sumMinor = (items: { amountMinor: number }[]) => items.reduce((total, item) => total + item.amountMinor, 0);
+
+    const toLine = (item: InvoiceLine): MinorUnitLine => ({ ...item, amountMinor: toMinor(item.amount) });
+    const lines = [
+      ...booking.lineItems.filter(item => item.type !== LineItemType.TAX).map(toLine),
+      ...folio.entries.map(entry => {
+        const amount = entry.type === FolioEntryType.CREDIT ? -entry.amount : entry.amount;
+        return toLine({ date: toDateKey(entry.createdAt), description: entry.description, quantity: 1, unitPrice: amount, amount });
+      })
+    ];
+    const taxes = booking.lineItems.filter(item => item.type === LineItemType.TAX).map(toLine);
+
+    const payments: { date: Date; description: string; amountMinor: number }[] = [];
+    for (const payment of paymentService.getPayments(booking.id)) {
+      if (!RECEIVED_STATUSES.includes(payment.status)) continue;
+
+      payments.push({
+        date: payment.paidAt || payment.createdAt,
+        description: `${payment.description || 'Payment'} (${payment.paymentMethod})`,
+        amountMinor: payment.amountMinor
+      });
+      db.getRefundsByPaymentId(payment.id)
+        .filter(refund => refund.status === RefundStatus.COMPLETED)
+        .forEach(refund => payments.push({
+          date: refund.createdAt,
+          description: `Refund: ${refund.reason}`,
+          amountMinor: -refund.amountMinor
+        }));
+    }
+    payments.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+    // The total is converted as a whole, as it was when the guest was charged; any rounding
+    // between it and the converted rows is absorbed by the tax total
+    const subtotal = sumMinor(lines);
+    const total = toMinor(folio.total);
+    const paid = sumMinor(payments);
+
+    const toInvoiceLine = ({ date, description, quantity, unitPrice, amountMinor }: MinorUnitLine): InvoiceLine => ({
+      date,
+      description,
+      quantity,
+      unitPrice: currencyService.convert(unitPrice, currency, exchangeRate),
+      amount: fromMinor(amountMinor)
+    });
+    return {
+      invoice,
+      currency,
+      baseCurrency: currencyService.getBaseCurrency(),
+      exchangeRate,
+      booking,
+      guest: db.getUserById(booking.guestId) as Guest,
+      room: booking.roomId ? db.getRoomById(booking.roomId) : undefined,
+      lines: lines.map(toInvoiceLine),
+      taxes: taxes.map(toInvoiceLine),
+      subtotal: fromMinor(subtotal),
+      taxTotal: fromMinor(total - subtotal),
+      total: fromMinor(total),
+      payments: payments.map(({ date, description, amountMinor }): InvoicePayment => ({ date, description, amount: fromMinor(amountMinor) })),
+      paid: fromMinor(paid),
+      balance: fromMinor(total - paid)
+    };
+  }
+
+  renderHtml(document: InvoiceDocument): string {
+    const { invoice, booking, guest, room, currency } = document;
+    const amount = formatAmount(currency);
+    const money = (value: number) => `${amount(value)} ${currency}`;
+    const rateNote = exchangeRateNote(document);
+    const lineRows = (lines: InvoiceLine[]) => lines.map(line => `
+          <tr>
+            <td>${line.date || ''}</td>
+            <td>${escapeHtml(line.description)}</td>
+            <td class="number">${line.quantity}</td>
+            <td class="number">${amount(line.unitPrice)}</td>
+            <td class="number">${amount(line.amount)}</td>
+          </tr>`).join('');
+    const paymentRows = document.payments.map(payment => `
+          <tr>
+            <td>${formatDate(payment.date)}</td>
+            <td colspan="3">${escapeHtml(payment.description)}</td>
+            <td class="number">${amount(payment.amount)}</td>
+          </tr>`).join('');
+
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Invoice ${invoice.number}</title>
+        <style>
+          body {
+            font-family: Arial, sans-serif;
+            color: #333;
+            max-width: 800px;
+            margin: 0 auto;
+            padding: 20px;
+          }
+          table {
+            width: 100%;
+            border-collapse: collapse;
+            margin-bottom: 20px;
+          }
+          th, td {
+            padding: 6px;
+            border-bottom: 1px solid #ddd;
+            text-align: left;
+          }
+          .number {
+            text-align: right;
+          }
+          .total td {
+            font-weight: bold;
+          }
+        </style>
+      </head>
+      <body>
+        <h1>Invoice ${invoice.number}</h1>
+        <p>
+          <strong>${escapeHtml(config.invoice.hotelName)}</strong><br>
+          ${config.invoice.hotelAddress ? `${escapeHtml(config.invoice.hotelAddress)}<br>` : ''}
+          ${config.invoice.taxId ? `Tax ID: ${escapeHtml(config.invoice.taxId)}` : ''}
+        </p>
+        <p>
+          Issued: ${formatDate(invoice.issuedAt)}<br>
+          Billed to: ${escapeHtml(`${guest.firstName} ${guest.lastName}`)} (${escapeHtml(guest.email)})<br>
+          Booking: ${booking.id.toUpperCase()}<br>
+          Stay: ${formatDate(booking.checkInDate)} to ${formatDate(booking.checkOutDate)}, ${room ? `${room.type} room ${room.roomNumber}` : `${booking.roomType} room`}
+          ${rateNote ? `<br>${rateNote}` : ''}
+        </p>
+
+        <table>
+          <tr>
+            <th>Date</th>
+            <th>Description</th>
+            <th class="number">Qty</th>
+            <th class="number">Unit price</th>
+            <th class="number">Amount</th>
+          </tr>${lineRows(document.lines)}
+          <tr class="total">
+            <td colspan="4">Subtotal</td>
+            <td class="number">${money(document.subtotal)}</td>
+          </tr>${lineRows(document.taxes)}
+          <tr class="total">
+            <td colspan="4">Taxes</td>
+            <td class="number">${money(document.taxTotal)}</td>
+          </tr>
+          <tr class="total">
+            <td colspan="4">Total</td>
+            <td class="number">${money(document.total)}</td>
+          </tr>
+        </table>
+
+        <table>
+          <tr>
+            <th>Date</th>
+            <th colspan="3">Payments</th>
+            <th class="number">Amount</th>
+          </tr>${paymentRows}
+          <tr class="total">
+            <td colspan="4">Paid</td>
+            <td class="number">${money(document.paid)}</td>
+          </tr>
+          <tr class="total">
+            <td colspan="4">Balance due</td>
+            <td class="number">${money(document.balance)}</td>
+          </tr>
+        </table>
+      </body>
+      </html>
+    `;
+  }
+
+  renderPdf(document: InvoiceDocument): Buffer {
+    const { invoice, booking, guest, room, currency } = document;
+    const margin = 50;
+    const right = 545;
+    const size = 9;
+    const lineHeight = 14;
+    // Longest description that fits before the quantity column
+    const descriptionChars = Math.floor((340 - 120) / pdfTextWidth('x', size));
+
+    const pages: PdfText[][] = [[]];
+    let y = margin;
+    const page = () => pages[pages.length - 1];
+    const newLine = (height: number = lineHeight) => {
+      y += height;
+      if (y > PDF_PAGE_HEIGHT - margin) {
+        pages.push([]);
+        y = margin + lineHeight;
+      }
+    };
+    const text = (x: number, value: string, options: { size?: number; bold?: boolean } = {}) =>
+      page().push({ x, y, text: value, size: options.size || size, bold: options.bold });
+    const rightText = (x: number, value: string, bold: boolean = false) =>
+      text(x - pdfTextWidth(value, size), value, { bold });
+    const row = (date: string, description: string, columns: string[], bold: boolean = false) => {
+      newLine();
+      text(margin, date, { bold });
+      text(120, description.length > descriptionChars ? description.slice(0, descriptionChars - 3) + '...' : description, { bold });
+      [380, 460, right].slice(3 - columns.length).forEach((x, i) => rightText(x, columns[i], bold));
+    };
+    const money = formatAmount(currency);
+
+    newLine();
+    text(margin, `Invoice ${invoice.number}`, { size: 16, bold: true });
+    newLine(24);
+    text(margin, config.invoice.hotelName, { bold: true });
+    [config.invoice.hotelAddress, config.invoice.taxId && `Tax ID: ${config.invoice.taxId}`]
+      .filter(Boolean)
+      .forEach(detail => { newLine(); text(margin, detail as string); });
+    newLine(lineHeight * 2);
+    text(margin, `Issued:    ${formatDate(invoice.issuedAt)}`);
+    newLine();
+    text(margin, `Billed to: ${guest.firstName} ${guest.lastName} (${guest.email})`);
+    newLine();
+    text(margin, `Booking:   ${booking.id.toUpperCase()}`);
+    newLine();
+    text(margin, `Stay:      ${formatDate(booking.checkInDate)} to ${formatDate(booking.checkOutDate)}, ` +
+      (room ? `${room.type} room ${room.roomNumber}` : `${booking.roomType} room`));
+    const rateNote = exchangeRateNote(document);
+    if (rateNote) {
+      newLine();
+      text(margin, rateNote);
+    }
+    newLine();
+
+    row('Date', 'Description', ['Qty', 'Unit price', `Amount (${currency})`], true);
+    document.lines.forEach(line =>
+      row(line.date || '', line.description, [String(line.quantity), money(line.unitPrice), money(line.amount)])
+    );
+    row('', 'Subtotal', [money(document.subtotal)], true);
+    document.taxes.forEach(line =>
+      row(line.date || '', line.description, [String(line.quantity), money(line.unitPrice), money(line.amount)])
+    );
+    row('', 'Taxes', [money(document.taxTotal)], true);
+    row('', 'Total', [money(document.total)], true);
+    newLine();
+
+    row('Date', 'Payments', [`Amount (${currency})`], true);
+    document.payments.forEach(payment => row(formatDate(payment.date), payment.description, [money(payment.amount)]));
+    row('', 'Paid', [money(document.paid)], true);
+    row('', 'Balance due', [money(document.balance)], true);
+
+    return renderPdf(pages);
+  }
+}
+
+export const invoiceService = new InvoiceService();
@@ -0,0 +1,92 @@
+// services/maintenanceService.test.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import { db, lockManager, lockKeys } from '../database';
+import { UserRole } from '../types';
+import { addDays } from '../utils/dates';
+import { bookingService } from './bookingService';
+import { inventoryService } from './inventoryService';
+import { maintenanceService } from './maintenanceService';
+
+const createGuest = (): string => {
+  const id = uuidv4();
+  db.createUser({
+    id,
+    email: `${id}@example.com`,
+    password: 'not-a-real-hash',
+    role: UserRole.GUEST,
+    firstName: 'Test',
+    lastName: 'Guest',
+    phone: '+15550000000',
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+  return id;
+};
+
+const day = (offset: number): Date => {
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+  return addDays(today, offset);
+};
+
+beforeAll(async () => {
+  while (db.getAllRooms().length === 0) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+});
+
+beforeEach(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('createBlock', () => {
+  it('refuses to block a room over the dates of a booking in it', async () => {
+    const created = await bookingService.createBooking(createGuest(), 'room-6', day(200), day(202), 1);
+
+    await expect(
+      maintenanceService.createBlock('room-6', day(201), day(203), 'Leak', 'admin-1')
+    ).rejects.toMatchObject({ statusCode: 409, message: expect.stringContaining(created!.booking.id) });
+    expect(inventoryService.getMaintenanceBlocks(day(201), day(203), 'room-6')).toEqual([]);
+  });
+});
+
+describe('removeBlock', () => {
+  it('waits for the room lock before returning the room to service', async () => {
+    const block = await maintenanceService.createBlock('room-7', day(210), day(212), 'Repainting', 'admin-1');
+
+    let release!: () => void;
+    const held = lockManager.withLock(lockKeys.room('room-7'), () => new Promise<void>(resolve => { release = resolve; }));
+    const removed = maintenanceService.removeBlock(block.id);
+    await new Promise(resolve => setImmediate(resolve));
+    expect(db.getMaintenanceBlockById(block.id)).toBeDefined();
+
+    release();
+    await held;
+    await expect(removed).resolves.toMatchObject({ id: block.id });
+    expect(db.getMaintenanceBlockById(block.id)).toBeUndefined();
+  });
+});
+
+describe('getDemandByNight', () => {
+  it('counts a blocked room once on nights a booking is still in it', async () => {
+    await bookingService.createBooking(createGuest(), 'room-6', day(220), day(221), 1);
+    // Written directly, as a block created before overlapping bookings were refused would be
+    db.createMaintenanceBlock({
+      id: uuidv4(),
+      roomId: 'room-6',
+      startDate: day(220),
+      endDate: day(222),
+      reason: 'Leak',
+      createdBy: 'admin-1',
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+
+    expect(inventoryService.getAvailableCount(db.getRoomById('room-6')!.type, day(220), day(222))).toBe(1);
+  });
+});
@@ -0,0 +1,97 @@
+// services/maintenanceService.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import { availabilityIndex, db, lockManager, lockKeys } from '../database';
+import { AppError } from '../errors';
+import { Booking, MaintenanceBlock, MaintenanceBlockDetails } from '../types';
+import { inventoryService } from './inventoryService';
+
+// Date-ranged out-of-order periods for rooms. A blocked room cannot be booked or assigned and
+// counts as one unit fewer of its type for the blocked nights.
+class MaintenanceService {
+  /**
+   * Block a room for maintenance. Refused while bookings are in the room over those dates;
+   * they have to be moved to another room first.
+   */
+  async createBlock(
+    roomId: string,
+    startDate: Date,
+    endDate: Date,
+    reason: string,
+    createdBy: string
+  ): Promise<MaintenanceBlock> {
+    const room = db.getRoomById(roomId);
+    if (!room) {
+      throw new AppError('Room not found', 404);
+    }
+
+    // The room and type locks stop bookings landing in the room or type while the block is written
+    return lockManager.withLock([lockKeys.room(roomId), lockKeys.roomType(room.type)], async () => {
+      if (inventoryService.getMaintenanceBlocks(startDate, endDate, roomId).length > 0) {
+        throw new AppError('Room already has a maintenance block overlapping these dates', 409);
+      }
+
+      const affected = this.getAffectedBookings({ roomId, startDate, endDate });
+      if (affected.length > 0) {
+        throw new AppError(
+          `Room has ${affected.length} booking(s) over these dates; move them to another room first: ` +
+            affected.map(booking => booking.id).join(', '),
+          409
+        );
+      }
+
+      return db.createMaintenanceBlock({
+        id: uuidv4(),
+        roomId,
+        startDate,
+        endDate,
+        reason,
+        createdBy,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      });
+    });
+  }
+
+  /**
+   * Blocks ordered by start date, optionally for one room
+   */
+  getBlocks(roomId?: string): MaintenanceBlock[] {
+    const blocks = roomId ? db.getMaintenanceBlocksByRoomId(roomId) : db.getAllMaintenanceBlocks();
+    return blocks.sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
+  }
+
+  getBlock(blockId: string): MaintenanceBlockDetails | undefined {
+    const block = db.getMaintenanceBlockById(blockId);
+    return block ? { block, affectedBookings: this.getAffectedBookings(block) } : undefined;
+  }
+
+  /**
+   * Return a room to service for the block's dates
+   */
+  async removeBlock(blockId: string): Promise<MaintenanceBlock> {
+    const block = db.getMaintenanceBlockById(blockId);
+    if (!block) {
+      throw new AppError('Maintenance block not found', 404);
+    }
+
+    return lockManager.withLock(lockKeys.room(block.roomId), async () => {
+      // Another request may have removed it while we waited for the lock
+      if (!db.deleteMaintenanceBlock(blockId)) {
+        throw new AppError('Maintenance block not found', 404);
+      }
+      return block;
+    });
+  }
+
+  /**
+   * Active bookings in the blocked room over the block's dates, which need another room
+   */
+  getAffectedBookings(block: Pick<MaintenanceBlock, 'roomId' | 'startDate' | 'endDate'>): Booking[] {
+    const now = new Date();
+    return availabilityIndex.getRoomStays(block.roomId, new Date(block.startDate), new Date(block.endDate))
+      .filter(booking => inventoryService.holdsInventory(booking, now));
+  }
+}
+
+export const maintenanceService = new MaintenanceService();
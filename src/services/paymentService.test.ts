@@ -0,0 +1,60 @@
+// services/paymentService.test.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../database';
+import { PaymentGatewayError } from '../errors';
+import { PaymentStatus, UserRole } from '../types';
+import { addDays } from '../utils/dates';
+import { bookingService } from './bookingService';
+import { paymentService } from './paymentService';
+import { paymentGateway } from './payments';
+
+const createGuest = (): string => {
+  const id = uuidv4();
+  db.createUser({
+    id,
+    email: `${id}@example.com`,
+    password: 'not-a-real-hash',
+    role: UserRole.GUEST,
+    firstName: 'Test',
+    lastName: 'Guest',
+    phone: '+15550000000',
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+  return id;
+};
+
+const day = (offset: number): Date => {
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+  return addDays(today, offset);
+};
+
+beforeAll(async () => {
+  while (db.getAllRooms().length === 0) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+});
+
+beforeEach(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('capture', () => {
+  it('voids the authorization when the provider fails during capture', async () => {
+    const created = await bookingService.createBooking(createGuest(), 'room-1', day(160), day(161), 1);
+    jest.spyOn(paymentGateway, 'capture').mockRejectedValue(new PaymentGatewayError('Payment provider returned HTTP 503'));
+    const voidAuthorization = jest.spyOn(paymentGateway, 'void');
+
+    await expect(paymentService.capture(created!.payment.id)).rejects.toThrow(PaymentGatewayError);
+
+    const payment = db.getPaymentById(created!.payment.id)!;
+    expect(voidAuthorization).toHaveBeenCalledWith(payment.authorizationId);
+    expect(payment.status).toBe(PaymentStatus.FAILED);
+  });
+});
@@ -0,0 +1,240 @@
+// services/paymentService.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config';
+import { db } from '../database';
+import { errorMessage } from '../errors';
+import { Payment, PaymentStatus, Refund, RefundStatus } from '../types';
+import { currencyService } from './currencyService';
+import { GatewayResult, paymentGateway } from './payments';
+import { roundCurrency } from '../utils/money';
+
+// Payment statuses that still hold captured money
+const CAPTURED_STATUSES = [PaymentStatus.COMPLETED, PaymentStatus.PARTIALLY_REFUNDED];
+
+class PaymentService {
+  /**
+   * All payments taken for a booking, oldest first
+   */
+  getPayments(bookingId: string): Payment[] {
+    return db.getPaymentsByBookingId(bookingId);
+  }
+
+  /**
+   * Amount captured for a booking and not yet refunded
+   */
+  getPaidAmount(bookingId: string): number {
+    return roundCurrency(
+      this.getPayments(bookingId)
+        .filter(payment => CAPTURED_STATUSES.includes(payment.status))
+        .reduce((total, payment) => total + this.getRefundableAmount(payment), 0)
+    );
+  }
+
+  /**
+   * Amount already refunded for a booking under the given reason
+   */
+  getRefundedAmount(bookingId: string, reason: string): number {
+    return roundCurrency(
+      this.getPayments(bookingId)
+        .flatMap(payment => this.getCompletedRefunds(payment))
+        .filter(refund => refund.reason === reason)
+        .reduce((total, refund) => total + refund.amount, 0)
+    );
+  }
+
+  /**
+   * Record a pending payment for a base-currency amount, charged in the booking's currency
+   * at the exchange rate snapshotted when the booking was made
+   */
+  createPayment(bookingId: string, amount: number, paymentMethod: string, description?: string): Payment {
+    const booking = db.getBookingById(bookingId);
+    const currency = booking ? booking.currency : config.payment.currency;
+    const exchangeRate = booking ? booking.exchangeRate : 1;
+
+    return db.createPayment({
+      id: uuidv4(),
+      bookingId,
+      amount: roundCurrency(amount),
+      currency,
+      exchangeRate,
+      amountMinor: currencyService.toMinor(amount, currency, exchangeRate),
+      status: PaymentStatus.PENDING,
+      paymentMethod,
+      gateway: paymentGateway.name,
+      description,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+  }
+
+  /**
+   * Authorize and capture a pending payment. Returns the payment as COMPLETED or FAILED;
+   * gateway outages mark the payment FAILED and are rethrown.
+   */
+  async capture(paymentId: string): Promise<Payment> {
+    const [payment] = await this.captureTogether([paymentId]);
+    return payment;
+  }
+
+  /**
+   * Authorize and capture several pending payments as one gateway charge, such as every room
+   * of a group paid by its organizer. The payments share the first one's currency and payment
+   * method. All come back COMPLETED or all FAILED; each keeps its own amount so it can be
+   * refunded on its own later.
+   */
+  async captureTogether(paymentIds: string[], reference?: string): Promise<Payment[]> {
+    const payments = paymentIds.map(id => db.getPaymentById(id));
+    if (payments.length === 0 || payments.some(payment => !payment || payment.status !== PaymentStatus.PENDING)) {
+      throw new Error('Payment has already been processed');
+    }
+
+    const [first] = payments as Payment[];
+    const amountMinor = (payments as Payment[]).reduce((total, payment) => total + payment.amountMinor, 0);
+    const update = (updates: Partial<Payment>) =>
+      paymentIds.map(id => db.updatePayment(id, updates) as Payment);
+
+    // Update payment status to processing
+    update({ status: PaymentStatus.PROCESSING });
+
+    let failureReason: string;
+    try {
+      const authorization = await paymentGateway.authorize({
+        amountMinor,
+        currency: first.currency,
+        paymentMethod: first.paymentMethod,
+        reference: reference || first.bookingId
+      });
+
+      if (authorization.success && authorization.reference) {
+        update({ authorizationId: authorization.reference });
+
+        let capture: GatewayResult;
+        try {
+          capture = await paymentGateway.capture(authorization.reference, amountMinor);
+        } catch (error) {
+          // The provider could not be reached, so release the hold rather than leave it on the card
+          await this.releaseAuthorization(authorization.reference);
+          throw error;
+        }
+        if (capture.success) {
+          return update({
+            status: PaymentStatus.COMPLETED,
+            transactionId: capture.reference,
+            paidAt: new Date()
+          });
+        }
+
+        // Release the hold on the guest's card when capture fails
+        await this.releaseAuthorization(authorization.reference);
+        failureReason = capture.declineReason || 'capture_failed';
+      } else {
+        failureReason = authorization.declineReason || 'declined';
+      }
+    } catch (error) {
+      update({ status: PaymentStatus.FAILED, failureReason: errorMessage(error) });
+      throw error;
+    }
+
+    return update({ status: PaymentStatus.FAILED, failureReason });
+  }
+
+  /**
+   * Void an authorization that will not be captured. A failed void is only logged so the
+   * capture's own outcome is what the caller sees.
+   */
+  private async releaseAuthorization(authorizationId: string): Promise<void> {
+    try {
+      const result = await paymentGateway.void(authorizationId);
+      if (!result.success) {
+        console.error(`Failed to void authorization ${authorizationId}:`, result.declineReason);
+      }
+    } catch (error) {
+      console.error(`Failed to void authorization ${authorizationId}:`, error);
+    }
+  }
+
+  /**
+   * Take an additional payment against a booking
+   */
+  async charge(bookingId: string, amount: number, paymentMethod: string, description: string): Promise<Payment> {
+    const payment = this.createPayment(bookingId, amount, paymentMethod, description);
+    return this.capture(payment.id);
+  }
+
+  /**
+   * Refund a base-currency amount across a booking's captured payments, newest first.
+   * Each refund is returned in the currency and at the rate its payment was charged.
+   */
+  async refund(bookingId: string, amount: number, reason: string): Promise<Refund[]> {
+    let remaining = roundCurrency(amount);
+    if (remaining > this.getPaidAmount(bookingId)) {
+      throw new Error('Refund amount exceeds the amount paid');
+    }
+
+    const refunds: Refund[] = [];
+    const payments = this.getPayments(bookingId)
+      .filter(payment => CAPTURED_STATUSES.includes(payment.status) && payment.transactionId)
+      .reverse();
+
+    for (const payment of payments) {
+      if (remaining <= 0) break;
+
+      const refundable = this.getRefundableAmount(payment);
+      const refundAmount = roundCurrency(Math.min(refundable, remaining));
+      if (refundAmount <= 0) continue;
+
+      // A full refund returns exactly what is left so conversion rounding cannot strand a minor unit
+      const refundableMinor = this.getRefundableMinor(payment);
+      const refundMinor = refundAmount === refundable
+        ? refundableMinor
+        : Math.min(refundableMinor, currencyService.toMinor(refundAmount, payment.currency, payment.exchangeRate));
+
+      const result = await paymentGateway.refund(payment.transactionId!, refundMinor);
+      const refund = db.createRefund({
+        id: uuidv4(),
+        paymentId: payment.id,
+        bookingId,
+        amount: refundAmount,
+        amountMinor: refundMinor,
+        status: result.success ? RefundStatus.COMPLETED : RefundStatus.FAILED,
+        reason,
+        gatewayReference: result.reference,
+        failureReason: result.declineReason,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      });
+      refunds.push(refund);
+
+      if (!result.success) {
+        throw new Error(`Refund failed: ${result.declineReason || 'declined'}`);
+      }
+
+      db.updatePayment(payment.id, {
+        status: refundAmount === refundable ? PaymentStatus.REFUNDED : PaymentStatus.PARTIALLY_REFUNDED
+      });
+      remaining = roundCurrency(remaining - refundAmount);
+    }
+
+    return refunds;
+  }
+
+  private getRefundableAmount(payment: Payment): number {
+    const refunded = this.getCompletedRefunds(payment)
+      .reduce((total, refund) => total + refund.amount, 0);
+    return roundCurrency(payment.amount - refunded);
+  }
+
+  private getRefundableMinor(payment: Payment): number {
+    const refunded = this.getCompletedRefunds(payment)
+      .reduce((total, refund) => total + refund.amountMinor, 0);
+    return payment.amountMinor - refunded;
+  }
+
+  private getCompletedRefunds(payment: Payment): Refund[] {
+    return db.getRefundsByPaymentId(payment.id)
+      .filter(refund => refund.status === RefundStatus.COMPLETED);
+  }
+}
+
+export const paymentService = new PaymentService();
@@ -0,0 +1,84 @@
+// services/payments/fakeGateway.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import { AuthorizeRequest, GatewayResult, PaymentGateway } from './gateway';
+
+// Payment methods the fake gateway always declines, mirroring common provider test cards
+export const FAKE_DECLINED_METHODS = ['card_declined', 'insufficient_funds'];
+
+interface FakeAuthorization {
+  amountMinor: number;
+  captured: number;
+  refunded: number;
+  voided: boolean;
+}
+
+// Deterministic in-process gateway for development and tests; no network, no randomness
+export class FakePaymentGateway implements PaymentGateway {
+  readonly name = 'fake';
+  private authorizations: Map<string, FakeAuthorization> = new Map();
+
+  async authorize(request: AuthorizeRequest): Promise<GatewayResult> {
+    if (FAKE_DECLINED_METHODS.includes(request.paymentMethod)) {
+      return { success: false, declineReason: request.paymentMethod };
+    }
+
+    if (request.amountMinor <= 0) {
+      return { success: false, declineReason: 'invalid_amount' };
+    }
+
+    const reference = this.nextReference('auth');
+    this.authorizations.set(reference, {
+      amountMinor: request.amountMinor,
+      captured: 0,
+      refunded: 0,
+      voided: false
+    });
+    return { success: true, reference };
+  }
+
+  async capture(authorizationId: string, amountMinor: number): Promise<GatewayResult> {
+    const authorization = this.authorizations.get(authorizationId);
+    if (!authorization || authorization.voided) {
+      return { success: false, declineReason: 'authorization_not_found' };
+    }
+
+    if (authorization.captured + amountMinor > authorization.amountMinor) {
+      return { success: false, declineReason: 'amount_exceeds_authorization' };
+    }
+
+    authorization.captured += amountMinor;
+    return { success: true, reference: authorizationId };
+  }
+
+  async void(authorizationId: string): Promise<GatewayResult> {
+    const authorization = this.authorizations.get(authorizationId);
+    if (!authorization || authorization.captured > 0) {
+      return { success: false, declineReason: 'authorization_not_voidable' };
+    }
+
+    authorization.voided = true;
+    return { success: true, reference: authorizationId };
+  }
+
+  async refund(transactionId: string, amountMinor: number): Promise<GatewayResult> {
+    const authorization = this.authorizations.get(transactionId);
+    if (!authorization) {
+      // Captures from a previous process are forgotten on restart; accept refunds for our own references
+      return transactionId.startsWith('fake_auth_')
+        ? { success: true, reference: this.nextReference('refund') }
+        : { success: false, declineReason: 'transaction_not_found' };
+    }
+
+    if (authorization.refunded + amountMinor > authorization.captured) {
+      return { success: false, declineReason: 'amount_exceeds_capture' };
+    }
+
+    authorization.refunded += amountMinor;
+    return { success: true, reference: this.nextReference('refund') };
+  }
+
+  private nextReference(prefix: string): string {
+    return `fake_${prefix}_${uuidv4().replace(/-/g, '')}`;
+  }
+}
@@ -0,0 +1,26 @@
+// services/payments/gateway.ts
+
+// Placeholder recorded when a guest books without naming a payment method; each adapter decides what it charges
+export const DEFAULT_PAYMENT_METHOD = 'CREDIT_CARD';
+
+export interface AuthorizeRequest {
+  amountMinor: number;
+  currency: string;
+  paymentMethod: string;
+  reference: string;
+}
+
+export interface GatewayResult {
+  success: boolean;
+  reference?: string;
+  declineReason?: string;
+}
+
+// Operations every payment provider adapter must support. Amounts are in minor units of the authorized currency.
+export interface PaymentGateway {
+  readonly name: string;
+  authorize(request: AuthorizeRequest): Promise<GatewayResult>;
+  capture(authorizationId: string, amountMinor: number): Promise<GatewayResult>;
+  void(authorizationId: string): Promise<GatewayResult>;
+  refund(transactionId: string, amountMinor: number): Promise<GatewayResult>;
+}
@@ -0,0 +1,23 @@
+// services/payments/index.ts
+
+import { config } from '../../config';
+import { PaymentGateway } from './gateway';
+import { FakePaymentGateway } from './fakeGateway';
+import { StripePaymentGateway } from './stripeGateway';
+
+// Pick the payment provider configured through PAYMENT_GATEWAY
+const createPaymentGateway = (): PaymentGateway => {
+  switch (config.payment.gateway) {
+    case 'stripe':
+      return new StripePaymentGateway(config.payment.stripe);
+    case 'fake':
+      return new FakePaymentGateway();
+    default:
+      throw new Error(`Unsupported payment gateway: ${config.payment.gateway}`);
+  }
+};
+
+export const paymentGateway = createPaymentGateway();
+
+export { DEFAULT_PAYMENT_METHOD } from './gateway';
+export type { PaymentGateway, AuthorizeRequest, GatewayResult } from './gateway';
@@ -0,0 +1,49 @@
+// services/payments/stripeGateway.test.ts
+
+import { DEFAULT_PAYMENT_METHOD } from './gateway';
+import { StripePaymentGateway } from './stripeGateway';
+
+const options = { apiKey: 'sk_test_123', baseUrl: 'http://stripe.test' };
+
+const authorize = (gateway: StripePaymentGateway, paymentMethod: string) =>
+  gateway.authorize({ amountMinor: 10000, currency: 'USD', paymentMethod, reference: 'booking-1' });
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('authorize', () => {
+  it('declines the default payment method without calling Stripe when no default is configured', async () => {
+    const fetch = jest.spyOn(global, 'fetch');
+    const gateway = new StripePaymentGateway({ ...options, defaultPaymentMethod: '' });
+
+    const result = await authorize(gateway, DEFAULT_PAYMENT_METHOD);
+
+    expect(result).toEqual({ success: false, declineReason: 'payment_method_required' });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('sends the configured payment method id in place of the default', async () => {
+    const fetch = jest.spyOn(global, 'fetch').mockResolvedValue(
+      new Response(JSON.stringify({ id: 'pi_1', status: 'requires_capture' }), { status: 200 })
+    );
+    const gateway = new StripePaymentGateway({ ...options, defaultPaymentMethod: 'pm_card_visa' });
+
+    const result = await authorize(gateway, DEFAULT_PAYMENT_METHOD);
+
+    expect(result).toEqual({ success: true, reference: 'pi_1' });
+    const body = new URLSearchParams(String(fetch.mock.calls[0][1]!.body));
+    expect(body.get('payment_method')).toBe('pm_card_visa');
+  });
+
+  it('reports a Stripe error response as a decline', async () => {
+    jest.spyOn(global, 'fetch').mockResolvedValue(
+      new Response(JSON.stringify({ error: { code: 'card_declined', decline_code: 'insufficient_funds' } }), { status: 402 })
+    );
+    const gateway = new StripePaymentGateway({ ...options, defaultPaymentMethod: '' });
+
+    const result = await authorize(gateway, 'pm_card_chargeDeclined');
+
+    expect(result).toEqual({ success: false, declineReason: 'insufficient_funds' });
+  });
+});
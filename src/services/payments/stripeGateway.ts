@@ -0,0 +1,155 @@
+// services/payments/stripeGateway.ts
+
+import { errorMessage, PaymentGatewayError } from '../../errors';
+import { AuthorizeRequest, DEFAULT_PAYMENT_METHOD, GatewayResult, PaymentGateway } from './gateway';
+
+interface StripeGatewayOptions {
+  apiKey: string;
+  baseUrl: string;
+  defaultPaymentMethod: string;
+}
+
+interface StripeError {
+  error?: {
+    code?: string;
+    decline_code?: string;
+    message?: string;
+  };
+}
+
+// The fields this adapter reads from a PaymentIntent or Refund object
+interface StripePaymentIntent {
+  id: string;
+  status: string;
+}
+
+interface StripeRefund {
+  id: string;
+  status: string;
+  failure_reason?: string;
+}
+
+type StripeResponse<T> = { ok: true; body: T } | { ok: false; body: StripeError };
+
+// Adapter for the Stripe PaymentIntents API. Point baseUrl at stripe-mock or another local stub in development.
+export class StripePaymentGateway implements PaymentGateway {
+  readonly name = 'stripe';
+
+  constructor(private readonly options: StripeGatewayOptions) {}
+
+  async authorize(request: AuthorizeRequest): Promise<GatewayResult> {
+    // Stripe only accepts payment method ids, so the placeholder maps to the configured one or is declined
+    const paymentMethod = request.paymentMethod === DEFAULT_PAYMENT_METHOD
+      ? this.options.defaultPaymentMethod
+      : request.paymentMethod;
+    if (!paymentMethod) {
+      return { success: false, declineReason: 'payment_method_required' };
+    }
+
+    const response = await this.post<StripePaymentIntent>('/v1/payment_intents', {
+      amount: request.amountMinor,
+      currency: request.currency.toLowerCase(),
+      payment_method: paymentMethod,
+      capture_method: 'manual',
+      confirm: 'true',
+      'metadata[booking_id]': request.reference
+    });
+
+    if (!response.ok) {
+      return this.declined(response.body);
+    }
+
+    const { body } = response;
+
+    if (body.status !== 'requires_capture') {
+      return { success: false, reference: body.id, declineReason: body.status };
+    }
+
+    return { success: true, reference: body.id };
+  }
+
+  async capture(authorizationId: string, amountMinor: number): Promise<GatewayResult> {
+    const response = await this.post<StripePaymentIntent>(`/v1/payment_intents/${authorizationId}/capture`, {
+      amount_to_capture: amountMinor
+    });
+
+    if (!response.ok) {
+      return this.declined(response.body);
+    }
+
+    const { body } = response;
+
+    if (body.status !== 'succeeded') {
+      return { success: false, reference: body.id, declineReason: body.status };
+    }
+
+    return { success: true, reference: body.id };
+  }
+
+  async void(authorizationId: string): Promise<GatewayResult> {
+    const response = await this.post<StripePaymentIntent>(`/v1/payment_intents/${authorizationId}/cancel`, {});
+
+    if (!response.ok) {
+      return this.declined(response.body);
+    }
+
+    const { body } = response;
+
+    return { success: body.status === 'canceled', reference: body.id };
+  }
+
+  async refund(transactionId: string, amountMinor: number): Promise<GatewayResult> {
+    const response = await this.post<StripeRefund>('/v1/refunds', {
+      payment_intent: transactionId,
+      amount: amountMinor
+    });
+
+    if (!response.ok) {
+      return this.declined(response.body);
+    }
+
+    const { body } = response;
+
+    if (body.status === 'failed') {
+      return { success: false, reference: body.id, declineReason: body.failure_reason };
+    }
+
+    return { success: true, reference: body.id };
+  }
+
+  private async post<T>(path: string, params: Record<string, string | number>): Promise<StripeResponse<T>> {
+    const form = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => form.append(key, String(value)));
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.options.baseUrl}${path}`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${this.options.apiKey}`,
+          'Content-Type': 'application/x-www-form-urlencoded'
+        },
+        body: form.toString()
+      });
+    } catch (error) {
+      throw new PaymentGatewayError(`Payment provider unreachable: ${errorMessage(error)}`);
+    }
+
+    // Provider-side failures are not card declines; surface them instead of failing the payment
+    if (response.status >= 500 || response.status === 401) {
+      throw new PaymentGatewayError(`Payment provider returned HTTP ${response.status}`);
+    }
+
+    if (response.status >= 400) {
+      return { ok: false, body: await response.json() as StripeError };
+    }
+    return { ok: true, body: await response.json() as T };
+  }
+
+  private declined(body: StripeError): GatewayResult {
+    return {
+      success: false,
+      declineReason: body.error?.decline_code || body.error?.code || body.error?.message || 'declined'
+    };
+  }
+}
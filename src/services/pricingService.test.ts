@@ -0,0 +1,48 @@
+// services/pricingService.test.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../database';
+import { UserRole } from '../types';
+import { addDays, toDateKey } from '../utils/dates';
+import { bookingService } from './bookingService';
+import { pricingService } from './pricingService';
+
+const createGuest = (): string => {
+  const id = uuidv4();
+  db.createUser({
+    id,
+    email: `${id}@example.com`,
+    password: 'not-a-real-hash',
+    role: UserRole.GUEST,
+    firstName: 'Test',
+    lastName: 'Guest',
+    phone: '+15550000000',
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+  return id;
+};
+
+const day = (offset: number): Date => {
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+  return addDays(today, offset);
+};
+
+beforeAll(async () => {
+  while (db.getAllRooms().length === 0) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+});
+
+describe('getOccupancyByNight', () => {
+  it('does not count a hold that has lapsed but not yet been swept', async () => {
+    await bookingService.createBooking(createGuest(), 'room-5', day(190), day(191), 1, { hold: true });
+    const lapsed = await bookingService.createBooking(createGuest(), 'room-4', day(190), day(191), 1, { hold: true });
+    db.updateBooking(lapsed!.booking.id, { holdExpiresAt: new Date(Date.now() - 1000) });
+
+    const occupancy = pricingService.getOccupancyByNight(day(190), day(191));
+
+    expect(occupancy.get(toDateKey(day(190)))).toBeCloseTo(100 / db.getAllRooms().length);
+  });
+});
@@ -0,0 +1,237 @@
+// services/pricingService.ts
+
+import { config } from '../config';
+import { availabilityIndex, db } from '../database';
+import {
+  BookingLineItem,
+  LineItemType,
+  NightlyRate,
+  PriceBreakdown,
+  PriceQuote,
+  PromoCode,
+  RateAdjustmentType,
+  RateRule,
+  RateRuleType,
+  Room,
+  StayPrice
+} from '../types';
+import { inventoryService } from './inventoryService';
+import { promoService } from './promoService';
+import { countStaysByNight, eachNight, toDateKey } from '../utils/dates';
+import { roundCurrency } from '../utils/money';
+
+const NIGHTLY_RULE_TYPES = [RateRuleType.SEASONAL, RateRuleType.DAY_OF_WEEK, RateRuleType.OCCUPANCY];
+
+export interface QuoteOptions {
+  // Booking being re-priced; it must not count towards occupancy
+  excludeBookingId?: string;
+  // Precomputed occupancy per night when quoting many rooms for the same dates
+  occupancy?: Map<string, number>;
+}
+
+export interface StayOptions extends QuoteOptions {
+  // Promo code already checked as redeemable by the caller
+  promoCode?: PromoCode;
+}
+
+const applyAdjustment = (amount: number, rule: RateRule): number =>
+  rule.adjustmentType === RateAdjustmentType.PERCENT
+    ? amount * (1 + rule.adjustmentValue / 100)
+    : amount + rule.adjustmentValue;
+
+class PricingService {
+  /**
+   * Price a stay night by night: seasonal, weekday/weekend and occupancy rules adjust each
+   * night's base rate in priority order, then the best length-of-stay rule adjusts the subtotal.
+   */
+  quote(room: Room, checkInDate: Date, checkOutDate: Date, options: QuoteOptions = {}): PriceQuote {
+    const rules = this.getActiveRules(room);
+    const nightlyRules = rules.filter(rule => NIGHTLY_RULE_TYPES.includes(rule.type));
+    const needsOccupancy = nightlyRules.some(rule => rule.type === RateRuleType.OCCUPANCY);
+    const occupancy = needsOccupancy
+      ? options.occupancy || this.getOccupancyByNight(checkInDate, checkOutDate, options.excludeBookingId)
+      : new Map<string, number>();
+
+    const nights: NightlyRate[] = eachNight(checkInDate, checkOutDate).map(night => {
+      const dateKey = toDateKey(night);
+      let rate = room.pricePerNight;
+      const appliedRules: string[] = [];
+
+      for (const rule of nightlyRules) {
+        if (!this.ruleMatchesNight(rule, night, occupancy.get(dateKey) || 0)) continue;
+        rate = Math.max(0, applyAdjustment(rate, rule));
+        appliedRules.push(rule.name);
+      }
+
+      return {
+        date: dateKey,
+        baseRate: room.pricePerNight,
+        rate: roundCurrency(rate),
+        appliedRules
+      };
+    });
+
+    const subtotal = roundCurrency(nights.reduce((total, night) => total + night.rate, 0));
+
+    const lengthOfStayRule = rules
+      .filter(rule =>
+        rule.type === RateRuleType.LENGTH_OF_STAY &&
+        nights.length >= (rule.minNights || 0) &&
+        this.withinWindow(rule, checkInDate)
+      )
+      .sort((a, b) => (b.minNights || 0) - (a.minNights || 0))[0];
+
+    const total = lengthOfStayRule
+      ? roundCurrency(Math.max(0, applyAdjustment(subtotal, lengthOfStayRule)))
+      : subtotal;
+
+    return {
+      nights,
+      subtotal,
+      lengthOfStayAdjustment: roundCurrency(total - subtotal),
+      total
+    };
+  }
+
+  /**
+   * Price a stay including taxes and fees, itemized as the line items stored on the booking
+   */
+  priceStay(
+    room: Room,
+    checkInDate: Date,
+    checkOutDate: Date,
+    numberOfGuests: number,
+    options: StayOptions = {}
+  ): StayPrice {
+    const quote = this.quote(room, checkInDate, checkOutDate, options);
+
+    const lineItems: BookingLineItem[] = quote.nights.map(night => ({
+      type: LineItemType.ROOM,
+      description: `Room ${room.roomNumber}`,
+      quantity: 1,
+      unitPrice: night.rate,
+      amount: night.rate,
+      date: night.date
+    }));
+
+    if (quote.lengthOfStayAdjustment !== 0) {
+      lineItems.push(this.flatItem(LineItemType.ADJUSTMENT, 'Length-of-stay adjustment', quote.lengthOfStayAdjustment));
+    }
+
+    // Promotions reduce the room total before taxes are worked out
+    let roomTotal = quote.total;
+    if (options.promoCode) {
+      const discount = promoService.calculateDiscount(options.promoCode, room, roomTotal);
+      if (discount > 0) {
+        lineItems.push(this.flatItem(LineItemType.DISCOUNT, `Promo code ${options.promoCode.code}`, -discount));
+        roomTotal = roundCurrency(roomTotal - discount);
+      }
+    }
+
+    const { vatPercent, cityTaxPerPersonPerNight } = config.taxes;
+    const taxes: BookingLineItem[] = [];
+    if (vatPercent > 0) {
+      taxes.push(this.flatItem(LineItemType.TAX, `VAT (${vatPercent}%)`, roomTotal * vatPercent / 100));
+    }
+    if (cityTaxPerPersonPerNight > 0 && quote.nights.length > 0) {
+      const quantity = numberOfGuests * quote.nights.length;
+      taxes.push({
+        type: LineItemType.TAX,
+        description: 'City tax (per person per night)',
+        quantity,
+        unitPrice: cityTaxPerPersonPerNight,
+        amount: roundCurrency(quantity * cityTaxPerPersonPerNight)
+      });
+    }
+    lineItems.push(...taxes);
+
+    // The processing fee applies to everything the guest is charged
+    const processingFee = config.payment.processingFee;
+    if (processingFee > 0) {
+      const chargeable = lineItems.reduce((total, item) => total + item.amount, 0);
+      lineItems.push(this.flatItem(LineItemType.FEE, `Processing fee (${roundCurrency(processingFee * 100)}%)`, chargeable * processingFee));
+    }
+
+    return {
+      quote,
+      lineItems,
+      totalPrice: roundCurrency(lineItems.reduce((total, item) => total + item.amount, 0))
+    };
+  }
+
+  /**
+   * Totals of a booking's line items by kind
+   */
+  summarize(lineItems: BookingLineItem[]): PriceBreakdown {
+    const sum = (type: LineItemType) => roundCurrency(
+      lineItems.filter(item => item.type === type).reduce((total, item) => total + item.amount, 0)
+    );
+
+    return {
+      roomCharges: sum(LineItemType.ROOM),
+      adjustments: sum(LineItemType.ADJUSTMENT),
+      discounts: sum(LineItemType.DISCOUNT),
+      taxes: sum(LineItemType.TAX),
+      fees: sum(LineItemType.FEE),
+      total: roundCurrency(lineItems.reduce((total, item) => total + item.amount, 0))
+    };
+  }
+
+  /**
+   * Share of rooms (0-100) held by active bookings on each night of a range; lapsed holds no longer count
+   */
+  getOccupancyByNight(checkInDate: Date, checkOutDate: Date, excludeBookingId?: string): Map<string, number> {
+    const now = new Date();
+    const totalRooms = db.getAllRooms().length;
+    const bookings = availabilityIndex.getStays(checkInDate, checkOutDate).filter(booking =>
+      booking.id !== excludeBookingId && inventoryService.holdsInventory(booking, now)
+    );
+
+    const occupied = countStaysByNight(checkInDate, checkOutDate, bookings);
+
+    const occupancy = new Map<string, number>();
+    occupied.forEach((count, night) => {
+      occupancy.set(night, totalRooms > 0 ? (count / totalRooms) * 100 : 0);
+    });
+    return occupancy;
+  }
+
+  private flatItem(type: LineItemType, description: string, amount: number): BookingLineItem {
+    const rounded = roundCurrency(amount);
+    return { type, description, quantity: 1, unitPrice: rounded, amount: rounded };
+  }
+
+  private getActiveRules(room: Room): RateRule[] {
+    return db.getAllRateRules()
+      .filter(rule => rule.isActive)
+      .filter(rule => !rule.roomTypes || rule.roomTypes.length === 0 || rule.roomTypes.includes(room.type))
+      .sort((a, b) => a.priority - b.priority);
+  }
+
+  private ruleMatchesNight(rule: RateRule, night: Date, occupancyPercent: number): boolean {
+    if (!this.withinWindow(rule, night)) {
+      return false;
+    }
+
+    switch (rule.type) {
+      case RateRuleType.SEASONAL:
+        return true;
+      case RateRuleType.DAY_OF_WEEK:
+        return (rule.daysOfWeek || []).includes(night.getUTCDay());
+      case RateRuleType.OCCUPANCY:
+        return occupancyPercent >= (rule.minOccupancyPercent || 0);
+      default:
+        return false;
+    }
+  }
+
+  // Date windows are inclusive calendar days
+  private withinWindow(rule: RateRule, date: Date): boolean {
+    const day = toDateKey(date);
+    if (rule.startDate && day < toDateKey(rule.startDate)) return false;
+    if (rule.endDate && day > toDateKey(rule.endDate)) return false;
+    return true;
+  }
+}
+
+export const pricingService = new PricingService();
@@ -0,0 +1,102 @@
+// services/promoService.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../database';
+import { AppError } from '../errors';
+import { Booking, PromoCode, PromoDiscountType, PromoRedemption, Room } from '../types';
+import { RELEASED_STATUSES } from './bookingStateMachine';
+import { roundCurrency } from '../utils/money';
+
+class PromoService {
+  /**
+   * Codes are matched case-insensitively and stored upper-case
+   */
+  normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+  }
+
+  getByCode(code: string): PromoCode | undefined {
+    return db.getPromoCodeByCode(this.normalizeCode(code));
+  }
+
+  /**
+   * Look up a code and check this guest may redeem it for this room now; throws a 400 AppError otherwise
+   */
+  getRedeemablePromo(code: string, room: Room, guestId: string, at: Date = new Date()): PromoCode {
+    const promo = this.getByCode(code);
+    if (!promo || !promo.isActive) {
+      throw new AppError(`Promo code ${code} is not valid`, 400);
+    }
+
+    if ((promo.validFrom && at < new Date(promo.validFrom)) || (promo.validUntil && at > new Date(promo.validUntil))) {
+      throw new AppError(`Promo code ${promo.code} is not valid at this time`, 400);
+    }
+
+    if (!this.appliesToRoom(promo, room)) {
+      throw new AppError(`Promo code ${promo.code} does not apply to ${room.type} rooms`, 400);
+    }
+
+    if (promo.maxRedemptions !== undefined && this.countActiveRedemptions(promo) >= promo.maxRedemptions) {
+      throw new AppError(`Promo code ${promo.code} has been fully redeemed`, 400);
+    }
+
+    if (
+      promo.maxRedemptionsPerGuest !== undefined &&
+      this.countActiveRedemptions(promo, guestId) >= promo.maxRedemptionsPerGuest
+    ) {
+      throw new AppError(`You have already used promo code ${promo.code} the maximum number of times`, 400);
+    }
+
+    return promo;
+  }
+
+  /**
+   * Discount a promo gives on a room total; zero if the room type is not eligible
+   */
+  calculateDiscount(promo: PromoCode, room: Room, amount: number): number {
+    if (!this.appliesToRoom(promo, room)) {
+      return 0;
+    }
+
+    const discount = promo.discountType === PromoDiscountType.PERCENT
+      ? amount * promo.discountValue / 100
+      : promo.discountValue;
+
+    return roundCurrency(Math.min(Math.max(0, discount), amount));
+  }
+
+  /**
+   * Redemptions whose booking still holds its room, optionally for one guest.
+   * Cancelled or expired bookings give their redemption back.
+   */
+  countActiveRedemptions(promo: PromoCode, guestId?: string): number {
+    return this.getActiveRedemptions(promo)
+      .filter(redemption => !guestId || redemption.guestId === guestId)
+      .length;
+  }
+
+  getActiveRedemptions(promo: PromoCode): PromoRedemption[] {
+    return db.getPromoRedemptionsByPromoCodeId(promo.id).filter(redemption => {
+      const booking = db.getBookingById(redemption.bookingId);
+      return booking !== undefined && !RELEASED_STATUSES.includes(booking.status);
+    });
+  }
+
+  recordRedemption(promo: PromoCode, booking: Booking, discountAmount: number): PromoRedemption {
+    return db.createPromoRedemption({
+      id: uuidv4(),
+      promoCodeId: promo.id,
+      bookingId: booking.id,
+      guestId: booking.guestId,
+      discountAmount,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+  }
+
+  private appliesToRoom(promo: PromoCode, room: Room): boolean {
+    return !promo.roomTypes || promo.roomTypes.length === 0 || promo.roomTypes.includes(room.type);
+  }
+}
+
+export const promoService = new PromoService();
@@ -0,0 +1,112 @@
+// services/reportService.ts
+
+import { db } from '../database';
+import { CurrencyTotals, PaymentStatus, PromoCodeUsage, RefundStatus, RevenueReport } from '../types';
+import { currencyService } from './currencyService';
+import { promoService } from './promoService';
+import { roundCurrency } from '../utils/money';
+
+// Payments that were captured at some point, including those refunded since
+const CAPTURED_STATUSES = [PaymentStatus.COMPLETED, PaymentStatus.PARTIALLY_REFUNDED, PaymentStatus.REFUNDED];
+
+const inRange = (date: Date | undefined, from?: Date, to?: Date): boolean => {
+  if (!date) return false;
+  const time = new Date(date).getTime();
+  if (from && time < from.getTime()) return false;
+  if (to && time > to.getTime()) return false;
+  return true;
+};
+
+class ReportService {
+  /**
+   * Revenue captured and refunded in a period, per charge currency and normalized to the base
+   * currency at the rate each payment was taken
+   */
+  getRevenueReport(from?: Date, to?: Date): RevenueReport {
+    const totals = new Map<string, CurrencyTotals>();
+    const totalsFor = (currency: string): CurrencyTotals => {
+      if (!totals.has(currency)) {
+        totals.set(currency, {
+          currency,
+          payments: 0,
+          chargedMinor: 0,
+          refundedMinor: 0,
+          grossRevenue: 0,
+          refunds: 0,
+          netRevenue: 0
+        });
+      }
+      return totals.get(currency)!;
+    };
+
+    const payments = db.getAllPayments().filter(payment => CAPTURED_STATUSES.includes(payment.status));
+
+    for (const payment of payments) {
+      if (inRange(payment.paidAt, from, to)) {
+        const entry = totalsFor(payment.currency);
+        entry.payments += 1;
+        entry.chargedMinor += payment.amountMinor;
+        entry.grossRevenue += payment.amount;
+      }
+
+      // Refunds count in the period they were issued, whenever the payment was taken
+      for (const refund of db.getRefundsByPaymentId(payment.id)) {
+        if (refund.status !== RefundStatus.COMPLETED || !inRange(refund.createdAt, from, to)) continue;
+        const entry = totalsFor(payment.currency);
+        entry.refundedMinor += refund.amountMinor;
+        entry.refunds += refund.amount;
+      }
+    }
+
+    const byCurrency = Array.from(totals.values())
+      .map(entry => ({
+        ...entry,
+        grossRevenue: roundCurrency(entry.grossRevenue),
+        refunds: roundCurrency(entry.refunds),
+        netRevenue: roundCurrency(entry.grossRevenue - entry.refunds)
+      }))
+      .sort((a, b) => a.currency.localeCompare(b.currency));
+
+    const grossRevenue = roundCurrency(byCurrency.reduce((total, entry) => total + entry.grossRevenue, 0));
+    const refunds = roundCurrency(byCurrency.reduce((total, entry) => total + entry.refunds, 0));
+
+    return {
+      baseCurrency: currencyService.getBaseCurrency(),
+      from,
+      to,
+      grossRevenue,
+      refunds,
+      netRevenue: roundCurrency(grossRevenue - refunds),
+      byCurrency
+    };
+  }
+
+  /**
+   * Redemptions, discount given and booking revenue per promo code. Active redemptions
+   * exclude bookings that were cancelled or expired.
+   */
+  getPromoCodeReport(): PromoCodeUsage[] {
+    return db.getAllPromoCodes()
+      .map(promo => {
+        const active = promoService.getActiveRedemptions(promo);
+        const bookingRevenue = active.reduce(
+          (total, redemption) => total + (db.getBookingById(redemption.bookingId)?.totalPrice || 0),
+          0
+        );
+
+        return {
+          promoCodeId: promo.id,
+          code: promo.code,
+          isActive: promo.isActive,
+          redemptions: db.getPromoRedemptionsByPromoCodeId(promo.id).length,
+          activeRedemptions: active.length,
+          maxRedemptions: promo.maxRedemptions,
+          totalDiscount: roundCurrency(active.reduce((total, redemption) => total + redemption.discountAmount, 0)),
+          bookingRevenue: roundCurrency(bookingRevenue)
+        };
+      })
+      .sort((a, b) => a.code.localeCompare(b.code));
+  }
+}
+
+export const reportService = new ReportService();
@@ -0,0 +1,98 @@
+// services/roomAssignmentService.test.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import { db, lockManager, lockKeys } from '../database';
+import { RoomType, UserRole } from '../types';
+import { addDays } from '../utils/dates';
+import { bookingService } from './bookingService';
+import { roomAssignmentService } from './roomAssignmentService';
+
+const createGuest = (): string => {
+  const id = uuidv4();
+  db.createUser({
+    id,
+    email: `${id}@example.com`,
+    password: 'not-a-real-hash',
+    role: UserRole.GUEST,
+    firstName: 'Test',
+    lastName: 'Guest',
+    phone: '+15550000000',
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+  return id;
+};
+
+const day = (offset: number): Date => {
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+  return addDays(today, offset);
+};
+
+beforeAll(async () => {
+  while (db.getAllRooms().length === 0) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('run', () => {
+  it('holds the lock of every booking it assigns or moves while writing it', async () => {
+    // One double already placed from day 50 and two more arriving on day 51: the run assigns
+    // both arrivals around the first stay and may move it if that packs the rooms better
+    const first = await bookingService.createTypeBooking(createGuest(), RoomType.DOUBLE, day(50), day(53), 1);
+    await roomAssignmentService.run(day(50));
+    const second = await bookingService.createTypeBooking(createGuest(), RoomType.DOUBLE, day(51), day(53), 1);
+    const third = await bookingService.createTypeBooking(createGuest(), RoomType.DOUBLE, day(51), day(52), 1);
+
+    const writes: { bookingId: string; locked: boolean }[] = [];
+    const updateBooking = db.updateBooking.bind(db);
+    jest.spyOn(db, 'updateBooking').mockImplementation((id, updates) => {
+      writes.push({ bookingId: id, locked: lockManager.isLocked(lockKeys.booking(id)) });
+      return updateBooking(id, updates);
+    });
+
+    const result = await roomAssignmentService.run(day(51));
+
+    expect(result.assignments.map(assignment => assignment.bookingId).sort())
+      .toEqual([second!.booking.id, third!.booking.id].sort());
+    expect(db.getBookingById(first!.booking.id)!.roomId).toBeDefined();
+    expect(writes.length).toBeGreaterThanOrEqual(2);
+    expect(writes.every(write => write.locked)).toBe(true);
+  });
+
+  it('waits for a booking lock held by another request before assigning that booking', async () => {
+    const arrival = await bookingService.createTypeBooking(createGuest(), RoomType.SUITE, day(60), day(61), 1);
+    const handle = await lockManager.acquire(lockKeys.booking(arrival!.booking.id));
+
+    let finished = false;
+    const running = roomAssignmentService.run(day(60)).then(result => {
+      finished = true;
+      return result;
+    });
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(finished).toBe(false);
+
+    lockManager.release(handle);
+    const result = await running;
+    expect(result.assignments.map(assignment => assignment.bookingId)).toEqual([arrival!.booking.id]);
+  });
+
+  it('does not assign a room that is out of order', async () => {
+    // Suites 301 (room-6) and 302 (room-7); 301 would win on room number if it were in service
+    const arrival = await bookingService.createTypeBooking(createGuest(), RoomType.SUITE, day(70), day(71), 1);
+    db.updateRoom('room-6', { isAvailable: false });
+    try {
+      const result = await roomAssignmentService.run(day(70));
+
+      expect(result.assignments).toEqual([
+        expect.objectContaining({ bookingId: arrival!.booking.id, roomId: 'room-7' })
+      ]);
+    } finally {
+      db.updateRoom('room-6', { isAvailable: true });
+    }
+  });
+});
@@ -0,0 +1,360 @@
+// services/roomAssignmentService.ts
+
+import { db, lockManager, lockKeys } from '../database';
+import { Booking, BookingStatus, Room, RoomAssignment, RoomAssignmentRun, RoomMove, RoomType } from '../types';
+import { inventoryService } from './inventoryService';
+import { calculateNights, toDateKey } from '../utils/dates';
+
+// Room types from lowest to highest; free upgrades go to the nearest higher type with a room free
+const TYPE_ORDER = Object.values(RoomType);
+
+// Bookings whose guests have not arrived yet
+const ASSIGNABLE_STATUSES = [BookingStatus.PENDING, BookingStatus.CONFIRMED];
+
+// Preferences a guest can express in specialRequests, e.g. "high floor", "floor 3",
+// "next to room 204" or "adjacent rooms" for a guest with several bookings
+interface RoomPreferences {
+  floor?: number;
+  floorLevel?: 'HIGH' | 'LOW';
+  nextToRoom?: string;
+  adjacentToParty: boolean;
+}
+
+// A booking's use of a room in the run's working copy of the room plan
+interface Stay {
+  bookingId: string;
+  guestId: string;
+  numberOfGuests: number;
+  checkInDate: Date;
+  checkOutDate: Date;
+  movable: boolean;
+}
+
+interface PlannedMove {
+  stay: Stay;
+  from: Room;
+  to: Room;
+}
+
+interface Placement {
+  room: Room;
+  moves: PlannedMove[];
+  score: number;
+  preferences: string[];
+  unmetPreferences: string[];
+}
+
+const parsePreferences = (specialRequests?: string): RoomPreferences => {
+  const text = specialRequests || '';
+  const floorMatch = text.match(/\bfloor\s*(\d+)\b/i) || text.match(/\b(\d+)(?:st|nd|rd|th)?\s+floor\b/i);
+  const nextToMatch = text.match(/\b(?:next to|adjacent to|near)\s+room\s+(\w+)/i);
+
+  let floorLevel: RoomPreferences['floorLevel'];
+  if (/\b(?:high|higher|upper|top)\s+floor\b/i.test(text)) {
+    floorLevel = 'HIGH';
+  } else if (/\b(?:low|lower|ground|bottom)\s+floor\b/i.test(text)) {
+    floorLevel = 'LOW';
+  }
+
+  return {
+    floor: floorMatch ? parseInt(floorMatch[1], 10) : undefined,
+    floorLevel,
+    nextToRoom: nextToMatch ? nextToMatch[1] : undefined,
+    adjacentToParty: !nextToMatch && /\b(?:adjacent|connecting|next to each other|side by side|together)\b/i.test(text)
+  };
+};
+
+// Neighbouring doors: same floor and consecutive room numbers
+const areAdjacent = (a: Room, b: Room): boolean =>
+  a.id !== b.id &&
+  a.floor === b.floor &&
+  Math.abs(parseInt(a.roomNumber, 10) - parseInt(b.roomNumber, 10)) === 1;
+
+const overlaps = (stay: Stay, checkInDate: Date, checkOutDate: Date): boolean =>
+  stay.checkInDate < checkOutDate && stay.checkOutDate > checkInDate;
+
+// Arriving on the run's date without a room yet
+const isArrival = (booking: Booking, dateKey: string): boolean =>
+  !booking.roomId &&
+  ASSIGNABLE_STATUSES.includes(booking.status) &&
+  toDateKey(booking.checkInDate) === dateKey;
+
+// Placed by the system and arriving after the run's date, so it may be moved within its type
+const isMovable = (booking: Booking, dateKey: string): boolean =>
+  !!booking.roomId &&
+  !!booking.roomAutoAssigned &&
+  ASSIGNABLE_STATUSES.includes(booking.status) &&
+  toDateKey(booking.checkInDate) > dateKey;
+
+const toStay = (booking: Booking, movable: boolean): Stay => ({
+  bookingId: booking.id,
+  guestId: booking.guestId,
+  numberOfGuests: booking.numberOfGuests,
+  checkInDate: new Date(booking.checkInDate),
+  checkOutDate: new Date(booking.checkOutDate),
+  movable
+});
+
+class RoomAssignmentService {
+  /**
+   * Assign rooms to bookings sold by type that arrive on the given date. Each stay gets one room
+   * for all its nights. A room of the booked type is used where one is free; otherwise the fewest
+   * not-yet-arrived, system-assigned bookings are moved to make one free; otherwise the guest gets
+   * a free upgrade to the nearest higher type. Within those rules guest preferences pick the room.
+   */
+  async run(date: Date): Promise<RoomAssignmentRun> {
+    const dateKey = toDateKey(date);
+
+    // Every type's lock is held so no booking, move or upgrade can change inventory mid-run, and
+    // the lock of every booking the run may write so no modify, cancel or check-in races a move.
+    // One acquire takes them all in sorted order. Bookings that only become eligible after this
+    // snapshot are left for the next run.
+    const writable = db.getAllBookings()
+      .filter(booking => isArrival(booking, dateKey) || isMovable(booking, dateKey))
+      .map(booking => booking.id);
+    const locked = new Set(writable);
+    const resources = [
+      ...TYPE_ORDER.map(type => lockKeys.roomType(type)),
+      ...writable.map(bookingId => lockKeys.booking(bookingId))
+    ];
+
+    return lockManager.withLock(resources, async () => {
+      const now = new Date();
+      const rooms = db.getAllRooms().sort((a, b) => a.roomNumber.localeCompare(b.roomNumber));
+      const bookings = db.getAllBookings().filter(booking => inventoryService.holdsInventory(booking, now));
+
+      // Working copy of which stays occupy each room, kept in step with the writes below
+      const plan = new Map<string, Stay[]>();
+      rooms.forEach(room => plan.set(room.id, []));
+      for (const booking of bookings) {
+        if (booking.roomId && plan.has(booking.roomId)) {
+          plan.get(booking.roomId)!.push(toStay(booking, locked.has(booking.id) && isMovable(booking, dateKey)));
+        }
+      }
+
+      // A maintenance block holds its room like a stay that can never be moved
+      for (const block of db.getAllMaintenanceBlocks()) {
+        plan.get(block.roomId)?.push({
+          bookingId: block.id,
+          guestId: '',
+          numberOfGuests: 0,
+          checkInDate: new Date(block.startDate),
+          checkOutDate: new Date(block.endDate),
+          movable: false
+        });
+      }
+
+      // Longest stays first, as they are the hardest to fit into a single room
+      const arrivals = bookings
+        .filter(booking => locked.has(booking.id) && isArrival(booking, dateKey))
+        .sort((a, b) =>
+          calculateNights(b.checkInDate, b.checkOutDate) - calculateNights(a.checkInDate, a.checkOutDate) ||
+          new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+        );
+
+      const result: RoomAssignmentRun = { date: dateKey, assignments: [], moves: [], unassigned: [] };
+
+      for (const booking of arrivals) {
+        const placement = this.place(booking, rooms, plan);
+        if (!placement) {
+          result.unassigned.push({
+            bookingId: booking.id,
+            reason: `No ${booking.roomType} room or upgrade is free for the whole stay`
+          });
+          continue;
+        }
+
+        db.transaction(() => {
+          placement.moves.forEach(move => db.updateBooking(move.stay.bookingId, { roomId: move.to.id }));
+          db.updateBooking(booking.id, { roomId: placement.room.id, roomAutoAssigned: true });
+        });
+
+        for (const move of placement.moves) {
+          plan.set(move.from.id, plan.get(move.from.id)!.filter(stay => stay !== move.stay));
+          plan.get(move.to.id)!.push(move.stay);
+          const roomMove: RoomMove = {
+            bookingId: move.stay.bookingId,
+            fromRoomId: move.from.id,
+            toRoomId: move.to.id,
+            forBookingId: booking.id
+          };
+          result.moves.push(roomMove);
+        }
+        plan.get(placement.room.id)!.push(toStay(booking, false));
+
+        const assignment: RoomAssignment = {
+          bookingId: booking.id,
+          guestId: booking.guestId,
+          roomId: placement.room.id,
+          roomNumber: placement.room.roomNumber,
+          bookedType: booking.roomType,
+          assignedType: placement.room.type,
+          upgraded: placement.room.type !== booking.roomType,
+          preferences: placement.preferences,
+          unmetPreferences: placement.unmetPreferences
+        };
+        result.assignments.push(assignment);
+      }
+
+      return result;
+    }, 10000);
+  }
+
+  private place(booking: Booking, rooms: Room[], plan: Map<string, Stay[]>): Placement | undefined {
+    const checkInDate = new Date(booking.checkInDate);
+    const checkOutDate = new Date(booking.checkOutDate);
+    const preferences = parsePreferences(booking.specialRequests);
+    const fits = (room: Room) => room.isAvailable && room.capacity >= booking.numberOfGuests;
+
+    // 1. A free room of the booked type
+    const bookedTypeRooms = rooms.filter(room => room.type === booking.roomType && fits(room));
+    const free = bookedTypeRooms.filter(room => this.isFree(plan, room, checkInDate, checkOutDate));
+    if (free.length > 0) {
+      return this.best(free.map(room => ({ room, moves: [] })), booking, preferences, rooms, plan);
+    }
+
+    // 2. Free a room of the booked type by moving as few other bookings as possible
+    const withMoves = bookedTypeRooms
+      .map(room => ({ room, moves: this.clearRoom(room, checkInDate, checkOutDate, rooms, plan) }))
+      .filter((option): option is { room: Room; moves: PlannedMove[] } => option.moves !== undefined);
+    if (withMoves.length > 0) {
+      const fewest = Math.min(...withMoves.map(option => option.moves.length));
+      return this.best(withMoves.filter(option => option.moves.length === fewest), booking, preferences, rooms, plan);
+    }
+
+    // 3. The booked type is oversold: upgrade to the nearest higher type with a room free.
+    // The upgraded room counts against that type's inventory, so it must have a unit to spare.
+    for (const roomType of TYPE_ORDER.slice(TYPE_ORDER.indexOf(booking.roomType) + 1)) {
+      if (inventoryService.getAvailableCount(roomType, checkInDate, checkOutDate) === 0) continue;
+
+      const upgrades = rooms.filter(room =>
+        room.type === roomType && fits(room) && this.isFree(plan, room, checkInDate, checkOutDate)
+      );
+      if (upgrades.length > 0) {
+        return this.best(upgrades.map(room => ({ room, moves: [] })), booking, preferences, rooms, plan);
+      }
+    }
+
+    return undefined;
+  }
+
+  // Moves that would empty a room for a date range, or undefined if any overlapping stay cannot be moved
+  private clearRoom(
+    room: Room,
+    checkInDate: Date,
+    checkOutDate: Date,
+    rooms: Room[],
+    plan: Map<string, Stay[]>
+  ): PlannedMove[] | undefined {
+    const blockers = plan.get(room.id)!.filter(stay => overlaps(stay, checkInDate, checkOutDate));
+    if (blockers.some(stay => !stay.movable)) {
+      return undefined;
+    }
+
+    const moves: PlannedMove[] = [];
+    for (const stay of blockers) {
+      // Moves stay within the room type so neither inventory nor price changes
+      const target = rooms.find(candidate =>
+        candidate.id !== room.id &&
+        candidate.type === room.type &&
+        candidate.isAvailable &&
+        candidate.capacity >= stay.numberOfGuests &&
+        this.isFree(plan, candidate, stay.checkInDate, stay.checkOutDate, moves)
+      );
+      if (!target) {
+        return undefined;
+      }
+      moves.push({ stay, from: room, to: target });
+    }
+    return moves;
+  }
+
+  private isFree(
+    plan: Map<string, Stay[]>,
+    room: Room,
+    checkInDate: Date,
+    checkOutDate: Date,
+    pendingMoves: PlannedMove[] = []
+  ): boolean {
+    const stays = plan.get(room.id)!.concat(
+      pendingMoves.filter(move => move.to.id === room.id).map(move => move.stay)
+    );
+    return !stays.some(stay => overlaps(stay, checkInDate, checkOutDate));
+  }
+
+  // Pick the option that best matches the guest's preferences; ties go to the lowest room number
+  private best(
+    options: { room: Room; moves: PlannedMove[] }[],
+    booking: Booking,
+    preferences: RoomPreferences,
+    rooms: Room[],
+    plan: Map<string, Stay[]>
+  ): Placement {
+    const checkInDate = new Date(booking.checkInDate);
+    const checkOutDate = new Date(booking.checkOutDate);
+    const floors = options.map(option => option.room.floor);
+    const lowestFloor = Math.min(...floors);
+    const highestFloor = Math.max(...floors);
+
+    // Rooms of the guest's other bookings over the same dates
+    const partyRooms = rooms.filter(room =>
+      plan.get(room.id)!.some(stay =>
+        stay.guestId === booking.guestId &&
+        stay.bookingId !== booking.id &&
+        overlaps(stay, checkInDate, checkOutDate)
+      )
+    );
+    const nextToRoom = preferences.nextToRoom
+      ? rooms.find(room => room.roomNumber === preferences.nextToRoom)
+      : undefined;
+
+    const placements = options.map(({ room, moves }): Placement => {
+      const placement: Placement = { room, moves, score: 0, preferences: [], unmetPreferences: [] };
+      const consider = (label: string, met: boolean, weight: number) => {
+        placement.preferences.push(label);
+        if (met) {
+          placement.score += weight;
+        } else {
+          placement.unmetPreferences.push(label);
+        }
+      };
+
+      if (preferences.floor !== undefined) {
+        consider(`floor ${preferences.floor}`, room.floor === preferences.floor, 4);
+      }
+      if (preferences.floorLevel) {
+        // Partial credit keeps higher (or lower) floors ahead even when the extreme is taken
+        const span = highestFloor - lowestFloor || 1;
+        const height = preferences.floorLevel === 'HIGH'
+          ? (room.floor - lowestFloor) / span
+          : (highestFloor - room.floor) / span;
+        placement.score += height;
+        consider(
+          `${preferences.floorLevel.toLowerCase()} floor`,
+          room.floor === (preferences.floorLevel === 'HIGH' ? highestFloor : lowestFloor),
+          1
+        );
+      }
+      if (preferences.nextToRoom) {
+        consider(`next to room ${preferences.nextToRoom}`, !!nextToRoom && areAdjacent(room, nextToRoom), 4);
+      }
+      if (preferences.adjacentToParty) {
+        if (partyRooms.length > 0) {
+          consider('adjacent to party', partyRooms.some(partyRoom => areAdjacent(room, partyRoom)), 4);
+        } else {
+          // First of the party to be placed: prefer a room with a free neighbour for the rest
+          placement.preferences.push('adjacent to party');
+          if (rooms.some(other => areAdjacent(room, other) && this.isFree(plan, other, checkInDate, checkOutDate))) {
+            placement.score += 1;
+          }
+        }
+      }
+      return placement;
+    });
+
+    // Options arrive in room number order and sort is stable, so ties keep the lowest number
+    return placements.sort((a, b) => b.score - a.score)[0];
+  }
+}
+
+export const roomAssignmentService = new RoomAssignmentService();
@@ -0,0 +1,134 @@
+// services/waitlistService.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../database';
+import { AppError } from '../errors';
+import { Booking, Guest, RoomType, WaitlistEntry, WaitlistStatus } from '../types';
+import { emailService } from './emailService';
+import { inventoryService } from './inventoryService';
+
+// Entries that still hold the guest's place in the queue
+const OPEN_STATUSES = [WaitlistStatus.WAITING, WaitlistStatus.OFFERED];
+
+class WaitlistService {
+  /**
+   * Put a guest on the waitlist for a room type that is sold out for their dates
+   */
+  join(
+    guestId: string,
+    roomType: RoomType,
+    checkInDate: Date,
+    checkOutDate: Date,
+    numberOfGuests: number
+  ): WaitlistEntry {
+    const maxGuests = inventoryService.getGuaranteedCapacity(roomType);
+    if (numberOfGuests > maxGuests) {
+      throw new AppError(`Room capacity exceeded. Maximum capacity: ${maxGuests}`, 400);
+    }
+
+    if (inventoryService.getAvailableCount(roomType, checkInDate, checkOutDate) > 0) {
+      throw new AppError(`${roomType} rooms are available for these dates and can be booked now`, 409);
+    }
+
+    const duplicate = db.getWaitlistEntriesByGuestId(guestId).some(entry =>
+      OPEN_STATUSES.includes(entry.status) &&
+      entry.roomType === roomType &&
+      new Date(entry.checkInDate).getTime() === checkInDate.getTime() &&
+      new Date(entry.checkOutDate).getTime() === checkOutDate.getTime()
+    );
+    if (duplicate) {
+      throw new AppError('You are already on the waitlist for these dates', 409);
+    }
+
+    return db.createWaitlistEntry({
+      id: uuidv4(),
+      guestId,
+      roomType,
+      checkInDate,
+      checkOutDate,
+      numberOfGuests,
+      status: WaitlistStatus.WAITING,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+  }
+
+  /**
+   * Take a guest off the waitlist. An offered room is released by cancelling its hold instead.
+   */
+  leave(entryId: string): WaitlistEntry {
+    const entry = db.getWaitlistEntryById(entryId);
+    if (!entry) {
+      throw new AppError('Waitlist entry not found', 404);
+    }
+
+    if (entry.status !== WaitlistStatus.WAITING) {
+      throw new AppError(`Cannot leave the waitlist once the entry is ${entry.status}`, 409);
+    }
+
+    return db.updateWaitlistEntry(entryId, { status: WaitlistStatus.CANCELLED }) as WaitlistEntry;
+  }
+
+  getEntries(status?: WaitlistStatus): WaitlistEntry[] {
+    return db.getAllWaitlistEntries()
+      .filter(entry => !status || entry.status === status)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  getGuestEntries(guestId: string): WaitlistEntry[] {
+    return db.getWaitlistEntriesByGuestId(guestId)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  /**
+   * Waiting entries for a room type whose stay overlaps a date range, first come first served
+   */
+  getWaiting(roomType: RoomType, checkInDate: Date, checkOutDate: Date): WaitlistEntry[] {
+    return this.getEntries(WaitlistStatus.WAITING).filter(entry =>
+      entry.roomType === roomType &&
+      new Date(entry.checkInDate) < checkOutDate &&
+      new Date(entry.checkOutDate) > checkInDate
+    );
+  }
+
+  /**
+   * Record the hold placed for a waitlisted guest and email them the offer
+   */
+  async recordOffer(entry: WaitlistEntry, booking: Booking): Promise<WaitlistEntry> {
+    const offered = db.updateWaitlistEntry(entry.id, {
+      status: WaitlistStatus.OFFERED,
+      bookingId: booking.id,
+      offerExpiresAt: booking.holdExpiresAt
+    }) as WaitlistEntry;
+
+    const guest = db.getUserById(entry.guestId) as Guest | undefined;
+    if (guest) {
+      await emailService.sendWaitlistOffer({ entry: offered, booking, guest });
+    }
+    return offered;
+  }
+
+  /**
+   * Close the waitlist entry whose offered hold was paid for, lapsed or was cancelled
+   */
+  closeOffer(bookingId: string, status: WaitlistStatus.BOOKED | WaitlistStatus.EXPIRED | WaitlistStatus.CANCELLED): void {
+    const entry = db.getWaitlistEntryByBookingId(bookingId);
+    if (entry && entry.status === WaitlistStatus.OFFERED) {
+      db.updateWaitlistEntry(entry.id, { status });
+    }
+  }
+
+  /**
+   * Expire entries still waiting once their check-in date has passed. Returns how many were expired.
+   */
+  expirePastEntries(now: Date = new Date()): number {
+    const today = new Date(now);
+    today.setHours(0, 0, 0, 0);
+
+    const past = this.getEntries(WaitlistStatus.WAITING).filter(entry => new Date(entry.checkInDate) < today);
+    past.forEach(entry => db.updateWaitlistEntry(entry.id, { status: WaitlistStatus.EXPIRED }));
+    return past.length;
+  }
+}
+
+export const waitlistService = new WaitlistService();
@@ -17,6 +17,51 @@ export enum BookingStatus {
   CONFIRMED = 'CONFIRMED',
   CHECKED_IN = 'CHECKED_IN',
   CHECKED_OUT = 'CHECKED_OUT',
+  CANCELLED = 'CANCELLED',
+  NO_SHOW = 'NO_SHOW',
+  EXPIRED = 'EXPIRED'
+}
+
+// Housekeeping cycle of a room: DIRTY -> CLEANING -> CLEAN -> INSPECTED, back to DIRTY when used.
+// Guests may check in to CLEAN and INSPECTED rooms.
+export enum HousekeepingStatus {
+  DIRTY = 'DIRTY',
+  CLEANING = 'CLEANING',
+  CLEAN = 'CLEAN',
+  INSPECTED = 'INSPECTED'
+}
+
+export enum HousekeepingTaskStatus {
+  OPEN = 'OPEN',
+  IN_PROGRESS = 'IN_PROGRESS',
+  DONE = 'DONE'
+}
+
+// A guest's request to arrive before the standard check-in time or leave after the standard
+// check-out time
+export enum StayExtensionStatus {
+  REQUESTED = 'REQUESTED',
+  APPROVED = 'APPROVED',
+  DECLINED = 'DECLINED'
+}
+
+export enum FolioEntryType {
+  CHARGE = 'CHARGE',
+  CREDIT = 'CREDIT'
+}
+
+// Marketing and service emails sent by the campaign scheduler; guests can opt out of each
+export enum EmailCampaign {
+  PRE_ARRIVAL = 'PRE_ARRIVAL', // reminder a few days before check-in
+  POST_STAY = 'POST_STAY', // thank-you with a feedback link after check-out
+  ABANDONED_HOLD = 'ABANDONED_HOLD' // nudge to pay for a hold before it lapses
+}
+
+export enum WaitlistStatus {
+  WAITING = 'WAITING',
+  OFFERED = 'OFFERED', // a hold was placed for the guest and they were emailed
+  BOOKED = 'BOOKED',
+  EXPIRED = 'EXPIRED',
   CANCELLED = 'CANCELLED'
 }
 
@@ -25,9 +70,46 @@ export enum PaymentStatus {
   PROCESSING = 'PROCESSING',
   COMPLETED = 'COMPLETED',
   FAILED = 'FAILED',
+  PARTIALLY_REFUNDED = 'PARTIALLY_REFUNDED',
   REFUNDED = 'REFUNDED'
 }
 
+export enum RefundStatus {
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED'
+}
+
+export enum CancellationPenalty {
+  NONE = 'NONE',
+  FIRST_NIGHT = 'FIRST_NIGHT',
+  FULL_STAY = 'FULL_STAY'
+}
+
+export enum RateRuleType {
+  SEASONAL = 'SEASONAL',
+  DAY_OF_WEEK = 'DAY_OF_WEEK',
+  LENGTH_OF_STAY = 'LENGTH_OF_STAY',
+  OCCUPANCY = 'OCCUPANCY'
+}
+
+export enum RateAdjustmentType {
+  PERCENT = 'PERCENT',
+  FIXED = 'FIXED'
+}
+
+export enum LineItemType {
+  ROOM = 'ROOM',
+  ADJUSTMENT = 'ADJUSTMENT',
+  DISCOUNT = 'DISCOUNT',
+  TAX = 'TAX',
+  FEE = 'FEE'
+}
+
+export enum PromoDiscountType {
+  PERCENT = 'PERCENT',
+  FIXED = 'FIXED'
+}
+
 export interface User {
   id: string;
   email: string;
@@ -36,6 +118,7 @@ export interface User {
   firstName: string;
   lastName: string;
   phone: string;
+  emailOptOuts?: EmailCampaign[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -58,38 +141,312 @@ export interface Room {
   amenities: string[];
   floor: number;
   isAvailable: boolean;
+  housekeepingStatus: HousekeepingStatus;
   images?: string[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+// roomId is unset for bookings sold by room type until a room is assigned.
+// roomAutoAssigned marks rooms picked by the system, which may be moved again before arrival.
+// Rooms of a group booking share a groupId and are all booked by the group's organizer.
 export interface Booking {
   id: string;
   guestId: string;
-  roomId: string;
+  groupId?: string;
+  occupantName?: string;
+  roomId?: string;
+  roomType: RoomType;
+  roomAutoAssigned?: boolean;
   checkInDate: Date;
   checkOutDate: Date;
   numberOfGuests: number;
   totalPrice: number;
+  lineItems: BookingLineItem[];
+  currency: string;
+  exchangeRate: number;
+  promoCode?: string;
+  holdExpiresAt?: Date;
   status: BookingStatus;
+  cancellationPolicy: string;
   specialRequests?: string;
+  earlyCheckIn?: StayExtensionStatus;
+  lateCheckOut?: StayExtensionStatus;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export enum GroupPaymentMode {
+  SINGLE = 'SINGLE', // the organizer pays for every room in one charge
+  SPLIT = 'SPLIT' // each room is charged separately and confirmed on its own
+}
+
+export interface BookingGroup {
+  id: string;
+  organizerId: string;
+  name: string;
+  paymentMode: GroupPaymentMode;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// bookingId is the hold offered to the guest once a matching room frees up
+export interface WaitlistEntry {
+  id: string;
+  guestId: string;
+  roomType: RoomType;
+  checkInDate: Date;
+  checkOutDate: Date;
+  numberOfGuests: number;
+  status: WaitlistStatus;
+  bookingId?: string;
+  offerExpiresAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Cleaning job for a room, raised when a guest checks out or the room is marked dirty
+export interface HousekeepingTask {
+  id: string;
+  roomId: string;
+  bookingId?: string;
+  status: HousekeepingTaskStatus;
+  assignedTo?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+}
+
+// Incidental posted to a booking during the stay, such as room service or the minibar. Amounts
+// are positive and in the base currency; a CREDIT reduces what the guest owes.
+export interface FolioEntry {
+  id: string;
+  bookingId: string;
+  type: FolioEntryType;
+  description: string;
+  amount: number;
+  postedBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Number given to a booking's invoice the first time it is issued. Sequences run per hotel
+// and are never reused; the invoice itself is rendered from the booking when requested.
+export interface Invoice {
+  id: string;
+  bookingId: string;
+  sequence: number;
+  number: string;
+  issuedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Record of a campaign email sent about a booking, so each campaign reaches a booking at most once
+export interface CampaignEmail {
+  id: string;
+  campaign: EmailCampaign;
+  bookingId: string;
+  guestId: string;
+  sentAt: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Takes a room out of service from startDate (inclusive) to endDate (exclusive), like a stay
+export interface MaintenanceBlock {
+  id: string;
+  roomId: string;
+  startDate: Date;
+  endDate: Date;
+  reason: string;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface BookingLineItem {
+  type: LineItemType;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+  date?: string;
+}
+
+export interface PriceBreakdown {
+  roomCharges: number;
+  adjustments: number;
+  discounts: number;
+  taxes: number;
+  fees: number;
+  total: number;
+}
+
+export interface BookingStatusChange {
+  id: string;
+  bookingId: string;
+  fromStatus?: BookingStatus;
+  toStatus: BookingStatus;
+  changedBy: string;
+  reason?: string;
+  changedAt: Date;
+}
+
+// amount is in the hotel's base currency; amountMinor is what the guest is charged,
+// in minor units of currency, converted at exchangeRate
 export interface Payment {
   id: string;
   bookingId: string;
   amount: number;
   currency: string;
+  exchangeRate: number;
+  amountMinor: number;
   status: PaymentStatus;
   paymentMethod: string;
+  gateway?: string;
+  authorizationId?: string;
   transactionId?: string;
+  failureReason?: string;
+  description?: string;
   paidAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface Refund {
+  id: string;
+  paymentId: string;
+  bookingId: string;
+  amount: number;
+  amountMinor: number;
+  status: RefundStatus;
+  reason: string;
+  gatewayReference?: string;
+  failureReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CancellationPolicy {
+  code: string;
+  description: string;
+  refundable: boolean;
+  freeCancellationHours: number;
+  lateCancellationPenalty: CancellationPenalty;
+}
+
+export interface RefundQuote {
+  policy: string;
+  refundAmount: number;
+  penaltyAmount: number;
+  freeCancellationUntil?: Date;
+}
+
+export interface RateRule {
+  id: string;
+  name: string;
+  type: RateRuleType;
+  adjustmentType: RateAdjustmentType;
+  adjustmentValue: number;
+  roomTypes?: RoomType[];
+  startDate?: Date;
+  endDate?: Date;
+  daysOfWeek?: number[];
+  minNights?: number;
+  minOccupancyPercent?: number;
+  priority: number;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PromoCode {
+  id: string;
+  code: string;
+  description?: string;
+  discountType: PromoDiscountType;
+  discountValue: number;
+  roomTypes?: RoomType[];
+  validFrom?: Date;
+  validUntil?: Date;
+  maxRedemptions?: number;
+  maxRedemptionsPerGuest?: number;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PromoRedemption {
+  id: string;
+  promoCodeId: string;
+  bookingId: string;
+  guestId: string;
+  discountAmount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PromoCodeUsage {
+  promoCodeId: string;
+  code: string;
+  isActive: boolean;
+  redemptions: number;
+  activeRedemptions: number;
+  maxRedemptions?: number;
+  totalDiscount: number;
+  bookingRevenue: number;
+}
+
+// Units of currency per one unit of the base currency
+export interface ExchangeRate {
+  id: string;
+  currency: string;
+  rate: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CurrencyTotals {
+  currency: string;
+  payments: number;
+  chargedMinor: number;
+  refundedMinor: number;
+  grossRevenue: number;
+  refunds: number;
+  netRevenue: number;
+}
+
+export interface RevenueReport {
+  baseCurrency: string;
+  from?: Date;
+  to?: Date;
+  grossRevenue: number;
+  refunds: number;
+  netRevenue: number;
+  byCurrency: CurrencyTotals[];
+}
+
+export interface NightlyRate {
+  date: string;
+  baseRate: number;
+  rate: number;
+  appliedRules: string[];
+}
+
+export interface PriceQuote {
+  nights: NightlyRate[];
+  subtotal: number;
+  lengthOfStayAdjustment: number;
+  total: number;
+}
+
+export interface StayPrice {
+  quote: PriceQuote;
+  lineItems: BookingLineItem[];
+  totalPrice: number;
+}
+
 export interface AuthToken {
   userId: string;
   email: string;
@@ -105,16 +462,172 @@ export interface RoomAvailability {
   isAvailable: boolean;
   availableFrom?: Date;
   pricePerNight: number;
+  quotedTotal?: number;
+  currency?: string;
+  displayTotal?: number;
 }
 
-export interface BookingRequest {
+// A window of the same length as a search that has rooms free, shiftDays from the requested check-in
+export interface AlternativeDates {
+  checkInDate: Date;
+  checkOutDate: Date;
+  shiftDays: number;
+  availableRooms: number;
+  lowestQuotedTotal: number;
+}
+
+// A free room of the requested or a higher type for the requested dates
+export interface AlternativeRoom {
+  roomId: string;
+  roomNumber: string;
+  type: RoomType;
+  capacity: number;
+  pricePerNight: number;
+  quotedTotal: number;
+  priceDifference: number;
+}
+
+export interface AvailabilitySuggestions {
+  alternativeDates: AlternativeDates[];
+  alternativeRooms: AlternativeRoom[];
+}
+
+export interface RoomTypeAvailability {
+  roomType: RoomType;
+  totalRooms: number;
+  availableRooms: number;
+  maxGuests: number;
+  pricePerNight: number;
+  quotedTotal?: number;
+}
+
+export enum CalendarNightStatus {
+  FREE = 'FREE',
+  BOOKED = 'BOOKED',
+  HELD = 'HELD',
+  OUT_OF_ORDER = 'OUT_OF_ORDER'
+}
+
+export interface CalendarNight {
+  date: string;
+  status: CalendarNightStatus;
+  bookingId?: string;
+  maintenanceBlockId?: string;
+}
+
+export interface RoomCalendar {
+  roomId: string;
+  roomNumber: string;
+  type: RoomType;
+  floor: number;
+  nights: CalendarNight[];
+}
+
+// Bookings sold by room type that take up a night without a room assigned yet
+export interface UnassignedNight {
+  roomType: RoomType;
+  date: string;
+  bookingIds: string[];
+}
+
+export interface AvailabilityCalendar {
+  from: string;
+  to: string;
+  dates: string[];
+  rooms: RoomCalendar[];
+  unassigned: UnassignedNight[];
+}
+
+export interface RoomAssignment {
+  bookingId: string;
+  guestId: string;
   roomId: string;
+  roomNumber: string;
+  bookedType: RoomType;
+  assignedType: RoomType;
+  upgraded: boolean;
+  preferences: string[];
+  unmetPreferences: string[];
+}
+
+// A booking relocated to another room of the same type to make space for an arrival
+export interface RoomMove {
+  bookingId: string;
+  fromRoomId: string;
+  toRoomId: string;
+  forBookingId: string;
+}
+
+export interface RoomAssignmentRun {
+  date: string;
+  assignments: RoomAssignment[];
+  moves: RoomMove[];
+  unassigned: { bookingId: string; reason: string }[];
+}
+
+// Exactly one of roomId or roomType is given for each room
+export interface GroupRoomRequest {
+  roomId?: string;
+  roomType?: RoomType;
+  numberOfGuests: number;
+  occupantName?: string;
+  specialRequests?: string;
+  // Card for this room's charge when the group pays split
+  paymentMethod?: string;
+}
+
+export interface GroupBookingRequest {
+  name: string;
   checkInDate: string;
   checkOutDate: string;
+  rooms: GroupRoomRequest[];
+  paymentMode?: GroupPaymentMode;
+  paymentMethod?: string;
+  cancellationPolicy?: string;
+  currency?: string;
+}
+
+export interface GroupManifestEntry {
+  bookingId: string;
+  roomId?: string;
+  roomNumber?: string;
+  roomType: RoomType;
+  occupantName?: string;
   numberOfGuests: number;
+  checkInDate: Date;
+  checkOutDate: Date;
+  status: BookingStatus;
+  totalPrice: number;
+  paidAmount: number;
   specialRequests?: string;
 }
 
+export interface GroupManifest {
+  group: BookingGroup;
+  organizer: Pick<User, 'id' | 'firstName' | 'lastName' | 'email' | 'phone'>;
+  rooms: GroupManifestEntry[];
+  activeRooms: number;
+  totalGuests: number;
+  totalPrice: number;
+  paidAmount: number;
+}
+
+// Exactly one of roomId or roomType is given
+export interface BookingRequest {
+  roomId?: string;
+  roomType?: RoomType;
+  checkInDate: string;
+  checkOutDate: string;
+  numberOfGuests: number;
+  specialRequests?: string;
+  paymentMethod?: string;
+  cancellationPolicy?: string;
+  currency?: string;
+  promoCode?: string;
+  earlyCheckIn?: boolean;
+  lateCheckOut?: boolean;
+}
+
 export interface BookingResponse {
   booking: Booking;
   payment: Payment;
@@ -128,12 +641,21 @@ export interface AvailabilityQuery {
   roomType?: RoomType;
   minCapacity?: number;
   maxPrice?: number;
+  currency?: string;
+}
+
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer | string;
+  contentType: string;
 }
 
 export interface EmailOptions {
   to: string;
   subject: string;
   html: string;
+  attachments?: EmailAttachment[];
+  headers?: Record<string, string>;
 }
 
 export interface BookingConfirmationData {
@@ -141,4 +663,139 @@ export interface BookingConfirmationData {
   guest: Guest;
   room: Room;
   payment: Payment;
+}
+
+export interface MaintenanceBlockRequest {
+  roomId: string;
+  startDate: string;
+  endDate: string;
+  reason: string;
+}
+
+// Bookings in a blocked room over the block's dates, which need another room
+export interface MaintenanceBlockDetails {
+  block: MaintenanceBlock;
+  affectedBookings: Booking[];
+}
+
+// A booking's running account in the base currency. balance is what the guest still owes, or
+// is owed back when negative.
+export interface Folio {
+  bookingId: string;
+  roomCharges: number;
+  entries: FolioEntry[];
+  incidentals: number;
+  credits: number;
+  total: number;
+  paid: number;
+  balance: number;
+}
+
+export type StayExtension = 'earlyCheckIn' | 'lateCheckOut';
+
+// Whether the room is free the night before arrival (early check-in) or the night of departure
+// (late check-out), and what using the extension costs
+export interface StayExtensionOption {
+  status?: StayExtensionStatus;
+  standardTime: string;
+  available: boolean;
+  fee: number;
+}
+
+export interface StayExtensions {
+  bookingId: string;
+  earlyCheckIn: StayExtensionOption;
+  lateCheckOut: StayExtensionOption;
+}
+
+export interface InvoiceLine {
+  date?: string;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+// Payments received show as positive amounts and refunds as negative ones
+export interface InvoicePayment {
+  date: Date;
+  description: string;
+  amount: number;
+}
+
+// Everything printed on an invoice, in the currency the booking was charged in. exchangeRate is
+// the rate snapshotted when the booking was made, per unit of baseCurrency.
+export interface InvoiceDocument {
+  invoice: Invoice;
+  currency: string;
+  baseCurrency: string;
+  exchangeRate: number;
+  booking: Booking;
+  guest: Guest;
+  room?: Room;
+  lines: InvoiceLine[];
+  taxes: InvoiceLine[];
+  subtotal: number;
+  taxTotal: number;
+  total: number;
+  payments: InvoicePayment[];
+  paid: number;
+  balance: number;
+}
+
+export interface FolioEntryRequest {
+  type: FolioEntryType;
+  description: string;
+  amount: number;
+}
+
+export interface WaitlistRequest {
+  roomType: RoomType;
+  checkInDate: string;
+  checkOutDate: string;
+  numberOfGuests: number;
+}
+
+export interface WaitlistOfferData {
+  entry: WaitlistEntry;
+  booking: Booking;
+  guest: Guest;
+}
+
+export interface FolioData {
+  booking: Booking;
+  guest: Guest;
+  room: Room;
+  folio: Folio;
+  attachments?: EmailAttachment[];
+}
+
+export interface CampaignEmailData {
+  booking: Booking;
+  guest: Guest;
+  room: Room;
+  unsubscribeUrl: string;
+}
+
+export interface NoShowData {
+  booking: Booking;
+  guest: Guest;
+  room: Room;
+  refund: RefundQuote;
+}
+
+export interface BookingCancellationData extends BookingConfirmationData {
+  refund: RefundQuote;
+}
+
+export interface BookingModificationRequest {
+  roomId?: string;
+  checkInDate?: string;
+  checkOutDate?: string;
+  numberOfGuests?: number;
+}
+
+export interface BookingModificationData extends BookingConfirmationData {
+  previousBooking: Booking;
+  priceDifference: number;
 }
\ No newline at end of file
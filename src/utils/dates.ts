@@ -0,0 +1,72 @@
+// utils/dates.ts
+
+export const DAY_MS = 1000 * 60 * 60 * 24;
+
+export const calculateNights = (checkInDate: Date, checkOutDate: Date): number =>
+  Math.ceil((new Date(checkOutDate).getTime() - new Date(checkInDate).getTime()) / DAY_MS);
+
+export const addDays = (date: Date, days: number): Date => new Date(new Date(date).getTime() + days * DAY_MS);
+
+// Calendar day (UTC) used as the key for per-night data
+export const toDateKey = (date: Date): string => new Date(date).toISOString().slice(0, 10);
+
+// Index of the calendar day (UTC) a date falls on; days compare like their toDateKey keys
+export const toDayNumber = (date: Date): number => Math.floor(new Date(date).getTime() / DAY_MS);
+
+// The calendar day (server local time) of a date at an HH:MM time of day
+export const atTimeOfDay = (date: Date, time: string): Date => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const result = new Date(date);
+  result.setHours(hours, minutes, 0, 0);
+  return result;
+};
+
+// Start of every night between check-in (inclusive) and check-out (exclusive)
+export const eachNight = (checkInDate: Date, checkOutDate: Date): Date[] => {
+  const nights: Date[] = [];
+  for (let i = 0; i < calculateNights(checkInDate, checkOutDate); i++) {
+    nights.push(addDays(checkInDate, i));
+  }
+  return nights;
+};
+
+type Stay = { checkInDate: Date; checkOutDate: Date };
+
+// The same nights as the stays, with overlapping and back-to-back stays joined into one
+export const mergeStays = (stays: Stay[]): Stay[] => {
+  const sorted = [...stays].sort((a, b) => new Date(a.checkInDate).getTime() - new Date(b.checkInDate).getTime());
+  const merged: Stay[] = [];
+  for (const stay of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && new Date(stay.checkInDate) <= last.checkOutDate) {
+      if (new Date(stay.checkOutDate) > last.checkOutDate) {
+        last.checkOutDate = new Date(stay.checkOutDate);
+      }
+    } else {
+      merged.push({ checkInDate: new Date(stay.checkInDate), checkOutDate: new Date(stay.checkOutDate) });
+    }
+  }
+  return merged;
+};
+
+// How many of the stays cover each night of a range, keyed by toDateKey
+export const countStaysByNight = (
+  checkInDate: Date,
+  checkOutDate: Date,
+  stays: { checkInDate: Date; checkOutDate: Date }[]
+): Map<string, number> => {
+  const nights = eachNight(checkInDate, checkOutDate);
+  const firstDay = toDayNumber(checkInDate);
+  const counts: number[] = nights.map(() => 0);
+
+  for (const stay of stays) {
+    const start = new Date(stay.checkInDate).getTime();
+    const stayStart = Math.floor(start / DAY_MS);
+    const stayEnd = stayStart + Math.ceil((new Date(stay.checkOutDate).getTime() - start) / DAY_MS);
+    for (let day = Math.max(stayStart, firstDay); day < Math.min(stayEnd, firstDay + nights.length); day++) {
+      counts[day - firstDay]++;
+    }
+  }
+
+  return new Map(nights.map((night, i) => [toDateKey(night), counts[i]]));
+};
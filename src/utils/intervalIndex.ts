@@ -0,0 +1,85 @@
+// utils/intervalIndex.ts
+
+export interface Interval<T> {
+  start: number;
+  end: number;
+  value: T;
+}
+
+// Half-open [start, end) intervals kept sorted by start. An overlap query binary-searches the
+// intervals that start before the range ends, then walks back only as far as the longest
+// interval could reach, so it touches the intervals near the range rather than all of them.
+export class IntervalIndex<T> {
+  private intervals: Interval<T>[] = [];
+  private maxLength = 0;
+
+  get size(): number {
+    return this.intervals.length;
+  }
+
+  insert(start: number, end: number, value: T): void {
+    this.intervals.splice(this.firstStartingAtOrAfter(start), 0, { start, end, value });
+    this.maxLength = Math.max(this.maxLength, end - start);
+  }
+
+  /**
+   * Remove the interval holding the value that starts at the given position
+   */
+  remove(start: number, value: T): boolean {
+    for (let i = this.firstStartingAtOrAfter(start); i < this.intervals.length && this.intervals[i].start === start; i++) {
+      if (this.intervals[i].value === value) {
+        this.intervals.splice(i, 1);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Intervals overlapping [start, end), ordered by start
+   */
+  query(start: number, end: number): Interval<T>[] {
+    const matches: Interval<T>[] = [];
+    for (let i = this.firstStartingAtOrAfter(end) - 1; i >= 0; i--) {
+      const interval = this.intervals[i];
+      // Nothing starting this early can still be running at the range start
+      if (interval.start + this.maxLength <= start) break;
+      if (interval.end > start) {
+        matches.push(interval);
+      }
+    }
+    return matches.reverse();
+  }
+
+  /**
+   * Earliest position at or after the given one from which no matching interval overlaps the
+   * following length. One pass in start order: each matching interval in the way moves the gap
+   * to its end, and the first that starts after the gap ends the search.
+   */
+  findGap(position: number, length: number, predicate: (value: T) => boolean): number {
+    let gapStart = position;
+    // Anything starting a full maxLength before the position has already ended
+    for (let i = this.firstStartingAtOrAfter(position - this.maxLength); i < this.intervals.length; i++) {
+      const interval = this.intervals[i];
+      if (interval.start >= gapStart + length) break;
+      if (interval.end > gapStart && predicate(interval.value)) {
+        gapStart = interval.end;
+      }
+    }
+    return gapStart;
+  }
+
+  private firstStartingAtOrAfter(position: number): number {
+    let low = 0;
+    let high = this.intervals.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.intervals[mid].start < position) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+}
@@ -0,0 +1,15 @@
+// utils/money.ts
+
+export const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+// ISO 4217 currencies without a minor unit
+const ZERO_DECIMAL_CURRENCIES = ['JPY', 'KRW', 'VND', 'CLP', 'ISK', 'UGX', 'XAF', 'XOF'];
+
+export const currencyExponent = (currency: string): number =>
+  ZERO_DECIMAL_CURRENCIES.includes(currency.toUpperCase()) ? 0 : 2;
+
+export const toMinorUnits = (amount: number, currency: string): number =>
+  Math.round(amount * Math.pow(10, currencyExponent(currency)));
+
+export const fromMinorUnits = (amountMinor: number, currency: string): number =>
+  amountMinor / Math.pow(10, currencyExponent(currency));
@@ -0,0 +1,72 @@
+// utils/pdf.ts
+
+// A4 in points
+export const PDF_PAGE_WIDTH = 595;
+export const PDF_PAGE_HEIGHT = 842;
+
+// Courier is fixed width, so text can be right-aligned in columns without font metrics
+const CHAR_WIDTH = 0.6;
+
+export interface PdfText {
+  x: number; // points from the left edge
+  y: number; // points from the top edge to the baseline
+  text: string;
+  size?: number;
+  bold?: boolean;
+}
+
+export const pdfTextWidth = (text: string, size: number): number => text.length * size * CHAR_WIDTH;
+
+// The built-in fonts use WinAnsiEncoding; anything outside Latin-1 is replaced
+const toPdfString = (text: string): string =>
+  '(' + text
+    .replace(/[^\x20-\xff]/g, '?')
+    .replace(/[\\()]/g, match => '\\' + match) + ')';
+
+const pageContent = (items: PdfText[]): string =>
+  items.map(item => {
+    const size = item.size || 10;
+    const y = PDF_PAGE_HEIGHT - item.y;
+    return `BT /${item.bold ? 'F2' : 'F1'} ${size} Tf 1 0 0 1 ${item.x.toFixed(2)} ${y.toFixed(2)} Tm ${toPdfString(item.text)} Tj ET`;
+  }).join('\n');
+
+/**
+ * Render pages of positioned text as a PDF document in the standard Courier fonts, which every
+ * reader ships with, so nothing needs embedding
+ */
+export const renderPdf = (pages: PdfText[][]): Buffer => {
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '', // page tree, filled in once the page objects are numbered
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier-Bold /Encoding /WinAnsiEncoding >>'
+  ];
+
+  const kids: string[] = [];
+  for (const items of pages) {
+    const pageNumber = objects.length + 1;
+    const content = pageContent(items);
+    kids.push(`${pageNumber} 0 R`);
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageNumber + 1} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  }
+  objects[1] = `<< /Type /Pages /Kids [${kids.join(' ')}] /Count ${kids.length} >>`;
+
+  // Every character is a single Latin-1 byte, so string lengths are byte offsets
+  let output = '%PDF-1.4\n';
+  const offsets = objects.map((object, i) => {
+    const offset = output.length;
+    output += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xref = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+};